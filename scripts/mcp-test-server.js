@@ -0,0 +1,120 @@
+/**
+ * Servidor MCP (stdio) mínimo para testes locais
+ *
+ * Uso no agents.json:
+ *   "mcpServers": {
+ *     "test": { "command": "node", "args": ["scripts/mcp-test-server.js"] }
+ *   }
+ *
+ * Expõe as tools `echo`, `add` e `get_ticket`. Logs vão para o stderr,
+ * pois o stdout é reservado para as mensagens JSON-RPC.
+ */
+const readline = require('readline');
+
+const tickets = {
+  'DEL-1': { title: 'Erro ao salvar config.json', status: 'open', assignee: 'time-plataforma' },
+  'DEL-2': { title: 'Adicionar suporte a MCP', status: 'in_progress', assignee: 'time-ia' },
+};
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Retorna o texto recebido',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string', description: 'Texto a ser ecoado' } },
+      required: ['text'],
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'add',
+    description: 'Soma dois números',
+    inputSchema: {
+      type: 'object',
+      properties: { a: { type: 'number' }, b: { type: 'number' } },
+      required: ['a', 'b'],
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'get_ticket',
+    description: 'Consulta um ticket pelo ID (ex: DEL-1)',
+    inputSchema: {
+      type: 'object',
+      properties: { ticketId: { type: 'string' } },
+      required: ['ticketId'],
+    },
+    annotations: { readOnlyHint: true },
+  },
+];
+
+function callTool(name, args) {
+  switch (name) {
+    case 'echo':
+      return { content: [{ type: 'text', text: String(args.text ?? '') }] };
+    case 'add':
+      return { content: [{ type: 'text', text: String(Number(args.a) + Number(args.b)) }] };
+    case 'get_ticket': {
+      const ticket = tickets[args.ticketId];
+      if (!ticket) {
+        return { content: [{ type: 'text', text: `Ticket ${args.ticketId} não encontrado` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify({ id: args.ticketId, ...ticket }, null, 2) }] };
+    }
+    default:
+      return null;
+  }
+}
+
+function send(message) {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+}
+
+function handleRequest(request) {
+  switch (request.method) {
+    case 'initialize':
+      return {
+        protocolVersion: '2024-11-05',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'delsuc-mcp-test-server', version: '1.0.0' },
+      };
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return { tools };
+    case 'tools/call': {
+      const result = callTool(request.params?.name, request.params?.arguments || {});
+      if (!result) {
+        throw { code: -32602, message: `Tool desconhecida: ${request.params?.name}` };
+      }
+      return result;
+    }
+    default:
+      throw { code: -32601, message: `Método não suportado: ${request.method}` };
+  }
+}
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  if (!line.trim()) return;
+
+  let request;
+  try {
+    request = JSON.parse(line);
+  } catch (error) {
+    send({ id: null, error: { code: -32700, message: 'JSON inválido' } });
+    return;
+  }
+
+  // Notificações (sem id) não têm resposta
+  if (request.id === undefined) {
+    console.error(`[mcp-test-server] Notificação: ${request.method}`);
+    return;
+  }
+
+  try {
+    send({ id: request.id, result: handleRequest(request) });
+  } catch (error) {
+    send({ id: request.id, error: { code: error.code || -32603, message: error.message || String(error) } });
+  }
+});
@@ -0,0 +1,40 @@
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+function findSpecFiles(dirPath) {
+  return fs.readdirSync(dirPath, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      return findSpecFiles(entryPath);
+    }
+    return entry.name.endsWith('.spec.ts') ? [entryPath] : [];
+  });
+}
+
+function main() {
+  const projectRoot = path.resolve(__dirname, '..');
+  // O node --test do Node 20 não expande globs e o cmd do Windows também não: os arquivos são listados aqui
+  const specFiles = findSpecFiles(path.join(projectRoot, 'src'))
+    .map((filePath) => path.relative(projectRoot, filePath))
+    .sort();
+
+  if (specFiles.length === 0) {
+    console.warn('[run-tests] Nenhum arquivo *.spec.ts encontrado em src/');
+    return;
+  }
+
+  // Os tipos já foram verificados pelo tsc (tsconfig.test.json); o ts-node só transpila
+  const result = spawnSync(
+    process.execPath,
+    ['--test', '--require', 'ts-node/register/transpile-only', ...specFiles],
+    { cwd: projectRoot, stdio: 'inherit' }
+  );
+
+  if (result.error) {
+    console.error(`[run-tests] Erro ao executar os testes: ${result.error.message}`);
+  }
+  process.exit(result.status ?? 1);
+}
+
+main();
@@ -1,22 +1,39 @@
 import {
   AgentJsonConfig,
+  AgentsJsonFile,
   AgentsJsonFileHierarchical,
+  GroupAffinityConfig,
   GroupConfig,
   isHierarchicalStructure,
+  lintAgentsData,
+  lintAgentsFile,
   readAgentsJsonRaw,
   saveAgentsJson,
 } from './agentLoader';
 import { reloadAgentsConfig } from './config';
+import type { MainSelectorRouting } from './agentRouter';
+import { AgentsLintReport, getIntroducedErrors, LintIssue, validateGenerationSettings } from '../validation/agentsValidator';
+import { McpServerConfig } from '../tools/mcpClient';
+import { getAgentsRevision, saveAgentsRevision } from '../storage/agentsRevisionStorage';
+import { diffJson, JsonFieldChange } from '../utils/jsonDiff';
+import { AgentsRevision } from '../types';
+
+/**
+ * Autor registrado nas revisões quando a requisição não informa um
+ */
+export const DEFAULT_REVISION_AUTHOR = 'anonymous';
 
 /**
  * Erro customizado para operações de CRUD de agentes.
  */
 export class AgentCrudError extends Error {
   status: number;
+  details?: unknown;
 
-  constructor(message: string, status = 400) {
+  constructor(message: string, status = 400, details?: unknown) {
     super(message);
     this.status = status;
+    this.details = details;
   }
 }
 
@@ -52,9 +69,15 @@ async function loadHierarchicalAgentsFile(): Promise<AgentsJsonFileHierarchical>
     mainSelector: raw.mainSelector,
     fallbackAgent: raw.fallbackAgent,
     groups: raw.groups ? [...raw.groups] : [],
+    mcpServers: raw.mcpServers,
   };
 }
 
+/**
+ * Parâmetros de geração opcionais do agente
+ */
+const GENERATION_FIELDS = ['temperature', 'top_p', 'maxOutputTokens', 'responseFormat', 'toolChoice'] as const;
+
 /**
  * Normaliza e valida o payload do agente.
  */
@@ -111,6 +134,22 @@ function normalizeAgentPayload(
     throw new AgentCrudError('Campo "shouldUse" é obrigatório para o agente.');
   }
 
+  // null remove o parâmetro de geração (ex: atualização com { "temperature": null })
+  GENERATION_FIELDS.forEach((field) => {
+    if (normalized[field] === null) {
+      delete normalized[field];
+    }
+  });
+
+  const generationIssues = validateGenerationSettings(normalized);
+  if (generationIssues.length > 0) {
+    throw new AgentCrudError(
+      `Parâmetros de geração inválidos: ${generationIssues.map((issue) => issue.message).join('; ')}`,
+      400,
+      { issues: generationIssues },
+    );
+  }
+
   return normalized;
 }
 
@@ -127,9 +166,27 @@ function findGroup(groups: GroupConfig[], groupId: string): GroupConfig {
 
 /**
  * Persiste as alterações no arquivo e reinicializa o cache de configurações.
+ *
+ * Rejeita a escrita se ela introduzir erros de lint que o arquivo atual não tem
+ * e registra a alteração no histórico de revisões.
  */
-async function persistAgentsFile(data: AgentsJsonFileHierarchical): Promise<void> {
+async function persistAgentsFile(
+  data: AgentsJsonFileHierarchical,
+  author: string,
+  action: string,
+): Promise<void> {
+  const before = await readAgentsJsonRaw();
+  const introducedErrors = getIntroducedErrors(lintAgentsData(before), lintAgentsData(data));
+  if (introducedErrors.length > 0) {
+    throw new AgentCrudError(
+      `Alteração rejeitada: ${introducedErrors.map((issue) => issue.message).join('; ')}`,
+      422,
+      { issues: introducedErrors },
+    );
+  }
+
   await saveAgentsJson(data);
+  saveAgentsRevision(before, data, author, action);
   await reloadAgentsConfig();
 }
 
@@ -146,6 +203,7 @@ export async function getAgentsHierarchy(): Promise<AgentsJsonFileHierarchical>
 export async function createAgent(
   groupId: string,
   agentPayload: AgentCreatePayload,
+  author: string = DEFAULT_REVISION_AUTHOR,
 ): Promise<AgentJsonConfig> {
   if (!groupId) {
     throw new AgentCrudError('Parâmetro "groupId" é obrigatório.');
@@ -163,7 +221,7 @@ export async function createAgent(
   }
 
   group.agents.push(normalizedAgent);
-  await persistAgentsFile(data);
+  await persistAgentsFile(data, author, 'createAgent');
 
   return normalizedAgent;
 }
@@ -175,6 +233,7 @@ export async function updateAgent(
   groupId: string,
   agentName: string,
   updates: AgentUpdatePayload,
+  author: string = DEFAULT_REVISION_AUTHOR,
 ): Promise<AgentJsonConfig> {
   if (!groupId || !agentName) {
     throw new AgentCrudError('Parâmetros "groupId" e "agentName" são obrigatórios.');
@@ -210,7 +269,7 @@ export async function updateAgent(
   }
 
   group.agents[agentIndex] = merged;
-  await persistAgentsFile(data);
+  await persistAgentsFile(data, author, 'updateAgent');
 
   return merged;
 }
@@ -220,6 +279,7 @@ export async function updateAgent(
  */
 export async function upsertFallbackAgent(
   payload: AgentCreatePayload | AgentUpdatePayload,
+  author: string = DEFAULT_REVISION_AUTHOR,
 ): Promise<AgentJsonConfig> {
   const data = await loadHierarchicalAgentsFile();
   const existingFallback = data.fallbackAgent;
@@ -238,7 +298,7 @@ export async function upsertFallbackAgent(
   }
 
   data.fallbackAgent = normalizedFallback;
-  await persistAgentsFile(data);
+  await persistAgentsFile(data, author, 'upsertFallbackAgent');
 
   return normalizedFallback;
 }
@@ -249,6 +309,7 @@ export async function upsertFallbackAgent(
 export async function upsertGroupOrchestrator(
   groupId: string,
   orchestratorPayload: AgentCreatePayload,
+  author: string = DEFAULT_REVISION_AUTHOR,
 ): Promise<AgentJsonConfig> {
   if (!groupId) {
     throw new AgentCrudError('Parâmetro "groupId" é obrigatório.');
@@ -262,7 +323,7 @@ export async function upsertGroupOrchestrator(
   });
 
   group.orchestrator = normalizedOrchestrator;
-  await persistAgentsFile(data);
+  await persistAgentsFile(data, author, 'upsertGroupOrchestrator');
 
   return normalizedOrchestrator;
 }
@@ -270,7 +331,10 @@ export async function upsertGroupOrchestrator(
 /**
  * Remove o orquestrador de um grupo.
  */
-export async function deleteGroupOrchestrator(groupId: string): Promise<void> {
+export async function deleteGroupOrchestrator(
+  groupId: string,
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<void> {
   if (!groupId) {
     throw new AgentCrudError('Parâmetro "groupId" é obrigatório.');
   }
@@ -286,7 +350,7 @@ export async function deleteGroupOrchestrator(groupId: string): Promise<void> {
   }
 
   delete group.orchestrator;
-  await persistAgentsFile(data);
+  await persistAgentsFile(data, author, 'deleteGroupOrchestrator');
 }
 
 /**
@@ -295,6 +359,7 @@ export async function deleteGroupOrchestrator(groupId: string): Promise<void> {
 export async function deleteAgent(
   groupId: string,
   agentName: string,
+  author: string = DEFAULT_REVISION_AUTHOR,
 ): Promise<void> {
   if (!groupId || !agentName) {
     throw new AgentCrudError('Parâmetros "groupId" e "agentName" são obrigatórios.');
@@ -312,6 +377,857 @@ export async function deleteAgent(
   }
 
   group.agents.splice(agentIndex, 1);
-  await persistAgentsFile(data);
+  await persistAgentsFile(data, author, 'deleteAgent');
+}
+
+/**
+ * Estrutura esperada para o payload de criação de grupo.
+ */
+export interface GroupCreatePayload {
+  id: string;
+  name: string;
+  description?: string;
+  affinity?: GroupAffinityConfig;
+  orchestrator?: AgentCreatePayload;
+  /** Posição do grupo na lista (padrão: final) */
+  position?: number;
+}
+
+/**
+ * Estrutura esperada para o payload de atualização de grupo.
+ *
+ * `affinity: null` remove a afinidade do grupo.
+ */
+export interface GroupUpdatePayload {
+  id?: string;
+  name?: string;
+  description?: string;
+  affinity?: GroupAffinityConfig | null;
+}
+
+/**
+ * Estrutura esperada para a reordenação de prioridades em lote.
+ *
+ * Aceita prioridades explícitas por nome de agente ou uma lista ordenada
+ * de nomes (a prioridade é atribuída a partir de `start`, somando `step`).
+ */
+export interface PriorityReorderPayload {
+  priorities?: Record<string, number>;
+  order?: string[];
+  start?: number;
+  step?: number;
+}
+
+/**
+ * Valida o ID de um grupo (usado na URL das rotas de CRUD).
+ */
+function validateGroupId(groupId: unknown): string {
+  if (!groupId || typeof groupId !== 'string' || !groupId.trim()) {
+    throw new AgentCrudError('Campo "id" é obrigatório para o grupo.');
+  }
+  if (!/^[A-Za-z0-9_-]+$/.test(groupId)) {
+    throw new AgentCrudError(
+      `ID de grupo inválido: "${groupId}". Use apenas letras, números, "-" e "_".`,
+    );
+  }
+  return groupId;
+}
+
+/**
+ * Cria um novo grupo de agentes.
+ */
+export async function createGroup(
+  payload: GroupCreatePayload,
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<GroupConfig> {
+  const id = validateGroupId(payload?.id);
+  if (!payload.name || typeof payload.name !== 'string') {
+    throw new AgentCrudError('Campo "name" é obrigatório para o grupo.');
+  }
+
+  const data = await loadHierarchicalAgentsFile();
+  const groups = data.groups || [];
+
+  if (groups.some((group) => group.id === id)) {
+    throw new AgentCrudError(`Já existe um grupo com o id "${id}".`);
+  }
+
+  const group: GroupConfig = {
+    id,
+    name: payload.name,
+    description: payload.description || '',
+    ...(payload.affinity !== undefined ? { affinity: payload.affinity } : {}),
+    ...(payload.orchestrator
+      ? { orchestrator: normalizeAgentPayload(payload.orchestrator, { defaultPriority: 0 }) }
+      : {}),
+    agents: [],
+  };
+
+  const position = typeof payload.position === 'number'
+    ? Math.min(Math.max(Math.trunc(payload.position), 0), groups.length)
+    : groups.length;
+  groups.splice(position, 0, group);
+  data.groups = groups;
+
+  await persistAgentsFile(data, author, 'createGroup');
+
+  return group;
+}
+
+/**
+ * Atualiza (ou renomeia) um grupo existente.
+ *
+ * Os agentes e o orquestrador do grupo são mantidos; use as rotas próprias para alterá-los.
+ */
+export async function updateGroup(
+  groupId: string,
+  updates: GroupUpdatePayload,
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<GroupConfig> {
+  if (!groupId) {
+    throw new AgentCrudError('Parâmetro "groupId" é obrigatório.');
+  }
+
+  const data = await loadHierarchicalAgentsFile();
+  const groups = data.groups || [];
+  const group = findGroup(groups, groupId);
+
+  if (updates.id !== undefined && updates.id !== groupId) {
+    const newId = validateGroupId(updates.id);
+    if (groups.some((g) => g.id === newId)) {
+      throw new AgentCrudError(`Já existe outro grupo com o id "${newId}".`);
+    }
+    group.id = newId;
+  }
+  if (updates.name !== undefined) {
+    if (!updates.name || typeof updates.name !== 'string') {
+      throw new AgentCrudError('Campo "name" do grupo deve ser uma string não vazia.');
+    }
+    group.name = updates.name;
+  }
+  if (updates.description !== undefined) {
+    group.description = updates.description;
+  }
+  if (updates.affinity === null) {
+    delete group.affinity;
+  } else if (updates.affinity !== undefined) {
+    group.affinity = updates.affinity;
+  }
+
+  await persistAgentsFile(data, author, 'updateGroup');
+
+  return group;
+}
+
+/**
+ * Remove um grupo.
+ *
+ * Grupos com agentes só são removidos com `force`, pois os agentes são removidos junto.
+ */
+export async function deleteGroup(
+  groupId: string,
+  force = false,
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<GroupConfig> {
+  if (!groupId) {
+    throw new AgentCrudError('Parâmetro "groupId" é obrigatório.');
+  }
+
+  const data = await loadHierarchicalAgentsFile();
+  const groups = data.groups || [];
+  const group = findGroup(groups, groupId);
+
+  if (group.agents.length > 0 && !force) {
+    throw new AgentCrudError(
+      `Grupo "${groupId}" possui ${group.agents.length} agente(s). Use force=true para removê-lo junto com os agentes.`,
+      400,
+      { agents: group.agents.map((agent) => agent.name) },
+    );
+  }
+
+  data.groups = groups.filter((g) => g.id !== groupId);
+  await persistAgentsFile(data, author, 'deleteGroup');
+
+  return group;
+}
+
+/**
+ * Reordena os grupos.
+ *
+ * @param {string[]} groupIds - IDs de todos os grupos, na nova ordem
+ */
+export async function reorderGroups(
+  groupIds: string[],
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<GroupConfig[]> {
+  if (!Array.isArray(groupIds) || groupIds.some((id) => typeof id !== 'string')) {
+    throw new AgentCrudError('Campo "groupIds" deve ser uma lista de IDs de grupo.');
+  }
+
+  const data = await loadHierarchicalAgentsFile();
+  const groups = data.groups || [];
+
+  const unknown = groupIds.filter((id) => !groups.some((group) => group.id === id));
+  if (unknown.length > 0) {
+    throw new AgentCrudError(`Grupo(s) não encontrado(s): ${unknown.join(', ')}.`, 404);
+  }
+  const missing = groups.filter((group) => !groupIds.includes(group.id)).map((group) => group.id);
+  if (missing.length > 0 || new Set(groupIds).size !== groupIds.length) {
+    throw new AgentCrudError(
+      'Campo "groupIds" deve conter cada grupo exatamente uma vez.',
+      400,
+      { missing },
+    );
+  }
+
+  data.groups = groupIds.map((id) => findGroup(groups, id));
+  await persistAgentsFile(data, author, 'reorderGroups');
+
+  return data.groups;
+}
+
+/**
+ * Valida a configuração de roteamento do Main Selector.
+ */
+function validateMainSelectorRouting(routing: unknown): void {
+  if (routing === undefined) {
+    return;
+  }
+
+  const value = routing as Partial<MainSelectorRouting>;
+  if (!routing || typeof routing !== 'object' || (value.mode !== 'rules' && value.mode !== 'llm')) {
+    throw new AgentCrudError('Campo "routing.mode" deve ser "rules" ou "llm".');
+  }
+  if (
+    value.minConfidence !== undefined &&
+    (typeof value.minConfidence !== 'number' || value.minConfidence < 0 || value.minConfidence > 1)
+  ) {
+    throw new AgentCrudError('Campo "routing.minConfidence" deve ser um número entre 0 e 1.');
+  }
+}
+
+/**
+ * Cria ou atualiza o Main Selector.
+ *
+ * `routing: null` remove a configuração de roteamento (volta ao modo `rules`).
+ */
+export async function upsertMainSelector(
+  payload: (AgentCreatePayload | AgentUpdatePayload) & { routing?: MainSelectorRouting | null },
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<AgentJsonConfig> {
+  const data = await loadHierarchicalAgentsFile();
+  const existing = data.mainSelector;
+
+  const merged: Record<string, any> = existing
+    ? { ...existing, ...payload, name: (payload as AgentUpdatePayload).name ?? existing.name }
+    : { ...payload };
+  if (merged.routing === null) {
+    delete merged.routing;
+  }
+  validateMainSelectorRouting(merged.routing);
+
+  const normalizedSelector = normalizeAgentPayload(merged as AgentJsonConfig, { defaultPriority: -1 });
+
+  data.mainSelector = normalizedSelector;
+  await persistAgentsFile(data, author, 'upsertMainSelector');
+
+  return normalizedSelector;
+}
+
+/**
+ * Remove o Main Selector.
+ */
+export async function deleteMainSelector(
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<void> {
+  const data = await loadHierarchicalAgentsFile();
+
+  if (!data.mainSelector) {
+    throw new AgentCrudError('O agents.json não possui Main Selector configurado.', 404);
+  }
+
+  delete data.mainSelector;
+  await persistAgentsFile(data, author, 'deleteMainSelector');
+}
+
+/**
+ * Lista os toolSets configurados.
+ */
+export async function getToolSets(): Promise<Record<string, string[]>> {
+  const data = await loadHierarchicalAgentsFile();
+  return data.toolSets;
+}
+
+/**
+ * Cria ou atualiza um toolSet.
+ *
+ * Tools desconhecidas são rejeitadas pelo lint (422).
+ */
+export async function upsertToolSet(
+  name: string,
+  tools: string[],
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<{ name: string; tools: string[]; created: boolean }> {
+  if (!name || !name.trim()) {
+    throw new AgentCrudError('Parâmetro "name" é obrigatório para o toolSet.');
+  }
+  if (!Array.isArray(tools) || tools.some((tool) => !tool || typeof tool !== 'string')) {
+    throw new AgentCrudError('Campo "tools" deve ser uma lista de nomes de tools.');
+  }
+
+  const data = await loadHierarchicalAgentsFile();
+  const created = data.toolSets[name] === undefined;
+  const uniqueTools = Array.from(new Set(tools));
+
+  data.toolSets = { ...data.toolSets, [name]: uniqueTools };
+  await persistAgentsFile(data, author, created ? 'createToolSet' : 'updateToolSet');
+
+  return { name, tools: uniqueTools, created };
+}
+
+/**
+ * Lista os agentes do arquivo (Main Selector, orquestradores, agentes dos grupos e fallback).
+ */
+function listAllAgents(data: AgentsJsonFileHierarchical): AgentJsonConfig[] {
+  const agents: AgentJsonConfig[] = [];
+  if (data.mainSelector) agents.push(data.mainSelector);
+  (data.groups || []).forEach((group) => agents.push(...listGroupAgents(group)));
+  if (data.fallbackAgent) agents.push(data.fallbackAgent);
+  return agents;
+}
+
+/**
+ * Lista o orquestrador e os agentes de um grupo.
+ */
+function listGroupAgents(group: GroupConfig): AgentJsonConfig[] {
+  return group.orchestrator ? [group.orchestrator, ...group.agents] : [...group.agents];
+}
+
+/**
+ * Remove um toolSet.
+ *
+ * Toolsets ainda referenciados por agentes não são removidos.
+ */
+export async function deleteToolSet(
+  name: string,
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<void> {
+  const data = await loadHierarchicalAgentsFile();
+
+  if (data.toolSets[name] === undefined) {
+    throw new AgentCrudError(`toolSet "${name}" não encontrado.`, 404);
+  }
+
+  const usedBy = listAllAgents(data)
+    .filter((agent) => (agent.tools || []).includes(name))
+    .map((agent) => agent.name);
+  if (usedBy.length > 0) {
+    throw new AgentCrudError(
+      `toolSet "${name}" está em uso por: ${usedBy.join(', ')}.`,
+      400,
+      { agents: usedBy },
+    );
+  }
+
+  const { [name]: _removed, ...toolSets } = data.toolSets;
+  data.toolSets = toolSets;
+  await persistAgentsFile(data, author, 'deleteToolSet');
+}
+
+/**
+ * Atualiza a prioridade de vários agentes em uma única alteração.
+ *
+ * @returns {Record<string, number>} Prioridades aplicadas, por nome de agente
+ */
+export async function reorderAgentPriorities(
+  payload: PriorityReorderPayload,
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<Record<string, number>> {
+  let priorities: Record<string, number>;
+
+  if (Array.isArray(payload?.order)) {
+    const start = typeof payload.start === 'number' ? payload.start : 1;
+    const step = typeof payload.step === 'number' ? payload.step : 1;
+    if (new Set(payload.order).size !== payload.order.length) {
+      throw new AgentCrudError('Campo "order" não pode repetir agentes.');
+    }
+    priorities = Object.fromEntries(payload.order.map((agentName, index) => [agentName, start + index * step]));
+  } else if (payload?.priorities && typeof payload.priorities === 'object') {
+    priorities = payload.priorities;
+  } else {
+    throw new AgentCrudError('Informe "priorities" (nome → prioridade) ou "order" (lista de nomes).');
+  }
+
+  const invalid = Object.entries(priorities).filter(([, priority]) => typeof priority !== 'number' || !Number.isFinite(priority));
+  if (invalid.length > 0) {
+    throw new AgentCrudError(
+      `Prioridade inválida para: ${invalid.map(([agentName]) => agentName).join(', ')}.`,
+    );
+  }
+
+  const data = await loadHierarchicalAgentsFile();
+  const agentsByName = new Map(listAllAgents(data).map((agent) => [agent.name, agent]));
+
+  const unknown = Object.keys(priorities).filter((agentName) => !agentsByName.has(agentName));
+  if (unknown.length > 0) {
+    throw new AgentCrudError(`Agente(s) não encontrado(s): ${unknown.join(', ')}.`, 404);
+  }
+
+  Object.entries(priorities).forEach(([agentName, priority]) => {
+    agentsByName.get(agentName)!.priority = priority;
+  });
+  await persistAgentsFile(data, author, 'reorderAgentPriorities');
+
+  return priorities;
+}
+
+
+/**
+ * Identificador do formato dos bundles de agentes
+ */
+export const AGENTS_BUNDLE_FORMAT = 'delsuc-agents-bundle';
+
+/**
+ * Versão atual do formato dos bundles de agentes
+ */
+export const AGENTS_BUNDLE_VERSION = 1;
+
+/**
+ * Pacote portátil de agentes (um grupo ou a hierarquia completa)
+ *
+ * Os agentes são exportados como estão no agents.json, incluindo metadados
+ * como `stackspotAgentId`.
+ */
+export interface AgentsBundle {
+  format: typeof AGENTS_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Grupo exportado ou null para a hierarquia completa */
+  groupId: string | null;
+  groups: GroupConfig[];
+  /** toolSets referenciados pelos agentes do bundle (todos, na hierarquia completa) */
+  toolSets: Record<string, string[]>;
+  mainSelector?: AgentJsonConfig;
+  fallbackAgent?: AgentJsonConfig;
+  /**
+   * Ignorado na importação: cada servidor é um comando iniciado no próximo
+   * recarregamento do agents.json (bundles antigos ainda podem trazê-lo)
+   */
+  mcpServers?: Record<string, McpServerConfig>;
+}
+
+/**
+ * Modo de importação
+ *
+ * - merge: mantém o conteúdo atual e adiciona o do bundle
+ * - replace: os grupos do bundle substituem os grupos de mesmo id (a hierarquia
+ *   completa, no caso de um bundle completo)
+ */
+export type BundleImportMode = 'merge' | 'replace';
+
+/**
+ * Resolução de conflitos (item de mesmo nome com conteúdo diferente)
+ */
+export type BundleConflictStrategy = 'fail' | 'skip' | 'overwrite' | 'rename';
+
+/**
+ * Opções de importação de bundle
+ */
+export interface BundleImportOptions {
+  mode?: BundleImportMode;
+  onConflict?: BundleConflictStrategy;
+  /** Apenas calcula o diff, sem gravar o agents.json */
+  dryRun?: boolean;
+}
+
+/**
+ * Conflito encontrado na importação e como foi resolvido
+ */
+export interface BundleImportConflict {
+  kind: 'agent' | 'orchestrator' | 'mainSelector' | 'fallbackAgent' | 'toolSet';
+  name: string;
+  groupId?: string;
+  resolution: 'unresolved' | 'skipped' | 'overwritten' | 'renamed';
+  renamedTo?: string;
+}
+
+/**
+ * Resultado da importação de bundle
+ */
+export interface BundleImportResult {
+  dryRun: boolean;
+  mode: BundleImportMode;
+  onConflict: BundleConflictStrategy;
+  changes: JsonFieldChange[];
+  conflicts: BundleImportConflict[];
+  /** Erros de lint que a importação introduziria */
+  issues: LintIssue[];
+  /** Servidores MCP do bundle que não foram importados (com o comando que iniciariam) */
+  ignoredMcpServers: Array<{ name: string; command: string }>;
+}
+
+function cloneJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function isSameJson(before: unknown, after: unknown): boolean {
+  return diffJson(before, after).length === 0;
+}
+
+/**
+ * Gera um nome livre acrescentando um sufixo numérico (ex: "Code Analyzer (2)")
+ */
+function getAvailableName(name: string, isTaken: (candidate: string) => boolean, format: (n: number) => string): string {
+  let counter = 2;
+  while (isTaken(`${name}${format(counter)}`)) {
+    counter++;
+  }
+  return `${name}${format(counter)}`;
+}
+
+/**
+ * Exporta um grupo (ou a hierarquia completa) como bundle.
+ */
+export async function exportAgentsBundle(groupId?: string): Promise<AgentsBundle> {
+  const data = await loadHierarchicalAgentsFile();
+
+  if (!groupId) {
+    return cloneJson({
+      format: AGENTS_BUNDLE_FORMAT,
+      version: AGENTS_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      groupId: null,
+      groups: data.groups || [],
+      toolSets: data.toolSets,
+      ...(data.mainSelector ? { mainSelector: data.mainSelector } : {}),
+      ...(data.fallbackAgent ? { fallbackAgent: data.fallbackAgent } : {}),
+    });
+  }
+
+  const group = findGroup(data.groups || [], groupId);
+  const toolSets: Record<string, string[]> = {};
+  listGroupAgents(group)
+    .flatMap((agent) => agent.tools || [])
+    .filter((toolName) => data.toolSets[toolName] !== undefined)
+    .forEach((toolName) => {
+      toolSets[toolName] = data.toolSets[toolName];
+    });
+
+  return cloneJson({
+    format: AGENTS_BUNDLE_FORMAT,
+    version: AGENTS_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    groupId,
+    groups: [group],
+    toolSets,
+  });
 }
 
+/**
+ * Valida a estrutura de um bundle recebido.
+ */
+function validateBundle(bundle: unknown): AgentsBundle {
+  const value = bundle as Partial<AgentsBundle>;
+  if (!value || typeof value !== 'object' || value.format !== AGENTS_BUNDLE_FORMAT) {
+    throw new AgentCrudError(`Bundle inválido: campo "format" deve ser "${AGENTS_BUNDLE_FORMAT}".`);
+  }
+  if (typeof value.version !== 'number' || value.version > AGENTS_BUNDLE_VERSION) {
+    throw new AgentCrudError(`Versão de bundle não suportada: ${value.version}.`);
+  }
+  if (!Array.isArray(value.groups)) {
+    throw new AgentCrudError('Bundle inválido: campo "groups" deve ser uma lista.');
+  }
+  if (value.toolSets !== undefined && (!value.toolSets || typeof value.toolSets !== 'object' || Array.isArray(value.toolSets))) {
+    throw new AgentCrudError('Bundle inválido: campo "toolSets" deve ser um objeto.');
+  }
+  value.groups.forEach((group, index) => {
+    if (!group || typeof group.id !== 'string' || !Array.isArray(group.agents)) {
+      throw new AgentCrudError(`Bundle inválido: grupo na posição ${index} deve ter "id" e "agents".`);
+    }
+  });
+
+  return cloneJson({ ...value, toolSets: value.toolSets || {}, groupId: value.groupId ?? null } as AgentsBundle);
+}
+
+/**
+ * Local de um agente no agents.json
+ */
+interface AgentLocation {
+  agent: AgentJsonConfig;
+  group?: GroupConfig;
+  slot: 'agents' | 'orchestrator' | 'mainSelector' | 'fallbackAgent';
+}
+
+function findAgentLocation(data: AgentsJsonFileHierarchical, agentName: string): AgentLocation | null {
+  if (data.mainSelector?.name === agentName) {
+    return { agent: data.mainSelector, slot: 'mainSelector' };
+  }
+  if (data.fallbackAgent?.name === agentName) {
+    return { agent: data.fallbackAgent, slot: 'fallbackAgent' };
+  }
+  for (const group of data.groups || []) {
+    if (group.orchestrator?.name === agentName) {
+      return { agent: group.orchestrator, group, slot: 'orchestrator' };
+    }
+    const agent = group.agents.find((candidate) => candidate.name === agentName);
+    if (agent) {
+      return { agent, group, slot: 'agents' };
+    }
+  }
+  return null;
+}
+
+function removeAgentAt(data: AgentsJsonFileHierarchical, location: AgentLocation): void {
+  if (location.slot === 'mainSelector' || location.slot === 'fallbackAgent') {
+    delete data[location.slot];
+  } else if (location.slot === 'orchestrator') {
+    delete location.group!.orchestrator;
+  } else {
+    location.group!.agents = location.group!.agents.filter((agent) => agent !== location.agent);
+  }
+}
+
+/**
+ * Aplica um bundle sobre o conteúdo atual do agents.json (sem gravar)
+ */
+function applyAgentsBundle(
+  data: AgentsJsonFileHierarchical,
+  bundle: AgentsBundle,
+  mode: BundleImportMode,
+  onConflict: BundleConflictStrategy,
+): { next: AgentsJsonFileHierarchical; conflicts: BundleImportConflict[] } {
+  // Bundle completo em modo replace: o arquivo passa a ser o conteúdo do bundle (os servidores MCP atuais são mantidos)
+  if (mode === 'replace' && bundle.groupId === null) {
+    return {
+      next: {
+        toolSets: bundle.toolSets,
+        ...(bundle.mainSelector ? { mainSelector: bundle.mainSelector } : {}),
+        groups: bundle.groups,
+        ...(bundle.fallbackAgent ? { fallbackAgent: bundle.fallbackAgent } : {}),
+        ...(data.mcpServers ? { mcpServers: data.mcpServers } : {}),
+      },
+      conflicts: [],
+    };
+  }
+
+  const next = cloneJson(data);
+  next.groups = next.groups || [];
+  const conflicts: BundleImportConflict[] = [];
+
+  // Conflito sem renomeação possível: rename equivale a skip
+  const resolveSlot = (conflict: Omit<BundleImportConflict, 'resolution'>): boolean => {
+    const resolution = onConflict === 'fail' ? 'unresolved' : onConflict === 'overwrite' ? 'overwritten' : 'skipped';
+    conflicts.push({ ...conflict, resolution });
+    return resolution === 'overwritten';
+  };
+
+  // toolSets: renomeados recebem sufixo e as referências dos agentes do bundle são atualizadas
+  const toolSetRenames = new Map<string, string>();
+  Object.entries(bundle.toolSets).forEach(([name, tools]) => {
+    const existing = next.toolSets[name];
+    if (existing === undefined) {
+      next.toolSets[name] = tools;
+    } else if (!isSameJson(existing, tools)) {
+      if (onConflict === 'rename') {
+        const renamedTo = getAvailableName(
+          name,
+          (candidate) => next.toolSets[candidate] !== undefined || bundle.toolSets[candidate] !== undefined,
+          (n) => `_${n}`,
+        );
+        next.toolSets[renamedTo] = tools;
+        toolSetRenames.set(name, renamedTo);
+        conflicts.push({ kind: 'toolSet', name, resolution: 'renamed', renamedTo });
+      } else if (resolveSlot({ kind: 'toolSet', name })) {
+        next.toolSets[name] = tools;
+      }
+    }
+  });
+
+  const renameToolSets = (agent: AgentJsonConfig): AgentJsonConfig =>
+    toolSetRenames.size === 0 || !Array.isArray(agent.tools)
+      ? agent
+      : { ...agent, tools: agent.tools.map((toolName) => toolSetRenames.get(toolName) ?? toolName) };
+
+  /**
+   * Verifica se o nome do agente já existe em outro local
+   *
+   * @returns {string | null} Nome com que o agente deve ser gravado ou null se não deve ser importado
+   */
+  const resolveAgentName = (agent: AgentJsonConfig, kind: BundleImportConflict['kind'], groupId?: string): string | null => {
+    const location = findAgentLocation(next, agent.name);
+    if (!location) {
+      return agent.name;
+    }
+
+    if (onConflict === 'rename') {
+      const renamedTo = getAvailableName(agent.name, (candidate) => !!findAgentLocation(next, candidate), (n) => ` (${n})`);
+      conflicts.push({ kind, name: agent.name, groupId, resolution: 'renamed', renamedTo });
+      return renamedTo;
+    }
+    if (resolveSlot({ kind, name: agent.name, groupId })) {
+      removeAgentAt(next, location);
+      return agent.name;
+    }
+    return null;
+  };
+
+  bundle.groups.forEach((bundledGroup) => {
+    let target = next.groups!.find((group) => group.id === bundledGroup.id);
+
+    if (!target || mode === 'replace') {
+      const { orchestrator: _orchestrator, agents: _agents, ...groupFields } = bundledGroup;
+      const replacement: GroupConfig = { ...groupFields, agents: [] };
+      if (target) {
+        next.groups![next.groups!.indexOf(target)] = replacement;
+      } else {
+        next.groups!.push(replacement);
+      }
+      target = replacement;
+    }
+    const group = target;
+
+    if (bundledGroup.orchestrator) {
+      const orchestrator = renameToolSets(bundledGroup.orchestrator);
+      if (!group.orchestrator) {
+        const name = resolveAgentName(orchestrator, 'orchestrator', group.id);
+        if (name) group.orchestrator = { ...orchestrator, name };
+      } else if (!isSameJson(group.orchestrator, orchestrator) && resolveSlot({ kind: 'orchestrator', name: orchestrator.name, groupId: group.id })) {
+        group.orchestrator = orchestrator;
+      }
+    }
+
+    bundledGroup.agents.map(renameToolSets).forEach((agent) => {
+      const existing = group.agents.find((candidate) => candidate.name === agent.name);
+      if (existing && isSameJson(existing, agent)) {
+        return;
+      }
+      // Mesmo grupo: a versão do bundle mantém a posição do agente atual
+      if (existing && onConflict === 'overwrite') {
+        conflicts.push({ kind: 'agent', name: agent.name, groupId: group.id, resolution: 'overwritten' });
+        group.agents[group.agents.indexOf(existing)] = agent;
+        return;
+      }
+      const name = resolveAgentName(agent, 'agent', group.id);
+      if (name) group.agents.push({ ...agent, name });
+    });
+  });
+
+  (['mainSelector', 'fallbackAgent'] as const).forEach((slot) => {
+    const bundled = bundle[slot];
+    if (!bundled) return;
+    const existing = next[slot];
+    if (!existing || (!isSameJson(existing, bundled) && resolveSlot({ kind: slot, name: bundled.name }))) {
+      next[slot] = renameToolSets(bundled);
+    }
+  });
+
+  return { next, conflicts };
+}
+
+/**
+ * Importa um bundle de agentes.
+ *
+ * Com `dryRun`, retorna o diff e os conflitos sem gravar. Caso contrário, falha
+ * com 400 se houver conflitos não resolvidos (`onConflict: "fail"`) e com 422
+ * se a importação introduzir erros de lint.
+ */
+export async function importAgentsBundle(
+  bundleInput: unknown,
+  options: BundleImportOptions = {},
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<BundleImportResult> {
+  const mode = options.mode ?? 'merge';
+  const onConflict = options.onConflict ?? 'fail';
+  if (mode !== 'merge' && mode !== 'replace') {
+    throw new AgentCrudError('Campo "mode" deve ser "merge" ou "replace".');
+  }
+  if (!['fail', 'skip', 'overwrite', 'rename'].includes(onConflict)) {
+    throw new AgentCrudError('Campo "onConflict" deve ser "fail", "skip", "overwrite" ou "rename".');
+  }
+
+  const bundle = validateBundle(bundleInput);
+  const data = await loadHierarchicalAgentsFile();
+  const { next, conflicts } = applyAgentsBundle(data, bundle, mode, onConflict);
+
+  const result: BundleImportResult = {
+    dryRun: !!options.dryRun,
+    mode,
+    onConflict,
+    changes: diffJson(data, next),
+    conflicts,
+    issues: getIntroducedErrors(lintAgentsData(data), lintAgentsData(next)),
+    ignoredMcpServers: Object.entries(bundle.mcpServers || {}).map(([name, server]) => ({
+      name,
+      command: [server?.command, ...(Array.isArray(server?.args) ? server.args : [])].filter(Boolean).join(' '),
+    })),
+  };
+
+  if (result.ignoredMcpServers.length > 0) {
+    console.warn(`⚠️ Servidores MCP do bundle ignorados na importação: ${result.ignoredMcpServers.map((server) => server.name).join(', ')}`);
+  }
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  const unresolved = conflicts.filter((conflict) => conflict.resolution === 'unresolved');
+  if (unresolved.length > 0) {
+    throw new AgentCrudError(
+      `Importação com ${unresolved.length} conflito(s) de nome. Use onConflict "skip", "overwrite" ou "rename".`,
+      400,
+      { conflicts: unresolved },
+    );
+  }
+
+  await persistAgentsFile(next, author, 'importBundle');
+
+  return result;
+}
+
+/**
+ * Calcula o diff de uma revisão
+ *
+ * @param {string} revisionId - ID da revisão
+ * @param {'previous' | 'current'} compareTo - Compara com a revisão anterior (padrão) ou com o agents.json atual
+ */
+export async function getAgentsRevisionDiff(
+  revisionId: string,
+  compareTo: 'previous' | 'current' = 'previous',
+): Promise<{ revision: Omit<AgentsRevision, 'snapshot' | 'changes'>; compareTo: string; changes: JsonFieldChange[] }> {
+  const revision = getAgentsRevision(revisionId);
+  if (!revision) {
+    throw new AgentCrudError(`Revisão "${revisionId}" não encontrada.`, 404);
+  }
+
+  const { snapshot, changes, ...metadata } = revision;
+
+  if (compareTo === 'current') {
+    const current = await readAgentsJsonRaw();
+    return { revision: metadata, compareTo, changes: diffJson(snapshot, current) };
+  }
+
+  return { revision: metadata, compareTo, changes };
+}
+
+/**
+ * Restaura o agents.json para o conteúdo de uma revisão
+ *
+ * A restauração também é registrada como revisão, permitindo desfazê-la.
+ * Não aplica o bloqueio de lint, pois serve para voltar a um estado conhecido.
+ */
+export async function restoreAgentsRevision(
+  revisionId: string,
+  author: string = DEFAULT_REVISION_AUTHOR,
+): Promise<{ revision: AgentsRevision | null; lint: AgentsLintReport }> {
+  const revision = getAgentsRevision(revisionId);
+  if (!revision) {
+    throw new AgentCrudError(`Revisão "${revisionId}" não encontrada.`, 404);
+  }
+
+  const before = await readAgentsJsonRaw();
+  await saveAgentsJson(revision.snapshot as AgentsJsonFile);
+  const restoreRevision = saveAgentsRevision(before, revision.snapshot, author, 'restore', revisionId);
+  await reloadAgentsConfig();
+
+  return { revision: restoreRevision, lint: await lintAgentsFile() };
+}
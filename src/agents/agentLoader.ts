@@ -7,9 +7,13 @@
 
 import fs from 'fs/promises';
 import path from 'path';
-import { AgentConfig } from './config';
-import { tools as fileSystemTools } from '../tools/fileSystemTools';
-import { tools as terminalTools } from '../tools/terminalTools';
+import { AgentConfig, AgentResponseFormat, AgentToolChoice } from './config';
+import { getToolDefinition, listToolDefinitions, registerToolDefinition, ToolDefinition } from '../tools/toolRegistry';
+import { McpServerConfig } from '../tools/mcpClient';
+import { syncMcpServers, getMcpToolSets } from '../services/mcpService';
+import { buildDelegateToolSchema, DELEGATE_TOOL_NAME } from './delegationTool';
+import { AgentsLintReport, lintAgentsJson } from '../validation/agentsValidator';
+import { registerSemanticRule, scoreSemanticRule, SemanticIndex } from './semanticIndex';
 
 /**
  * Caminho padrão do arquivo agents.json
@@ -20,13 +24,19 @@ export const AGENTS_JSON_PATH = path.join(__dirname, 'agents.json');
  * Interface para configuração de regras shouldUse em JSON
  */
 export interface ShouldUseRule {
-  type: 'keywords' | 'regex' | 'complex' | 'default';
+  type: 'keywords' | 'regex' | 'complex' | 'default' | 'semantic';
   keywords?: string[];
   pattern?: string;
   rules?: ShouldUseRule[];
   operator?: 'AND' | 'OR';
   exclude?: ShouldUseRule;
   priorityKeywords?: string[];
+  /** Frases de exemplo comparadas com a mensagem (regra semantic) */
+  examples?: string[];
+  /** Similaridade mínima de 0 a 1 (regra semantic, padrão 0.35) */
+  threshold?: number;
+  /** Inclui a descrição do agente nos textos comparados (regra semantic, padrão true) */
+  includeDescription?: boolean;
 }
 
 /**
@@ -41,9 +51,25 @@ export interface AgentJsonConfig {
   instructions: string;
   shouldUse: ShouldUseRule;
   stackspotAgentId?: string; // ID do agente no StackSpot (opcional)
+  enabled?: boolean; // false: agente não é carregado (fora do roteamento e da chamada direta)
+  temperature?: number; // Temperatura de amostragem (0 a 2)
+  top_p?: number; // Nucleus sampling (0 a 1)
+  maxOutputTokens?: number; // Limite de tokens gerados por run
+  responseFormat?: AgentResponseFormat; // text, json_object ou JSON schema
+  toolChoice?: AgentToolChoice; // auto, none, required ou { name }
   [key: string]: any; // Permite campos extras
 }
 
+/**
+ * Afinidade de agente por thread dentro de um grupo
+ */
+export interface GroupAffinityConfig {
+  /** Mantém o último agente do grupo nas mensagens seguintes da conversa */
+  enabled: boolean;
+  /** Máximo de turnos consecutivos mantidos apenas pela afinidade (sem limite se omitido) */
+  maxTurns?: number;
+}
+
 /**
  * Interface para grupo de agentes
  */
@@ -51,6 +77,7 @@ export interface GroupConfig {
   id: string;
   name: string;
   description: string;
+  affinity?: GroupAffinityConfig;
   orchestrator?: AgentJsonConfig;
   agents: AgentJsonConfig[];
 }
@@ -63,6 +90,7 @@ export interface AgentsJsonFileHierarchical {
   groups?: GroupConfig[];
   fallbackAgent?: AgentJsonConfig;
   toolSets: Record<string, string[]>;
+  mcpServers?: Record<string, McpServerConfig>;
 }
 
 /**
@@ -71,6 +99,7 @@ export interface AgentsJsonFileHierarchical {
 export interface AgentsJsonFileLegacy {
   agents: AgentJsonConfig[];
   toolSets: Record<string, string[]>;
+  mcpServers?: Record<string, McpServerConfig>;
 }
 
 /**
@@ -79,26 +108,54 @@ export interface AgentsJsonFileLegacy {
 export type AgentsJsonFile = AgentsJsonFileHierarchical | AgentsJsonFileLegacy;
 
 /**
- * Registro de todas as tools disponíveis
- * Mapeia nomes de tools para seus objetos reais
+ * Nomes dos agentes com `enabled: false` no último carregamento do agents.json
  */
-const TOOL_REGISTRY: Record<string, any[]> = {
-  list_directory: fileSystemTools.filter(t => t.function.name === 'list_directory'),
-  read_file: fileSystemTools.filter(t => t.function.name === 'read_file'),
-  find_file: fileSystemTools.filter(t => t.function.name === 'find_file'),
-  detect_framework: fileSystemTools.filter(t => t.function.name === 'detect_framework'),
-  write_file: fileSystemTools.filter(t => t.function.name === 'write_file'),
-  execute_command: terminalTools.filter(t => t.function.name === 'execute_command'),
-  check_service_status: terminalTools.filter(t => t.function.name === 'check_service_status'),
-  start_service: terminalTools.filter(t => t.function.name === 'start_service'),
-  stop_service: terminalTools.filter(t => t.function.name === 'stop_service'),
-};
+let disabledAgentNames = new Set<string>();
+
+/**
+ * Nomes dos agentes que existem no agents.json, mas estão desativados (`enabled: false`)
+ */
+export function getDisabledAgentNames(): string[] {
+  return Array.from(disabledAgentNames);
+}
+
+/**
+ * Registra o agente como desativado e indica se ele deve ser ignorado no carregamento
+ */
+function skipDisabledAgent(agentJson: AgentJsonConfig, disabledNames: Set<string>): boolean {
+  if (agentJson.enabled !== false) {
+    return false;
+  }
+  disabledNames.add(agentJson.name);
+  console.log(`    ⏸️ Agente desativado: "${agentJson.name}"`);
+  return true;
+}
+
+/**
+ * Obtém o schema de uma tool registrada no toolRegistry
+ *
+ * @param {string} toolName - Nome da tool
+ * @returns {any[]} Array com o schema da tool (vazio se não registrada)
+ */
+function getToolSchemas(toolName: string): any[] {
+  const definition = getToolDefinition(toolName);
+  return definition ? [definition.schema] : [];
+}
 
 /**
  * Conjuntos pré-definidos de tools
  */
 const TOOL_SETS: Record<string, string[]> = {
-  fileSystem: ['list_directory', 'read_file', 'find_file', 'detect_framework', 'write_file'],
+  fileSystem: [
+    'list_directory',
+    'read_file',
+    'find_file',
+    'detect_framework',
+    'write_file',
+    'replace_in_file',
+    'insert_at_line',
+    'apply_patch',
+  ],
   terminal: ['execute_command', 'check_service_status', 'start_service', 'stop_service'],
   execute_command: ['execute_command'],
 };
@@ -112,12 +169,12 @@ const TOOL_SETS: Record<string, string[]> = {
 function resolveToolSet(toolSetName: string): any[] {
   if (TOOL_SETS[toolSetName]) {
     return TOOL_SETS[toolSetName]
-      .flatMap(toolName => TOOL_REGISTRY[toolName] || [])
+      .flatMap(toolName => getToolSchemas(toolName))
       .filter(Boolean);
   }
   
   // Se não for um conjunto, tenta como nome de tool individual
-  return TOOL_REGISTRY[toolSetName] || [];
+  return getToolSchemas(toolSetName);
 }
 
 /**
@@ -136,8 +193,8 @@ function resolveTools(toolNames: string[] | undefined | null, customToolSets?: R
   const resolvedTools: any[] = [];
   const addedTools = new Set<string>();
 
-  // Mescla conjuntos customizados com os padrões
-  const allToolSets = { ...TOOL_SETS, ...customToolSets };
+  // Mescla conjuntos customizados com os padrões e os conjuntos dos servidores MCP
+  const allToolSets = { ...TOOL_SETS, ...getMcpToolSets(), ...customToolSets };
 
   for (const toolName of toolNames) {
     // Garante que toolName seja uma string válida
@@ -150,8 +207,8 @@ function resolveTools(toolNames: string[] | undefined | null, customToolSets?: R
       const customToolSet = customToolSets[toolName];
       if (Array.isArray(customToolSet)) {
         for (const individualTool of customToolSet) {
-          if (!addedTools.has(individualTool) && TOOL_REGISTRY[individualTool]) {
-            resolvedTools.push(...TOOL_REGISTRY[individualTool]);
+          if (!addedTools.has(individualTool) && getToolDefinition(individualTool)) {
+            resolvedTools.push(...getToolSchemas(individualTool));
             addedTools.add(individualTool);
           }
         }
@@ -162,8 +219,8 @@ function resolveTools(toolNames: string[] | undefined | null, customToolSets?: R
     // Verifica se é um conjunto padrão
     if (allToolSets[toolName] && Array.isArray(allToolSets[toolName])) {
       for (const individualTool of allToolSets[toolName]) {
-        if (!addedTools.has(individualTool) && TOOL_REGISTRY[individualTool]) {
-          resolvedTools.push(...TOOL_REGISTRY[individualTool]);
+        if (!addedTools.has(individualTool) && getToolDefinition(individualTool)) {
+          resolvedTools.push(...getToolSchemas(individualTool));
           addedTools.add(individualTool);
         }
       }
@@ -171,8 +228,8 @@ function resolveTools(toolNames: string[] | undefined | null, customToolSets?: R
     }
 
     // Tenta como tool individual
-    if (TOOL_REGISTRY[toolName] && !addedTools.has(toolName)) {
-      resolvedTools.push(...TOOL_REGISTRY[toolName]);
+    if (getToolDefinition(toolName) && !addedTools.has(toolName)) {
+      resolvedTools.push(...getToolSchemas(toolName));
       addedTools.add(toolName);
     }
   }
@@ -180,13 +237,23 @@ function resolveTools(toolNames: string[] | undefined | null, customToolSets?: R
   return resolvedTools;
 }
 
+/**
+ * Contexto do agente usado pelas regras semantic
+ */
+interface ShouldUseContext {
+  semanticIndex: SemanticIndex;
+  agentName: string;
+  description: string;
+}
+
 /**
  * Cria uma função shouldUse a partir de uma regra JSON
  * 
  * @param {ShouldUseRule} rule - Regra em formato JSON
+ * @param {ShouldUseContext} context - Índice semântico e dados do agente (regras semantic)
  * @returns {(message: string) => boolean} Função shouldUse
  */
-function createShouldUseFunction(rule: ShouldUseRule): (message: string) => boolean {
+function createShouldUseFunction(rule: ShouldUseRule, context: ShouldUseContext): (message: string) => boolean {
   switch (rule.type) {
     case 'keywords':
       return (message: string) => {
@@ -219,7 +286,7 @@ function createShouldUseFunction(rule: ShouldUseRule): (message: string) => bool
         return () => false;
       }
 
-      const ruleFunctions = rule.rules.map(createShouldUseFunction);
+      const ruleFunctions = rule.rules.map(subRule => createShouldUseFunction(subRule, context));
       const operator = rule.operator || 'OR';
 
       return (message: string) => {
@@ -232,7 +299,7 @@ function createShouldUseFunction(rule: ShouldUseRule): (message: string) => bool
 
     case 'default':
       if (rule.exclude) {
-        const excludeFn = createShouldUseFunction(rule.exclude);
+        const excludeFn = createShouldUseFunction(rule.exclude, context);
         return (message: string) => {
           // Retorna true por padrão, a menos que a regra de exclusão seja verdadeira
           return !excludeFn(message);
@@ -241,21 +308,109 @@ function createShouldUseFunction(rule: ShouldUseRule): (message: string) => bool
       // Sem exclusão, sempre retorna true (agente padrão)
       return () => true;
 
+    case 'semantic':
+      // Os textos entram no índice da carga atual; o IDF é calculado na primeira consulta
+      registerSemanticRule(context.semanticIndex, rule, context.agentName, context.description);
+      return (message: string) => scoreSemanticRule(rule, message).matched;
+
     default:
       return () => false;
   }
 }
 
+/**
+ * Resultado da avaliação de uma regra shouldUse (usado para explicar o roteamento)
+ */
+export interface ShouldUseEvaluation {
+  type: ShouldUseRule['type'] | 'exclude';
+  matched: boolean;
+  /** Keywords encontradas na mensagem (regra keywords) */
+  matchedKeywords?: string[];
+  /** Pattern testado (regra regex) */
+  pattern?: string;
+  /** Operador aplicado às sub-regras (regra complex) */
+  operator?: 'AND' | 'OR';
+  /** Avaliação das sub-regras (complex) ou da regra de exclusão (default) */
+  rules?: ShouldUseEvaluation[];
+  /** Similaridade com os exemplos e o threshold aplicado (regra semantic) */
+  score?: number;
+  threshold?: number;
+  /** Texto mais parecido com a mensagem (regra semantic) */
+  bestMatch?: string;
+  error?: string;
+}
+
+/**
+ * Avalia uma regra shouldUse detalhando o resultado de cada sub-regra
+ *
+ * Segue a mesma lógica de createShouldUseFunction, mas sem curto-circuito,
+ * para mostrar todas as regras que corresponderam ou falharam.
+ *
+ * @param {ShouldUseRule} rule - Regra em formato JSON
+ * @param {string} message - Mensagem do usuário
+ * @returns {ShouldUseEvaluation} Árvore de avaliação da regra
+ */
+export function evaluateShouldUseRule(rule: ShouldUseRule | undefined, message: string): ShouldUseEvaluation {
+  if (!rule) {
+    return { type: 'default', matched: false, error: 'Regra shouldUse ausente' };
+  }
+
+  switch (rule.type) {
+    case 'keywords': {
+      const lowerMessage = message.toLowerCase();
+      const matchedKeywords = (rule.keywords || []).filter(keyword => lowerMessage.includes(keyword.toLowerCase()));
+      return { type: 'keywords', matched: matchedKeywords.length > 0, matchedKeywords };
+    }
+
+    case 'regex': {
+      if (!rule.pattern) {
+        return { type: 'regex', matched: false, error: 'Pattern ausente' };
+      }
+      try {
+        return { type: 'regex', matched: new RegExp(rule.pattern, 'i').test(message), pattern: rule.pattern };
+      } catch (error: any) {
+        return { type: 'regex', matched: false, pattern: rule.pattern, error: `Regex inválida: ${error.message}` };
+      }
+    }
+
+    case 'complex': {
+      const operator = rule.operator || 'OR';
+      const rules = (rule.rules || []).map(subRule => evaluateShouldUseRule(subRule, message));
+      const matched = rules.length > 0 && (operator === 'AND' ? rules.every(r => r.matched) : rules.some(r => r.matched));
+      return { type: 'complex', matched, operator, rules };
+    }
+
+    case 'default': {
+      if (!rule.exclude) {
+        return { type: 'default', matched: true };
+      }
+      const excludeRule = evaluateShouldUseRule(rule.exclude, message);
+      const exclude: ShouldUseEvaluation = { type: 'exclude', matched: excludeRule.matched, rules: [excludeRule] };
+      return { type: 'default', matched: !exclude.matched, rules: [exclude] };
+    }
+
+    case 'semantic': {
+      const { score, threshold, matched, bestMatch } = scoreSemanticRule(rule, message);
+      return { type: 'semantic', matched, score, threshold, bestMatch };
+    }
+
+    default:
+      return { type: rule.type, matched: false, error: `Tipo de regra desconhecido: ${rule.type}` };
+  }
+}
+
 /**
  * Converte uma configuração JSON de agente em AgentConfig
  * 
  * @param {AgentJsonConfig} agentJson - Configuração JSON do agente
  * @param {Record<string, string[]>} toolSets - Conjuntos de tools disponíveis
+ * @param {SemanticIndex} semanticIndex - Índice das regras semantic da carga atual
  * @returns {AgentConfig} Configuração do agente
  */
 function convertAgentJsonToConfig(
   agentJson: AgentJsonConfig,
-  toolSets: Record<string, string[]>
+  toolSets: Record<string, string[]>,
+  semanticIndex: SemanticIndex
 ): AgentConfig {
   // Garante que tools seja um array válido
   const toolsArray = Array.isArray(agentJson.tools) ? agentJson.tools : (agentJson.tools ? [agentJson.tools] : []);
@@ -264,7 +419,11 @@ function convertAgentJsonToConfig(
   const tools = resolveTools(toolsArray, toolSets);
 
   // Cria a função shouldUse
-  const shouldUse = createShouldUseFunction(agentJson.shouldUse);
+  const shouldUse = createShouldUseFunction(agentJson.shouldUse, {
+    semanticIndex,
+    agentName: agentJson.name,
+    description: agentJson.description,
+  });
 
   // Cria o AgentConfig
   const agentConfig: AgentConfig = {
@@ -278,6 +437,12 @@ function convertAgentJsonToConfig(
 
   // Adiciona prioridade como propriedade customizada
   (agentConfig as any).priority = agentJson.priority;
+
+  // Tipo da regra shouldUse (usado pelo roteador para distinguir correspondências explícitas de regras default)
+  (agentConfig as any).shouldUseType = agentJson.shouldUse?.type;
+
+  // Regra original, usada para explicar o roteamento (route-preview)
+  (agentConfig as any).shouldUseRule = agentJson.shouldUse;
   
   // Preserva campos extras do JSON (como stackspotAgentId)
   // Copia todas as propriedades que não são campos padrão do AgentConfig
@@ -291,6 +456,56 @@ function convertAgentJsonToConfig(
   return agentConfig;
 }
 
+/**
+ * Executa o lint do conteúdo do agents.json com as tools e conjuntos registrados
+ *
+ * @param {unknown} data - Conteúdo do agents.json (já parseado)
+ * @returns {AgentsLintReport} Relatório com erros e avisos
+ */
+export function lintAgentsData(data: unknown): AgentsLintReport {
+  return lintAgentsJson(data, {
+    knownTools: listToolDefinitions().map(definition => definition.name),
+    knownToolSets: [...Object.keys(TOOL_SETS), ...Object.keys(getMcpToolSets())],
+    availableMcpServers: Object.keys(getMcpToolSets()),
+  });
+}
+
+/**
+ * Executa o lint do arquivo agents.json
+ *
+ * @param {string} jsonPath - Caminho para o arquivo JSON (opcional, padrão: agents.json)
+ * @returns {Promise<AgentsLintReport>} Relatório com erros e avisos (inclui erro de parse)
+ */
+export async function lintAgentsFile(jsonPath: string = AGENTS_JSON_PATH): Promise<AgentsLintReport> {
+  const fileContent = await fs.readFile(jsonPath, 'utf-8');
+
+  try {
+    return lintAgentsData(JSON.parse(fileContent));
+  } catch (error: any) {
+    return {
+      valid: false,
+      errors: 1,
+      warnings: 0,
+      issues: [{ severity: 'error', code: 'invalid_json', path: '', message: `JSON inválido: ${error.message}` }],
+    };
+  }
+}
+
+/**
+ * Exibe no console os problemas encontrados pelo lint
+ */
+function logLintReport(report: AgentsLintReport): void {
+  if (report.issues.length === 0) {
+    return;
+  }
+
+  console.warn(`⚠️ agents.json: ${report.errors} erro(s) e ${report.warnings} aviso(s) encontrados`);
+  for (const issue of report.issues) {
+    const prefix = issue.severity === 'error' ? '❌' : '⚠️';
+    console.warn(`  ${prefix} [${issue.code}] ${issue.path || '(raiz)'}: ${issue.message}`);
+  }
+}
+
 /**
  * Verifica se o JSON usa a estrutura hierárquica (nova) ou legacy (antiga)
  * 
@@ -316,14 +531,22 @@ export async function loadAgentsFromJson(jsonPath?: string): Promise<AgentConfig
 
     const allAgents: AgentConfig[] = [];
     const toolSets = jsonData.toolSets || {};
+    const disabledNames = new Set<string>();
+    const semanticIndex = new SemanticIndex();
+
+    // Inicia os servidores MCP antes de resolver as tools dos agentes
+    await syncMcpServers(jsonData.mcpServers);
+
+    // Registra os problemas do arquivo (tools desconhecidas, regex inválidas, nomes duplicados...)
+    logLintReport(lintAgentsData(jsonData));
 
     // Estrutura hierárquica (nova)
     if (isHierarchicalStructure(jsonData)) {
       console.log('📋 Estrutura hierárquica detectada - Carregando grupos...');
 
       // 1. Adiciona Main Selector (se existir)
-      if (jsonData.mainSelector) {
-        const mainSelectorConfig = convertAgentJsonToConfig(jsonData.mainSelector, toolSets);
+      if (jsonData.mainSelector && !skipDisabledAgent(jsonData.mainSelector, disabledNames)) {
+        const mainSelectorConfig = convertAgentJsonToConfig(jsonData.mainSelector, toolSets, semanticIndex);
         (mainSelectorConfig as any).role = 'mainSelector';
         (mainSelectorConfig as any).groupId = null;
         allAgents.push(mainSelectorConfig);
@@ -336,11 +559,14 @@ export async function loadAgentsFromJson(jsonPath?: string): Promise<AgentConfig
           console.log(`  📦 Grupo: "${group.name}" (ID: ${group.id})`);
 
           // Adiciona orquestrador do grupo (se existir)
-          if (group.orchestrator) {
-            const orchestratorConfig = convertAgentJsonToConfig(group.orchestrator, toolSets);
+          let orchestratorConfig: AgentConfig | null = null;
+          if (group.orchestrator && !skipDisabledAgent(group.orchestrator, disabledNames)) {
+            orchestratorConfig = convertAgentJsonToConfig(group.orchestrator, toolSets, semanticIndex);
             (orchestratorConfig as any).role = 'orchestrator';
             (orchestratorConfig as any).groupId = group.id;
             (orchestratorConfig as any).groupName = group.name;
+            (orchestratorConfig as any).groupDescription = group.description;
+            (orchestratorConfig as any).groupAffinity = group.affinity;
             allAgents.push(orchestratorConfig);
             console.log(`    🎯 Orquestrador: "${group.orchestrator.name}"`);
           } else {
@@ -349,19 +575,37 @@ export async function loadAgentsFromJson(jsonPath?: string): Promise<AgentConfig
 
           // Adiciona agentes do grupo
           for (const agent of group.agents) {
-            const agentConfig = convertAgentJsonToConfig(agent, toolSets);
+            if (skipDisabledAgent(agent, disabledNames)) {
+              continue;
+            }
+            const agentConfig = convertAgentJsonToConfig(agent, toolSets, semanticIndex);
             (agentConfig as any).role = 'agent';
             (agentConfig as any).groupId = group.id;
             (agentConfig as any).groupName = group.name;
+            (agentConfig as any).groupDescription = group.description;
+            (agentConfig as any).groupAffinity = group.affinity;
             allAgents.push(agentConfig);
             console.log(`    🤖 Agente: "${agent.name}"`);
           }
+
+          // Injeta a tool de delegação no orquestrador com os agentes do grupo
+          if (orchestratorConfig) {
+            const memberNames = group.agents
+              .filter(agent => agent.enabled !== false && (agent as any).routable !== false)
+              .map(agent => agent.name);
+            if (memberNames.length > 0) {
+              orchestratorConfig.tools = [
+                ...(orchestratorConfig.tools || []).filter(tool => tool?.function?.name !== DELEGATE_TOOL_NAME),
+                buildDelegateToolSchema(memberNames),
+              ];
+            }
+          }
         }
       }
 
       // 3. Adiciona Fallback Agent (se existir)
-      if (jsonData.fallbackAgent) {
-        const fallbackConfig = convertAgentJsonToConfig(jsonData.fallbackAgent, toolSets);
+      if (jsonData.fallbackAgent && !skipDisabledAgent(jsonData.fallbackAgent, disabledNames)) {
+        const fallbackConfig = convertAgentJsonToConfig(jsonData.fallbackAgent, toolSets, semanticIndex);
         (fallbackConfig as any).role = 'fallback';
         (fallbackConfig as any).groupId = null;
         allAgents.push(fallbackConfig);
@@ -373,7 +617,10 @@ export async function loadAgentsFromJson(jsonPath?: string): Promise<AgentConfig
       console.log('📋 Estrutura legacy detectada - Carregando agentes...');
       
       for (const agentJson of jsonData.agents) {
-        const agentConfig = convertAgentJsonToConfig(agentJson, toolSets);
+        if (skipDisabledAgent(agentJson, disabledNames)) {
+          continue;
+        }
+        const agentConfig = convertAgentJsonToConfig(agentJson, toolSets, semanticIndex);
         (agentConfig as any).role = 'agent';
         (agentConfig as any).groupId = null;
         allAgents.push(agentConfig);
@@ -389,6 +636,7 @@ export async function loadAgentsFromJson(jsonPath?: string): Promise<AgentConfig
       return priorityA - priorityB;
     });
 
+    disabledAgentNames = disabledNames;
     console.log(`✅ ${allAgents.length} agente(s) carregado(s) do arquivo JSON`);
     return allAgents;
   } catch (error: any) {
@@ -480,14 +728,10 @@ export function getGroupOrchestrator(agents: AgentConfig[], groupId: string): Ag
 /**
  * Registra uma nova tool no sistema
  * 
- * @param {string} toolName - Nome da tool
- * @param {any} toolObject - Objeto da tool (formato OpenAI)
+ * @param {ToolDefinition} definition - Definição da tool (schema, executor e permissões)
  */
-export function registerTool(toolName: string, toolObject: any): void {
-  if (!TOOL_REGISTRY[toolName]) {
-    TOOL_REGISTRY[toolName] = [];
-  }
-  TOOL_REGISTRY[toolName].push(toolObject);
+export function registerTool(definition: ToolDefinition): void {
+  registerToolDefinition(definition);
 }
 
 /**
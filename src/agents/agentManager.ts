@@ -8,9 +8,11 @@
  */
 
 import { Socket } from 'socket.io';
-import { AgentConfig, selectAgent } from './config';
-import { fileSystemFunctions } from '../tools/fileSystemTools';
-import { executeCommand, checkServiceStatus, startService, stopService, killProcessOnPort } from '../tools/terminalTools';
+import { AgentConfig } from './config';
+import { AgentSelection, applyThreadAffinity, routeMessage } from './agentRouter';
+import { getToolDefinition, ToolExecutionContext } from '../tools/toolRegistry';
+import { getToolApprovalRequirement, isToolApprovalEnabled, requestToolApproval } from '../services/toolApprovalService';
+import { formatActionMessage } from '../utils/functionDescriptions';
 import { LLMAdapter } from '../llm/adapters/LLMAdapter';
 
 /**
@@ -57,91 +59,116 @@ export class AgentManager {
     return agentId;
   }
 
+  /**
+   * Invalida o cache de agentes (próprio e do adaptador)
+   * 
+   * @param {string[]} agentNames - Nomes dos agentes a invalidar (todos, se omitido)
+   */
+  invalidateAgents(agentNames?: string[]): void {
+    if (agentNames) {
+      agentNames.forEach(name => this.agentCache.delete(name));
+    } else {
+      this.agentCache.clear();
+    }
+    this.llmAdapter.invalidateAgents?.(agentNames);
+  }
+
   /**
    * Seleciona e obtém o agente apropriado para uma mensagem
    * 
    * Analisa a mensagem do usuário e seleciona o agente mais apropriado
-   * baseado nas regras de seleção definidas em cada configuração de agente.
+   * usando o roteador (regras shouldUse ou Main Selector, conforme o modo configurado).
+   * Com threadId, aplica a afinidade de agente da thread (grupos com `affinity.enabled`).
+   * Com forcedAgent (menção `@Agente` ou campo `agentName`), o roteamento é ignorado.
    * 
    * @param {string} message - Mensagem do usuário
-   * @returns {Promise<{agentId: string, config: AgentConfig}>} ID do agente e sua configuração
+   * @param {string} threadId - Thread da conversa (opcional)
+   * @param {{config: AgentConfig, reason: string}} forcedAgent - Agente escolhido explicitamente pelo usuário (opcional)
+   * @returns {Promise<{agentId: string, config: AgentConfig, selection: AgentSelection}>} ID do agente, sua configuração e o motivo da escolha
    */
-  async getAgentForMessage(message: string): Promise<{ agentId: string; config: AgentConfig }> {
-    const config = await selectAgent(message);
+  async getAgentForMessage(
+    message: string,
+    threadId?: string,
+    forcedAgent?: { config: AgentConfig; reason: string }
+  ): Promise<{ agentId: string; config: AgentConfig; selection: AgentSelection }> {
+    const routedSelection: AgentSelection = forcedAgent
+      ? {
+          config: forcedAgent.config,
+          method: 'explicit',
+          reason: forcedAgent.reason,
+          confidence: 1,
+          groupId: (forcedAgent.config as any).groupId ?? null,
+        }
+      : await routeMessage(message, this.llmAdapter);
+    const selection = threadId ? applyThreadAffinity(routedSelection, threadId, message) : routedSelection;
+    const { config } = selection;
     const agentId = await this.getOrCreateAgent(config);
     
-    console.log(`🤖 Usando agente: "${config.name}" - ${config.description}`);
+    console.log(`🤖 Usando agente: "${config.name}" - ${config.description} (${selection.method}: ${selection.reason})`);
     
-    return { agentId, config };
+    return { agentId, config, selection };
   }
 }
 
+/**
+ * Opções de execução de uma tool
+ */
+export interface ToolExecutionOptions {
+  /** Sinal de cancelamento do run que disparou a tool */
+  signal?: AbortSignal;
+}
+
 /**
  * Executa uma tool/função baseado no nome
  * 
  * Esta função é um dispatcher central que roteia chamadas de tools
- * para as funções apropriadas. Suporta tanto ferramentas de sistema
- * de arquivos quanto ferramentas de terminal.
+ * para os executores registrados no toolRegistry (tools nativas de
+ * sistema de arquivos e terminal, além de tools externas carregadas
+ * na inicialização). Tools sensíveis aguardam a aprovação do usuário
+ * antes de executar (ver toolApprovalService).
  * 
  * @param {string} functionName - Nome da função/tool a ser executada
  * @param {any} args - Argumentos da função
  * @param {Socket} [socket] - Socket.IO opcional para streaming em tempo real (usado para comandos de terminal)
+ * @param {ToolExecutionOptions} [options] - Opções de execução (ex: sinal de cancelamento)
  * @returns {Promise<string>} Resultado da execução da função
  */
 export async function executeTool(
   functionName: string, 
   args: any, 
-  socket?: Socket
+  socket?: Socket,
+  options: ToolExecutionOptions = {}
 ): Promise<string> {
-  switch (functionName) {
-    // ========================================================================
-    // FERRAMENTAS DE SISTEMA DE ARQUIVOS
-    // ========================================================================
-    
-    case 'list_directory':
-      return await fileSystemFunctions.listDirectory(args.dirPath);
-    
-    case 'read_file':
-      return await fileSystemFunctions.readFile(args.filePath);
-    
-    case 'find_file':
-      return await fileSystemFunctions.findFile(args.fileName, args.startDir || '.');
-    
-    case 'detect_framework':
-      return await fileSystemFunctions.detectFramework(args.projectPath);
-    
-    case 'write_file':
-      return await fileSystemFunctions.writeFile(
-        args.filePath, 
-        args.content, 
-        args.createDirectories !== false
-      );
-    
-    // ========================================================================
-    // FERRAMENTAS DE TERMINAL
-    // ========================================================================
-    
-    case 'execute_command':
-      // Passa o socket para permitir streaming em tempo real
-      return await executeCommand(args.command, args.workingDirectory, socket);
-    
-    case 'check_service_status':
-      return await checkServiceStatus(args.serviceName);
-    
-    case 'start_service':
-      return await startService(args.serviceName);
-    
-    case 'stop_service':
-      return await stopService(args.serviceName);
-    
-    case 'kill_process_on_port':
-      return await killProcessOnPort(args.port);
-    
-    // ========================================================================
-    // FERRAMENTA DESCONHECIDA
-    // ========================================================================
-    
-    default:
-      return `Função desconhecida: ${functionName}`;
+  const definition = getToolDefinition(functionName);
+  if (!definition) {
+    return `Função desconhecida: ${functionName}`;
+  }
+
+  const context: ToolExecutionContext = { socket, signal: options.signal };
+
+  // Tools sensíveis aguardam a aprovação do usuário; a negação volta ao modelo como output
+  const requirement = getToolApprovalRequirement(definition, args, context);
+  if (requirement !== 'none') {
+    const approval = await requestToolApproval(functionName, args, socket, {
+      signal: options.signal,
+      details: formatActionMessage(functionName, args),
+      requirement,
+      scopeKey: definition.approvalScope?.(args),
+    });
+    if (!approval.approved) {
+      return `Erro: a execução de "${functionName}" não foi aprovada (${approval.reason}). ` +
+        'Não repita a chamada sem confirmar com o usuário.';
+    }
+    context.approved = true;
+  } else if (!isToolApprovalEnabled()) {
+    // Sem aprovações, as chamadas que a tool marcaria como 'ask' são liberadas (o terminal registra o aviso)
+    context.approved = true;
+  }
+
+  try {
+    return await definition.execute(args, context);
+  } catch (error: any) {
+    // Erros de tools (principalmente externas) voltam como output para o modelo
+    return `Erro: ${error?.message || error}`;
   }
 }
@@ -0,0 +1,422 @@
+/**
+ * Roteador de Agentes
+ *
+ * Decide qual agente processa cada mensagem. No modo padrão (`rules`) usa as
+ * regras shouldUse de cada agente. No modo `llm`, configurado em
+ * `mainSelector.routing` no agents.json, o Main Selector recebe o catálogo de
+ * grupos e agentes e devolve uma escolha estruturada; as regras shouldUse
+ * funcionam como caminho rápido (correspondência explícita) e como fallback.
+ */
+
+import { AgentConfig, getAgentsConfig, loadAgentsConfig, selectAgentSync } from './config';
+import { getMainSelector, GroupAffinityConfig } from './agentLoader';
+import { getThreadAffinity, setThreadAffinity } from '../services/threadService';
+import { discardThread, LLMAdapter, TokenUsage } from '../llm/adapters/LLMAdapter';
+import { parseJsonObjectFromResponse } from '../utils/jsonResponse';
+
+/**
+ * Confiança mínima padrão para aceitar a escolha do Main Selector
+ */
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+/**
+ * Configuração de roteamento do Main Selector (`mainSelector.routing` no agents.json)
+ */
+export interface MainSelectorRouting {
+  mode: 'rules' | 'llm';
+  /** Confiança mínima (0 a 1) para aceitar a escolha do modelo */
+  minConfidence?: number;
+}
+
+/**
+ * Resultado da seleção de agente
+ */
+export interface AgentSelection {
+  config: AgentConfig;
+  /** Como o agente foi escolhido: regras shouldUse, Main Selector (LLM), fallback, afinidade da thread ou escolha explícita do usuário */
+  method: 'rules' | 'llm' | 'fallback' | 'affinity' | 'explicit';
+  reason: string;
+  confidence?: number;
+  groupId?: string | null;
+  /** Tokens consumidos pelo Main Selector para rotear */
+  tokenUsage?: TokenUsage;
+  /** Em relação ao turno anterior da thread: agente mantido ou trocado (null na primeira mensagem) */
+  affinity?: 'kept' | 'switched' | null;
+  /** Agente do turno anterior da thread */
+  previousAgent?: string | null;
+}
+
+/**
+ * Menção explícita a um agente no início da mensagem (`@Nome do Agente ...`)
+ */
+export interface AgentMention {
+  /** Nome do agente mencionado (nome exato quando corresponde a um agente conhecido) */
+  agentName: string;
+  /** Mensagem sem a menção */
+  message: string;
+}
+
+/**
+ * Escolha retornada pelo Main Selector
+ */
+interface RouterChoice {
+  group?: string;
+  agent?: string;
+  confidence: number;
+  reason: string;
+}
+
+/**
+ * Indica se o agente pode ser escolhido pelo roteador
+ *
+ * O Main Selector e agentes marcados com `routable: false` (ex: Action Intent Detector) ficam de fora.
+ */
+function isRoutable(agent: AgentConfig): boolean {
+  const agentAny = agent as any;
+  return agentAny.role !== 'mainSelector' && agentAny.routable !== false;
+}
+
+/**
+ * Monta o catálogo de grupos e agentes enviado ao Main Selector
+ */
+function buildCatalogue(agents: AgentConfig[]): Record<string, any> {
+  const groups = new Map<string, { id: string; name: string; description?: string; agents: any[] }>();
+  const standaloneAgents: any[] = [];
+
+  for (const agent of agents.filter(isRoutable)) {
+    const agentAny = agent as any;
+    const entry = {
+      name: agent.name,
+      description: agent.description,
+      role: agentAny.role || 'agent',
+    };
+
+    if (!agentAny.groupId) {
+      standaloneAgents.push(entry);
+      continue;
+    }
+
+    if (!groups.has(agentAny.groupId)) {
+      groups.set(agentAny.groupId, {
+        id: agentAny.groupId,
+        name: agentAny.groupName || agentAny.groupId,
+        description: agentAny.groupDescription,
+        agents: [],
+      });
+    }
+    groups.get(agentAny.groupId)!.agents.push(entry);
+  }
+
+  return { groups: Array.from(groups.values()), agents: standaloneAgents };
+}
+
+/**
+ * Faz o parse da escolha do Main Selector
+ */
+function parseRouterChoice(rawResponse: string): RouterChoice | null {
+  const parsed = parseJsonObjectFromResponse(rawResponse);
+  if (!parsed || (typeof parsed.agent !== 'string' && typeof parsed.group !== 'string')) {
+    return null;
+  }
+
+  return {
+    group: typeof parsed.group === 'string' ? parsed.group.trim() : undefined,
+    agent: typeof parsed.agent === 'string' ? parsed.agent.trim() : undefined,
+    confidence: typeof parsed.confidence === 'number' ? parsed.confidence : 0,
+    reason: typeof parsed.reason === 'string' ? parsed.reason : '',
+  };
+}
+
+/**
+ * Resolve a escolha do Main Selector para um agente carregado
+ *
+ * Quando apenas o grupo é informado, usa o orquestrador do grupo (ou seu primeiro agente).
+ */
+function resolveChoice(choice: RouterChoice, agents: AgentConfig[]): AgentConfig | null {
+  const routableAgents = agents.filter(isRoutable);
+
+  if (choice.agent) {
+    const byName = routableAgents.find(
+      (agent) => agent.name.toLowerCase() === choice.agent!.toLowerCase()
+    );
+    if (byName) {
+      return byName;
+    }
+  }
+
+  if (choice.group) {
+    const groupKey = choice.group.toLowerCase();
+    const groupAgents = routableAgents.filter((agent) => {
+      const agentAny = agent as any;
+      return agentAny.groupId?.toLowerCase() === groupKey || agentAny.groupName?.toLowerCase() === groupKey;
+    });
+    return groupAgents.find((agent) => (agent as any).role === 'orchestrator') || groupAgents[0] || null;
+  }
+
+  return null;
+}
+
+/**
+ * Pede ao Main Selector que escolha o agente para a mensagem
+ */
+async function askMainSelector(
+  message: string,
+  mainSelector: AgentConfig,
+  agents: AgentConfig[],
+  llmAdapter: LLMAdapter
+): Promise<{ choice: RouterChoice | null; rawResponse: string; tokenUsage: TokenUsage }> {
+  const agentId = await llmAdapter.getOrCreateAgent(mainSelector);
+  const thread = await llmAdapter.createThread({ purpose: 'agent_routing' });
+
+  const routerPrompt = [
+    'Escolha o grupo e o agente mais adequados para a mensagem do usuário usando o catálogo abaixo.',
+    'Responda apenas com JSON no formato: {"group": "<id do grupo ou null>", "agent": "<nome exato do agente>", "confidence": <0 a 1>, "reason": "<motivo curto>"}',
+    `Catálogo:\n${JSON.stringify(buildCatalogue(agents), null, 2)}`,
+    `Mensagem do usuário:\n${message}`,
+  ].join('\n\n');
+
+  try {
+    await llmAdapter.addMessage(thread.id, 'user', routerPrompt);
+    const run = await llmAdapter.createRun(thread.id, agentId);
+    const { message: rawResponse, tokenUsage } = await llmAdapter.waitForRunCompletion(thread.id, run.id);
+
+    return { choice: parseRouterChoice(rawResponse), rawResponse, tokenUsage };
+  } finally {
+    // A thread do roteamento é criada a cada mensagem e não é reutilizada
+    await discardThread(llmAdapter, thread.id);
+  }
+}
+
+/**
+ * Seleciona o agente para uma mensagem conforme o modo de roteamento configurado
+ *
+ * @param {string} message - Mensagem do usuário
+ * @param {LLMAdapter} llmAdapter - Adaptador usado pelo Main Selector no modo `llm`
+ * @returns {Promise<AgentSelection>} Agente escolhido com método e motivo da decisão
+ */
+export async function routeMessage(message: string, llmAdapter: LLMAdapter): Promise<AgentSelection> {
+  const agents = await loadAgentsConfig();
+  const ruleChoice = selectAgentSync(message);
+  const ruleChoiceAny = ruleChoice as any;
+
+  const mainSelector = getMainSelector(agents);
+  const routing: MainSelectorRouting | undefined = (mainSelector as any)?.routing;
+
+  if (!mainSelector || routing?.mode !== 'llm') {
+    return {
+      config: ruleChoice,
+      method: 'rules',
+      reason: `Regras shouldUse (${ruleChoiceAny.shouldUseType || 'default'})`,
+      groupId: ruleChoiceAny.groupId ?? null,
+    };
+  }
+
+  // Caminho rápido: correspondência explícita de regra (keywords/regex/complex) dispensa o LLM
+  if (ruleChoiceAny.shouldUseType !== 'default' && isRoutable(ruleChoice) && ruleChoice.shouldUse(message)) {
+    return {
+      config: ruleChoice,
+      method: 'rules',
+      reason: `Caminho rápido: regra ${ruleChoiceAny.shouldUseType} de "${ruleChoice.name}" correspondeu`,
+      groupId: ruleChoiceAny.groupId ?? null,
+    };
+  }
+
+  const minConfidence = routing.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  let fallbackReason: string;
+  let tokenUsage: TokenUsage | undefined;
+
+  try {
+    const result = await askMainSelector(message, mainSelector, agents, llmAdapter);
+    tokenUsage = result.tokenUsage;
+    const chosenAgent = result.choice ? resolveChoice(result.choice, agents) : null;
+
+    if (!result.choice) {
+      fallbackReason = 'Resposta do Main Selector não é um JSON válido';
+      console.warn('⚠️ Resposta inválida do Main Selector:', result.rawResponse);
+    } else if (!chosenAgent) {
+      fallbackReason = `Main Selector escolheu agente/grupo desconhecido (${result.choice.agent || result.choice.group})`;
+    } else if (result.choice.confidence < minConfidence) {
+      fallbackReason = `Confiança do Main Selector abaixo do mínimo (${result.choice.confidence} < ${minConfidence}) para "${chosenAgent.name}"`;
+    } else {
+      return {
+        config: chosenAgent,
+        method: 'llm',
+        reason: result.choice.reason || 'Escolhido pelo Main Selector',
+        confidence: result.choice.confidence,
+        groupId: (chosenAgent as any).groupId ?? null,
+        tokenUsage,
+      };
+    }
+  } catch (error: any) {
+    fallbackReason = `Erro ao consultar o Main Selector: ${error?.message || error}`;
+    console.warn(`⚠️ ${fallbackReason}`);
+  }
+
+  // Fallback: seleção pelas regras shouldUse (ignorando o Main Selector como agente de resposta)
+  const fallbackAgent = isRoutable(ruleChoice)
+    ? ruleChoice
+    : agents.find((agent) => (agent as any).role === 'fallback') || ruleChoice;
+
+  return {
+    config: fallbackAgent,
+    method: 'fallback',
+    reason: `${fallbackReason}; usando regras shouldUse`,
+    groupId: (fallbackAgent as any).groupId ?? null,
+    tokenUsage,
+  };
+}
+
+/**
+ * Normaliza um nome para comparação aproximada (minúsculas, sem espaços, hífens e sublinhados)
+ */
+function normalizeMentionName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Distância de edição (Levenshtein) entre dois textos
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Indica se uma palavra após o `@` pode ser um nome de agente digitado errado ou incompleto
+ *
+ * Pacotes e caminhos (`@types/node`, `@angular/core`) nunca são menções. Os
+ * demais precisam ser o início de um nome conhecido (ex: `@Code`) ou ficar a
+ * poucas letras de distância dele (ex: `@CodeAnalyser`).
+ */
+function isLikelyAgentName(word: string, agentNames: string[]): boolean {
+  if (word.includes('/')) {
+    return false;
+  }
+  const normalizedWord = normalizeMentionName(word);
+  if (normalizedWord.length < 3) {
+    return false;
+  }
+  return agentNames.some((name) => {
+    const normalizedName = normalizeMentionName(name);
+    const maxDistance = Math.max(1, Math.floor(normalizedName.length / 4));
+    return normalizedName.startsWith(normalizedWord) || editDistance(normalizedWord, normalizedName) <= maxDistance;
+  });
+}
+
+/**
+ * Extrai a menção `@Nome do Agente` do início da mensagem
+ *
+ * Nomes com espaços são reconhecidos comparando com os agentes conhecidos (sem
+ * diferenciar maiúsculas/minúsculas; o nome mais longo vence). Se nenhum nome
+ * corresponder, a primeira palavra após o `@` só é retornada como nome
+ * mencionado quando se parece com um agente conhecido; caso contrário a
+ * mensagem segue o roteamento normal (ex: "@types/node não instala").
+ *
+ * @param {string} message - Mensagem do usuário
+ * @param {string[]} agentNames - Nomes dos agentes conhecidos
+ * @returns {AgentMention | null} Menção encontrada ou null se a mensagem não mencionar um agente
+ */
+export function parseAgentMention(message: string, agentNames: string[]): AgentMention | null {
+  const trimmed = message.trimStart();
+  if (!trimmed.startsWith('@')) {
+    return null;
+  }
+
+  const afterMention = trimmed.slice(1);
+  const lowerAfterMention = afterMention.toLowerCase();
+  const knownName = [...agentNames]
+    .sort((a, b) => b.length - a.length)
+    .find(name =>
+      lowerAfterMention.startsWith(name.toLowerCase()) &&
+      /^(?:$|[\s,:;.!?])/.test(afterMention.slice(name.length))
+    );
+
+  const firstWord = afterMention.match(/^[^\s,:;!?]+/)?.[0];
+  const agentName = knownName ?? (firstWord && isLikelyAgentName(firstWord, agentNames) ? firstWord : undefined);
+  if (!agentName) {
+    return null;
+  }
+
+  return {
+    agentName,
+    message: afterMention.slice(agentName.length).replace(/^[\s,:;.!?]+/, '').trim(),
+  };
+}
+
+/**
+ * Indica se a seleção veio de uma correspondência explícita (e não de regra default/fallback)
+ */
+function isExplicitMatch(selection: AgentSelection, message: string): boolean {
+  if (selection.method === 'llm') {
+    return true;
+  }
+  return (
+    selection.method === 'rules' &&
+    (selection.config as any).shouldUseType !== 'default' &&
+    selection.config.shouldUse(message)
+  );
+}
+
+/**
+ * Aplica a afinidade de agente da thread à seleção
+ *
+ * Se o grupo do agente anterior tiver `affinity.enabled`, o agente é mantido nas
+ * mensagens seguintes (ex: "agora corrija") até que outro agente corresponda
+ * explicitamente com prioridade maior ou que `affinity.maxTurns` seja atingido.
+ *
+ * @param {AgentSelection} selection - Seleção feita pelo roteador
+ * @param {string} threadId - Thread da conversa
+ * @param {string} message - Mensagem do usuário
+ * @returns {AgentSelection} Seleção final, com `affinity` indicando se o agente foi mantido ou trocado
+ */
+export function applyThreadAffinity(selection: AgentSelection, threadId: string, message: string): AgentSelection {
+  const previous = getThreadAffinity(threadId);
+  let result: AgentSelection = { ...selection, affinity: null, previousAgent: previous?.agentName ?? null };
+
+  if (previous && previous.agentName === selection.config.name) {
+    result.affinity = 'kept';
+  } else if (previous) {
+    result.affinity = 'switched';
+
+    const previousConfig = getAgentsConfig().find(agent => agent.name === previous.agentName);
+    const affinityConfig: GroupAffinityConfig | undefined = (previousConfig as any)?.groupAffinity;
+    const withinTurnLimit = affinityConfig?.maxTurns === undefined || previous.keptTurns < affinityConfig.maxTurns;
+
+    // Agente escolhido pelo usuário (@menção ou `agentName`) nunca é substituído pela afinidade
+    if (selection.method !== 'explicit' && previousConfig && affinityConfig?.enabled && withinTurnLimit) {
+      const higherPriority = (selection.config.priority ?? 999) < (previousConfig.priority ?? 999);
+
+      if (!(isExplicitMatch(selection, message) && higherPriority)) {
+        const previousAny = previousConfig as any;
+        result = {
+          config: previousConfig,
+          method: 'affinity',
+          reason: `Afinidade da thread com "${previousConfig.name}" (grupo ${previousAny.groupName || previousAny.groupId}); "${selection.config.name}" não corresponde com prioridade maior`,
+          groupId: previousAny.groupId ?? null,
+          tokenUsage: selection.tokenUsage,
+          affinity: 'kept',
+          previousAgent: previous.agentName,
+        };
+      }
+    }
+  }
+
+  setThreadAffinity(threadId, {
+    agentName: result.config.name,
+    groupId: (result.config as any).groupId ?? null,
+    keptTurns: result.method === 'affinity' ? (previous?.keptTurns ?? 0) + 1 : 0,
+  });
+
+  return result;
+}
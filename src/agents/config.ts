@@ -5,9 +5,28 @@
  * Agora suporta carregamento dinâmico de agentes via JSON.
  */
 
-import { loadAgentsFromJson } from './agentLoader';
+import { loadAgentsFromJson, evaluateShouldUseRule, ShouldUseEvaluation } from './agentLoader';
+import { getSemanticRuleScore } from './semanticIndex';
 import path from 'path';
 
+/**
+ * Formato de resposta de um agente (`responseFormat` no agents.json)
+ *
+ * `json_schema` exige que a resposta siga o schema informado (saída estruturada).
+ */
+export type AgentResponseFormat =
+  | 'text'
+  | 'json_object'
+  | { type: 'text' | 'json_object' }
+  | { type: 'json_schema'; name: string; schema: Record<string, any>; strict?: boolean; description?: string };
+
+/**
+ * Uso de tools pelo agente (`toolChoice` no agents.json)
+ *
+ * `{ name }` obriga o modelo a chamar a tool informada.
+ */
+export type AgentToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
 /**
  * Configuração de um agente OpenAI
  * 
@@ -40,6 +59,21 @@ export interface AgentConfig {
   
   /** Prioridade do agente (menor número = maior prioridade) - opcional */
   priority?: number;
+
+  /** Temperatura de amostragem (0 a 2) - opcional */
+  temperature?: number;
+
+  /** Nucleus sampling (0 a 1) - opcional */
+  top_p?: number;
+
+  /** Limite de tokens gerados por run - opcional */
+  maxOutputTokens?: number;
+
+  /** Formato da resposta (texto, JSON livre ou JSON schema) - opcional */
+  responseFormat?: AgentResponseFormat;
+
+  /** Controle de chamada de tools - opcional */
+  toolChoice?: AgentToolChoice;
 }
 
 /**
@@ -101,17 +135,54 @@ function buildOptimizationCaches(): void {
                           agentsConfigCache.find(agent => agent.priority === 999) || null;
 }
 
+/**
+ * Listener chamado após cada recarregamento bem-sucedido dos agentes
+ */
+export type AgentsReloadListener = (previous: AgentConfig[], next: AgentConfig[], source: string) => void;
+
+const agentsReloadListeners: AgentsReloadListener[] = [];
+
+/**
+ * Registra um listener para recarregamentos do agents.json
+ *
+ * @param {AgentsReloadListener} listener - Recebe a configuração anterior, a nova e a origem do recarregamento
+ */
+export function onAgentsConfigReloaded(listener: AgentsReloadListener): void {
+  agentsReloadListeners.push(listener);
+}
+
 /**
  * Recarrega as configurações de agentes (útil para hot-reload)
- * 
- * @returns {Promise<AgentConfig[]>} Array de configurações de agentes recarregadas
+ *
+ * A troca é atômica: a nova configuração só substitui os caches depois de
+ * carregada com sucesso. Em caso de erro, a configuração anterior é mantida.
+ *
+ * @param {string} source - Origem do recarregamento (ex: 'api', 'file_watcher')
+ * @returns {Promise<AgentConfig[]>} Array de configurações de agentes em uso
  */
-export async function reloadAgentsConfig(): Promise<AgentConfig[]> {
-  agentsConfigCache = null;
-  sortedAgentsCache = null;
-  codeAnalyzerCache = null;
-  generalAssistantCache = null;
-  return await loadAgentsConfig();
+export async function reloadAgentsConfig(source: string = 'api'): Promise<AgentConfig[]> {
+  const previous = agentsConfigCache || [];
+
+  let next: AgentConfig[];
+  try {
+    next = await loadAgentsFromJson(path.join(__dirname, 'agents.json'));
+  } catch (error) {
+    console.error('Erro ao recarregar agentes do JSON, mantendo configuração anterior:', error);
+    return previous;
+  }
+
+  agentsConfigCache = next;
+  buildOptimizationCaches();
+
+  for (const listener of agentsReloadListeners) {
+    try {
+      listener(previous, next, source);
+    } catch (error) {
+      console.error('Erro no listener de recarregamento de agentes:', error);
+    }
+  }
+
+  return next;
 }
 
 /**
@@ -163,6 +234,70 @@ export async function selectAgent(
   return selectAgentSync(message);
 }
 
+/**
+ * Avaliação de um agente durante a seleção
+ */
+export interface AgentEvaluationStep {
+  agentName: string;
+  role: string;
+  priority: number | null;
+  /** Etapa da seleção em que o agente foi avaliado */
+  phase: 'create_keyword_shortcut' | 'priority_scan' | 'keyword_fallback';
+  matched: boolean;
+  /** Motivo quando o agente foi pulado sem avaliar a regra */
+  skippedReason?: string;
+  /** Detalhamento da regra shouldUse */
+  evaluation?: ShouldUseEvaluation;
+}
+
+/**
+ * Trace completo da seleção de agente (usado pelo route-preview)
+ */
+export interface AgentSelectionTrace {
+  message: string;
+  /** Casos especiais detectados na mensagem */
+  specialCases: {
+    hasCreateKeyword: boolean;
+    codeAnalyzerShortcut: boolean;
+    hasFileKeywords: boolean;
+    hasDbKeywords: boolean;
+  };
+  steps: AgentEvaluationStep[];
+  /** Como o agente final foi escolhido */
+  selectedBy: 'code_analyzer_shortcut' | 'should_use' | 'semantic_score' | 'keyword_fallback' | 'default_agent' | 'main_selector' | 'last_agent';
+  selectedAgent: string;
+}
+
+const CREATE_KEYWORDS = ['criar', 'create', 'crie', 'novo', 'new', 'escrever', 'write'];
+const FILE_KEYWORDS = ['arquivo', 'file', 'código', 'code', 'ler', 'read', 'verificar', 'verifique', '.env'];
+const DB_KEYWORDS = ['banco', 'database', 'db', 'sql', 'query', 'tabela', 'table'];
+
+/**
+ * Avalia um agente e registra o passo no trace (quando informado)
+ */
+function evaluateAgent(
+  agent: AgentConfig,
+  message: string,
+  phase: AgentEvaluationStep['phase'],
+  trace?: AgentSelectionTrace
+): boolean {
+  const matched = agent.shouldUse(message);
+
+  if (trace) {
+    const agentAny = agent as any;
+    trace.steps.push({
+      agentName: agent.name,
+      role: agentAny.role || 'agent',
+      priority: agent.priority ?? null,
+      phase,
+      matched,
+      evaluation: evaluateShouldUseRule(agentAny.shouldUseRule, message),
+    });
+  }
+
+  return matched;
+}
+
 /**
  * Versão síncrona de selectAgent (usa cache se disponível)
  * 
@@ -177,6 +312,40 @@ export async function selectAgent(
  * @returns {AgentConfig} Configuração do agente selecionado
  */
 export function selectAgentSync(message: string): AgentConfig {
+  return selectAgentWithTrace(message);
+}
+
+/**
+ * Simula a seleção de agente e retorna o trace completo da avaliação
+ *
+ * Usa exatamente a mesma lógica de selectAgentSync, sem chamar nenhum LLM.
+ *
+ * @param {string} message - Mensagem do usuário
+ * @returns {{ agent: AgentConfig; trace: AgentSelectionTrace }} Agente escolhido e trace da decisão
+ */
+export function explainAgentSelection(message: string): { agent: AgentConfig; trace: AgentSelectionTrace } {
+  const trace: AgentSelectionTrace = {
+    message,
+    specialCases: {
+      hasCreateKeyword: false,
+      codeAnalyzerShortcut: false,
+      hasFileKeywords: false,
+      hasDbKeywords: false,
+    },
+    steps: [],
+    selectedBy: 'last_agent',
+    selectedAgent: '',
+  };
+
+  const agent = selectAgentWithTrace(message, trace);
+  trace.selectedAgent = agent.name;
+  return { agent, trace };
+}
+
+/**
+ * Implementação da seleção de agente, registrando cada decisão no trace quando informado
+ */
+function selectAgentWithTrace(message: string, trace?: AgentSelectionTrace): AgentConfig {
   const agentsConfig = agentsConfigCache;
   
   if (!agentsConfig || agentsConfig.length === 0) {
@@ -186,13 +355,25 @@ export function selectAgentSync(message: string): AgentConfig {
   const lowerMessage = message.toLowerCase();
 
   // Verifica se há palavras de criação para priorizar Code Analyzer
-  const hasCreateKeyword = ['criar', 'create', 'crie', 'novo', 'new', 'escrever', 'write'].some(
-    keyword => lowerMessage.includes(keyword)
-  );
+  const hasCreateKeyword = CREATE_KEYWORDS.some(keyword => lowerMessage.includes(keyword));
+
+  // Palavras-chave que indicam um grupo específico (usadas se nenhum agente corresponder)
+  const hasFileKeywords = FILE_KEYWORDS.some(keyword => lowerMessage.includes(keyword));
+  const hasDbKeywords = DB_KEYWORDS.some(keyword => lowerMessage.includes(keyword));
+
+  if (trace) {
+    trace.specialCases.hasCreateKeyword = hasCreateKeyword;
+    trace.specialCases.hasFileKeywords = hasFileKeywords;
+    trace.specialCases.hasDbKeywords = hasDbKeywords;
+  }
 
   // Se houver palavra de criação, tenta Code Analyzer primeiro (usando cache)
   if (hasCreateKeyword && codeAnalyzerCache) {
-    if (codeAnalyzerCache.shouldUse(message)) {
+    if (evaluateAgent(codeAnalyzerCache, message, 'create_keyword_shortcut', trace)) {
+      if (trace) {
+        trace.specialCases.codeAnalyzerShortcut = true;
+        trace.selectedBy = 'code_analyzer_shortcut';
+      }
       return codeAnalyzerCache;
     }
   }
@@ -215,26 +396,51 @@ export function selectAgentSync(message: string): AgentConfig {
     }
   }
 
+  // Agentes com regra semantic que corresponderam são ranqueados pela similaridade,
+  // em vez de vencer apenas pela ordem de prioridade
+  const semanticMatches: Array<{ agent: AgentConfig; score: number }> = [];
+
   // Procura primeiro em outros agentes (orquestradores, agentes especializados)
   for (const agent of otherAgents) {
     // Pula Code Analyzer se já foi verificado acima
     if (hasCreateKeyword && agent.name === 'Code Analyzer') {
+      trace?.steps.push({
+        agentName: agent.name,
+        role: (agent as any).role || 'agent',
+        priority: agent.priority ?? null,
+        phase: 'priority_scan',
+        matched: false,
+        skippedReason: 'Já avaliado no atalho de palavras de criação',
+      });
       continue;
     }
 
-    if (agent.shouldUse(message)) {
+    if (evaluateAgent(agent, message, 'priority_scan', trace)) {
+      const semanticScore = getSemanticRuleScore((agent as any).shouldUseRule, message);
+      if (semanticScore !== null) {
+        semanticMatches.push({ agent, score: semanticScore });
+        continue;
+      }
+
+      // Correspondência de menor prioridade que as semânticas: vence a melhor semântica
+      if (semanticMatches.length > 0) {
+        break;
+      }
+
+      if (trace) {
+        trace.selectedBy = 'should_use';
+      }
       return agent;
     }
   }
 
-  // Se nenhum agente especializado correspondeu, verifica se há palavras-chave
-  // que indicam que deveria ir para um grupo específico
-  const hasFileKeywords = ['arquivo', 'file', 'código', 'code', 'ler', 'read', 'verificar', 'verifique', '.env'].some(
-    keyword => lowerMessage.includes(keyword)
-  );
-  const hasDbKeywords = ['banco', 'database', 'db', 'sql', 'query', 'tabela', 'table'].some(
-    keyword => lowerMessage.includes(keyword)
-  );
+  if (semanticMatches.length > 0) {
+    const best = semanticMatches.reduce((current, candidate) => candidate.score > current.score ? candidate : current);
+    if (trace) {
+      trace.selectedBy = 'semantic_score';
+    }
+    return best.agent;
+  }
 
   // Se há palavras-chave específicas mas nenhum agente correspondeu,
   // tenta encontrar um orquestrador ou agente do grupo apropriado diretamente
@@ -242,7 +448,10 @@ export function selectAgentSync(message: string): AgentConfig {
     for (const agent of otherAgents) {
       const agentAny = agent as any;
       // Se for orquestrador ou agente de grupo, tenta usar mesmo sem shouldUse perfeito
-      if ((agentAny.role === 'orchestrator' || agentAny.role === 'agent') && agent.shouldUse(message)) {
+      if ((agentAny.role === 'orchestrator' || agentAny.role === 'agent') && evaluateAgent(agent, message, 'keyword_fallback', trace)) {
+        if (trace) {
+          trace.selectedBy = 'keyword_fallback';
+        }
         return agent;
       }
     }
@@ -250,11 +459,17 @@ export function selectAgentSync(message: string): AgentConfig {
 
   // Usa cache do agente padrão (fallback)
   if (generalAssistantCache) {
+    if (trace) {
+      trace.selectedBy = 'default_agent';
+    }
     return generalAssistantCache;
   }
 
   // Último recurso: Main Selector (só se realmente não houver nada melhor)
   if (mainSelector) {
+    if (trace) {
+      trace.selectedBy = 'main_selector';
+    }
     return mainSelector;
   }
 
@@ -0,0 +1,199 @@
+/**
+ * Delegação entre agentes de um grupo
+ *
+ * Registra a tool nativa `delegate_to_agent`, injetada automaticamente nos
+ * orquestradores de grupo. O orquestrador delega uma tarefa a um agente do
+ * seu grupo, que executa um sub-run próprio; a resposta do sub-agente volta
+ * como output da tool. Os eventos do sub-run são emitidos com o campo
+ * `delegation` e os tokens são atribuídos ao sub-agente em saveTokens.
+ */
+
+import { Socket } from 'socket.io';
+import { AgentConfig, loadAgentsConfig } from './config';
+import { registerToolDefinition, ToolDefinition, ToolExecutionContext, ToolSchema } from '../tools/toolRegistry';
+import { getLLMAdapter, getCurrentLLMProvider } from '../services/llmService';
+import { discardThread, LLMRun, TokenUsage } from '../llm/adapters/LLMAdapter';
+import { getThreadId, getThreadTokens, updateThreadTokens } from '../services/threadService';
+import { renderAgentInstructions } from '../services/instructionTemplateService';
+import { getActiveRun } from '../services/runService';
+import { emitToMonitors } from '../services/monitoringService';
+import { saveTokens } from '../storage/tokenStorage';
+import { saveLog } from '../storage/logStorage';
+
+export const DELEGATE_TOOL_NAME = 'delegate_to_agent';
+
+/**
+ * Monta o schema da tool de delegação com os agentes disponíveis no grupo
+ *
+ * @param {string[]} memberNames - Nomes dos agentes do grupo (vazio = sem restrição no schema)
+ */
+export function buildDelegateToolSchema(memberNames: string[] = []): ToolSchema {
+  return {
+    type: 'function',
+    function: {
+      name: DELEGATE_TOOL_NAME,
+      description:
+        'Delega uma tarefa a um agente especializado do seu grupo e retorna a resposta dele. ' +
+        'Descreva a tarefa de forma completa, pois o agente não vê o histórico da conversa.',
+      parameters: {
+        type: 'object',
+        properties: {
+          agentName: {
+            type: 'string',
+            description: 'Nome exato do agente do grupo que deve executar a tarefa',
+            ...(memberNames.length > 0 ? { enum: memberNames } : {}),
+          },
+          task: {
+            type: 'string',
+            description: 'Tarefa completa a ser executada pelo agente, incluindo caminhos, comandos e contexto necessários',
+          },
+        },
+        required: ['agentName', 'task'],
+      },
+    },
+  };
+}
+
+/**
+ * Cria um socket que marca os eventos do sub-run com o contexto da delegação
+ *
+ * Usa um ID próprio para que os eventos cheguem aos monitores apenas uma vez
+ * (já anotados), via emitToMonitors com o ID do socket original.
+ */
+function createDelegationSocket(socket: Socket, delegation: Record<string, any>): Socket {
+  const delegationSocket = {
+    id: `${socket.id}:delegation:${delegation.agentName}`,
+    // Permite às tools identificarem a thread e o agente da delegação (ver getToolCaller)
+    data: { delegation, parentSocketId: socket.id },
+    emit: (event: string, data: any) => {
+      const annotated = data && typeof data === 'object' && !Array.isArray(data) ? { ...data, delegation } : data;
+      emitToMonitors(socket.id, event, annotated);
+      return socket.emit(event, annotated);
+    },
+  };
+  return delegationSocket as unknown as Socket;
+}
+
+/**
+ * Executa a delegação para um agente do grupo do orquestrador
+ */
+async function delegateToAgent(args: any, context: ToolExecutionContext): Promise<string> {
+  const agentName = typeof args?.agentName === 'string' ? args.agentName.trim() : '';
+  const task = typeof args?.task === 'string' ? args.task.trim() : '';
+  if (!agentName || !task) {
+    return 'Erro: "agentName" e "task" são obrigatórios';
+  }
+
+  const llmAdapter = getLLMAdapter();
+  const threadId = context.socket ? getThreadId(context.socket.id) : undefined;
+  const activeRun = threadId ? getActiveRun(threadId) : undefined;
+  if (!llmAdapter || !context.socket || !threadId || !activeRun?.agentName) {
+    return 'Erro: delegação disponível apenas durante o processamento de uma mensagem do chat';
+  }
+
+  const agents = await loadAgentsConfig();
+  const orchestrator = agents.find((agent) => agent.name === activeRun.agentName) as (AgentConfig & Record<string, any>) | undefined;
+  if (!orchestrator || orchestrator.role !== 'orchestrator') {
+    return `Erro: apenas orquestradores de grupo podem delegar (agente atual: "${activeRun.agentName}")`;
+  }
+
+  const members = agents.filter((agent) => {
+    const agentAny = agent as any;
+    return agentAny.role === 'agent' && agentAny.groupId === orchestrator.groupId && agentAny.routable !== false;
+  });
+  const target = members.find((agent) => agent.name.toLowerCase() === agentName.toLowerCase());
+  if (!target) {
+    return `Erro: agente "${agentName}" não pertence ao grupo "${orchestrator.groupName}". Disponíveis: ${members.map((agent) => agent.name).join(', ')}`;
+  }
+
+  const delegation = { orchestrator: orchestrator.name, agentName: target.name, groupId: orchestrator.groupId };
+  const delegationSocket = createDelegationSocket(context.socket, delegation);
+  const startTime = Date.now();
+
+  console.log(`🤝 "${orchestrator.name}" delegando para "${target.name}": ${task.substring(0, 120)}`);
+
+  const agentId = await llmAdapter.getOrCreateAgent(target);
+  const thread = await llmAdapter.createThread({
+    purpose: 'delegation',
+    parentThreadId: threadId,
+    orchestrator: orchestrator.name,
+  });
+
+  let run: LLMRun;
+  let response: string;
+  let tokenUsage: TokenUsage;
+  try {
+    await llmAdapter.addMessage(thread.id, 'user', task);
+
+    // O sub-run não recebe o socket no createRun para não misturar seus deltas com a resposta do orquestrador
+    // As variáveis de template usam o contexto da thread principal
+    const instructions = await renderAgentInstructions(target, threadId, llmAdapter.provider);
+    run = await llmAdapter.createRun(thread.id, agentId, undefined, { instructions });
+    ({ message: response, tokenUsage } = await llmAdapter.waitForRunCompletion(
+      thread.id,
+      run.id,
+      delegationSocket,
+      { signal: context.signal }
+    ));
+  } finally {
+    // A thread da delegação é criada a cada chamada e não é reutilizada
+    await discardThread(llmAdapter, thread.id);
+  }
+
+  // Atribui os tokens do sub-run ao sub-agente, acumulando na thread principal
+  const currentLLMProvider = getCurrentLLMProvider();
+  updateThreadTokens(threadId, tokenUsage);
+  saveTokens(
+    threadId,
+    target.name,
+    `[Delegado por ${orchestrator.name}] ${task}`,
+    tokenUsage,
+    getThreadTokens(threadId),
+    target.model,
+    currentLLMProvider
+  );
+
+  saveLog({
+    type: 'tool_result',
+    socketId: context.socket.id,
+    threadId,
+    runId: run.id,
+    agentName: target.name,
+    toolName: DELEGATE_TOOL_NAME,
+    toolArgs: { agentName: target.name, task },
+    toolResult: response.substring(0, 1000),
+    toolExecutionTime: Date.now() - startTime,
+    tokenUsage,
+    llmProvider: currentLLMProvider,
+    metadata: {
+      orchestrator: orchestrator.name,
+      delegatedThreadId: thread.id,
+    },
+  });
+
+  // Atualiza o contador de tokens do cliente antes da resposta final do orquestrador
+  delegationSocket.emit('token_usage', {
+    agentName: target.name,
+    tokenUsage,
+    accumulated: getThreadTokens(threadId),
+  });
+
+  return `[Resposta de ${target.name}]\n${response}`;
+}
+
+/**
+ * Definição da tool de delegação (schema genérico; orquestradores recebem o schema com os agentes do grupo)
+ */
+export const delegateToAgentTool: ToolDefinition = {
+  name: DELEGATE_TOOL_NAME,
+  schema: buildDelegateToolSchema(),
+  execute: delegateToAgent,
+  action: {
+    emoji: '🤝',
+    description: 'Delegando tarefa',
+    format: (args) => `🤝 Delegando para ${args?.agentName}: ${String(args?.task || '').substring(0, 80)}`,
+  },
+  permissions: { category: 'orchestration', readOnly: false },
+};
+
+registerToolDefinition(delegateToAgentTool);
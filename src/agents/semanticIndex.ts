@@ -0,0 +1,255 @@
+/**
+ * Índice semântico local para regras shouldUse do tipo `semantic`
+ *
+ * Compara a mensagem com frases de exemplo (e a descrição do agente) usando
+ * TF-IDF com similaridade de cosseno, calculado localmente, sem API de
+ * embeddings. Os textos passam por normalização (minúsculas, sem acentos,
+ * sem stopwords) e por um stemming leve em português e inglês, para que
+ * variações como "listar"/"listing" ou "arquivo"/"arquivos" correspondam.
+ */
+
+import type { ShouldUseRule } from './agentLoader';
+
+/**
+ * Similaridade mínima padrão (0 a 1) para uma regra semantic corresponder
+ */
+export const DEFAULT_SEMANTIC_THRESHOLD = 0.35;
+
+/**
+ * Resultado da comparação de uma mensagem com uma regra semantic
+ */
+export interface SemanticScore {
+  /** Maior similaridade encontrada entre a mensagem e os textos da regra (0 a 1) */
+  score: number;
+  threshold: number;
+  matched: boolean;
+  /** Texto (exemplo ou descrição) mais parecido com a mensagem */
+  bestMatch?: string;
+}
+
+const STOPWORDS = new Set([
+  // Português
+  'a', 'o', 'as', 'os', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'nos', 'nas',
+  'por', 'para', 'pra', 'com', 'sem', 'e', 'ou', 'que', 'se', 'me', 'te', 'eu', 'voce', 'ele', 'ela', 'isso', 'isto',
+  'esse', 'essa', 'este', 'esta', 'meu', 'minha', 'seu', 'sua', 'ao', 'aos', 'pelo', 'pela', 'mais', 'muito', 'como',
+  'qual', 'quais', 'favor', 'ser', 'ter', 'tem', 'ja', 'so', 'ai', 'la', 'aqui',
+  // Inglês
+  'the', 'an', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'and', 'or', 'is', 'are', 'be', 'it', 'this', 'that',
+  'me', 'my', 'you', 'your', 'i', 'we', 'please', 'can', 'could', 'would', 'do', 'does', 'what', 'how', 'from',
+]);
+
+/**
+ * Sufixos removidos pelo stemming leve (do mais longo para o mais curto)
+ */
+const SUFFIXES = [
+  'amente', 'mente', 'coes', 'cao', 'ando', 'endo', 'indo', 'ing', 'ado', 'ido',
+  'ar', 'er', 'ir', 'es', 'os', 'as', 'ed', 's', 'o', 'a', 'e',
+];
+
+function stem(token: string): string {
+  for (const suffix of SUFFIXES) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= 3) {
+      const stemmed = token.slice(0, -suffix.length);
+      // running -> run, stopped -> stop
+      return (suffix === 'ing' || suffix === 'ed') && /([b-df-hj-np-tv-z])\1$/.test(stemmed)
+        ? stemmed.slice(0, -1)
+        : stemmed;
+    }
+  }
+  return token;
+}
+
+/**
+ * Normaliza e divide um texto em termos
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+  return counts;
+}
+
+interface IndexedDocument {
+  key: string;
+  text: string;
+  termCounts: Map<string, number>;
+  vector?: Map<string, number>;
+  norm?: number;
+}
+
+/**
+ * Índice TF-IDF dos textos das regras semantic de uma carga do agents.json
+ *
+ * O IDF é calculado sobre os textos de todos os agentes, de modo que termos
+ * comuns a vários agentes pesam menos que os termos característicos de cada um.
+ */
+export class SemanticIndex {
+  private documents: IndexedDocument[] = [];
+  private idf: Map<string, number> = new Map();
+  private built = false;
+
+  /**
+   * Adiciona os textos de uma regra ao índice
+   *
+   * @param {string} key - Identificador da regra no índice
+   * @param {string[]} texts - Frases de exemplo e/ou descrição do agente
+   */
+  addDocuments(key: string, texts: string[]): void {
+    texts
+      .filter(text => typeof text === 'string' && text.trim())
+      .forEach(text => this.documents.push({ key, text, termCounts: countTerms(tokenize(text)) }));
+    this.built = false;
+  }
+
+  private build(): void {
+    const documentFrequency = new Map<string, number>();
+    this.documents.forEach(document => {
+      document.termCounts.forEach((_count, term) => {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      });
+    });
+
+    const total = this.documents.length;
+    this.idf = new Map(
+      Array.from(documentFrequency.entries()).map(([term, frequency]) => [term, Math.log(1 + total / frequency)])
+    );
+
+    this.documents.forEach(document => {
+      document.vector = this.toVector(document.termCounts);
+      document.norm = vectorNorm(document.vector);
+    });
+    this.built = true;
+  }
+
+  private toVector(termCounts: Map<string, number>): Map<string, number> {
+    // Termos fora do vocabulário recebem o maior IDF possível (reduzem a similaridade)
+    const unknownIdf = Math.log(1 + Math.max(this.documents.length, 1));
+    const vector = new Map<string, number>();
+    termCounts.forEach((count, term) => {
+      vector.set(term, (1 + Math.log(count)) * (this.idf.get(term) ?? unknownIdf));
+    });
+    return vector;
+  }
+
+  /**
+   * Calcula a similaridade da mensagem com os textos de uma regra
+   *
+   * @param {string} key - Identificador da regra no índice
+   * @param {string} message - Mensagem do usuário
+   * @returns {{ score: number; bestMatch?: string }} Maior similaridade de cosseno (0 a 1) e o texto correspondente
+   */
+  score(key: string, message: string): { score: number; bestMatch?: string } {
+    if (!this.built) {
+      this.build();
+    }
+
+    const queryVector = this.toVector(countTerms(tokenize(message)));
+    const queryNorm = vectorNorm(queryVector);
+    if (queryNorm === 0) {
+      return { score: 0 };
+    }
+
+    let best: { score: number; bestMatch?: string } = { score: 0 };
+    this.documents
+      .filter(document => document.key === key && document.norm)
+      .forEach(document => {
+        let dotProduct = 0;
+        queryVector.forEach((weight, term) => {
+          dotProduct += weight * (document.vector!.get(term) || 0);
+        });
+        const similarity = dotProduct / (queryNorm * document.norm!);
+        if (similarity > best.score) {
+          best = { score: similarity, bestMatch: document.text };
+        }
+      });
+
+    return { score: Math.round(best.score * 1000) / 1000, bestMatch: best.bestMatch };
+  }
+}
+
+function vectorNorm(vector: Map<string, number>): number {
+  let sum = 0;
+  vector.forEach(weight => {
+    sum += weight * weight;
+  });
+  return Math.sqrt(sum);
+}
+
+/**
+ * Regras semantic registradas, associadas ao índice da carga em que foram criadas
+ */
+const registeredRules = new WeakMap<ShouldUseRule, { index: SemanticIndex; key: string }>();
+let ruleCounter = 0;
+
+/**
+ * Registra os textos de uma regra semantic no índice
+ *
+ * @param {SemanticIndex} index - Índice da carga atual do agents.json
+ * @param {ShouldUseRule} rule - Regra semantic (exemplos, threshold, includeDescription)
+ * @param {string} agentName - Nome do agente dono da regra
+ * @param {string} description - Descrição do agente (incluída, salvo `includeDescription: false`)
+ */
+export function registerSemanticRule(
+  index: SemanticIndex,
+  rule: ShouldUseRule,
+  agentName: string,
+  description?: string
+): void {
+  const key = `${agentName}#${++ruleCounter}`;
+  const texts = [...(rule.examples || [])];
+  if (rule.includeDescription !== false && description) {
+    texts.push(description);
+  }
+  index.addDocuments(key, texts);
+  registeredRules.set(rule, { index, key });
+}
+
+/**
+ * Compara a mensagem com uma regra semantic registrada
+ *
+ * @param {ShouldUseRule} rule - Regra semantic
+ * @param {string} message - Mensagem do usuário
+ * @returns {SemanticScore} Similaridade, threshold e se a regra corresponde
+ */
+export function scoreSemanticRule(rule: ShouldUseRule, message: string): SemanticScore {
+  const threshold = typeof rule.threshold === 'number' ? rule.threshold : DEFAULT_SEMANTIC_THRESHOLD;
+  const registered = registeredRules.get(rule);
+  if (!registered) {
+    return { score: 0, threshold, matched: false };
+  }
+
+  const { score, bestMatch } = registered.index.score(registered.key, message);
+  return { score, threshold, matched: score >= threshold, bestMatch };
+}
+
+/**
+ * Maior similaridade entre a mensagem e as regras semantic de uma regra shouldUse
+ *
+ * @param {ShouldUseRule} rule - Regra shouldUse (as sub-regras de complex também são consideradas)
+ * @param {string} message - Mensagem do usuário
+ * @returns {number | null} Maior similaridade ou null se a regra não tiver regras semantic
+ */
+export function getSemanticRuleScore(rule: ShouldUseRule | undefined, message: string): number | null {
+  if (!rule) {
+    return null;
+  }
+  if (rule.type === 'semantic') {
+    return scoreSemanticRule(rule, message).score;
+  }
+  if (rule.type === 'complex' && rule.rules) {
+    const scores = rule.rules
+      .map(subRule => getSemanticRuleScore(subRule, message))
+      .filter((score): score is number => score !== null);
+    return scores.length > 0 ? Math.max(...scores) : null;
+  }
+  return null;
+}
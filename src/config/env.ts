@@ -1,6 +1,10 @@
 import path from 'path';
 import fs from 'fs';
 import { StackSpotProxyConfig } from '../types/stackspot';
+import { LLMProvider } from '../types';
+import type { CommandPolicyConfig } from '../tools/commandPolicy';
+import type { ToolApprovalConfig } from '../services/toolApprovalService';
+import type { WorkspaceRootConfig } from '../tools/workspaceRoots';
 
 /**
  * Configuração e carregamento de variáveis de ambiente
@@ -13,7 +17,7 @@ import { StackSpotProxyConfig } from '../types/stackspot';
  */
 export interface AppConfig {
   // Provider escolhido
-  llmProvider?: 'openai' | 'stackspot';
+  llmProvider?: LLMProvider;
   
   // Configuração OpenAI
   openaiApiKey?: string;
@@ -24,6 +28,35 @@ export interface AppConfig {
   stackspotRealm?: string;
   stackspotProxy?: StackSpotProxyConfig;
   
+  // Configuração de servidor compatível com OpenAI (llama.cpp, vLLM, Ollama)
+  openaiCompatibleBaseUrl?: string;
+  openaiCompatibleApiKey?: string;
+  openaiCompatibleModel?: string;
+  
+  // Configuração do provider mock (desenvolvimento offline e testes)
+  mockFixturesPath?: string;
+  
+  // Streaming de respostas token a token (OpenAI); padrão: habilitado
+  streamResponses?: boolean;
+  
+  // Diretório de módulos de tools externas (padrão: ./tools)
+  toolsDirectory?: string;
+  
+  // Recarrega os agentes ao alterar o agents.json no disco; padrão: habilitado
+  watchAgentsFile?: boolean;
+  
+  // Nome do usuário usado em {{user.name}} nas instruções; padrão: usuário do sistema
+  userName?: string;
+  
+  // Regras allow/deny/ask do execute_command (somadas às regras padrão)
+  commandPolicy?: CommandPolicyConfig;
+  
+  // Aprovação humana de tools sensíveis (write_file, execute_command, ...); padrão: habilitada
+  toolApproval?: ToolApprovalConfig;
+  
+  // Raízes acessíveis pelas tools de arquivos (string = read-write); padrão: diretório do servidor e pastas do usuário
+  workspaceRoots?: Array<string | WorkspaceRootConfig>;
+  
   // Outras configurações
   port?: number;
   lastUpdated?: string;
@@ -7,7 +7,7 @@
 import { Server, Socket } from 'socket.io';
 import { LLMAdapter } from '../llm/adapters/LLMAdapter';
 import { AgentManager } from '../agents/agentManager';
-import { getLLMAdapter, getCurrentLLMProvider } from '../services/llmService';
+import { getLLMAdapter, getCurrentLLMProvider, getProviderDisplayName } from '../services/llmService';
 import { getThreadId, setThreadId, clearThread, removeThreadTokens } from '../services/threadService';
 import { 
   addConnection, 
@@ -22,6 +22,8 @@ import { clearConversation } from '../storage/conversationStorage';
 import { validateLLMCredentials } from '../validation/credentialValidator';
 import { loadConfigFromJson } from '../config/env';
 import { processMessage } from '../services/messageService';
+import { cancelActiveRun } from '../services/runService';
+import { cancelSocketApprovals, clearThreadApprovals, respondToToolApproval, ToolApprovalScope } from '../services/toolApprovalService';
 import { 
   initializeMonitoring, 
   emitToMonitors, 
@@ -122,7 +124,7 @@ async function handleConnection(socket: Socket): Promise<void> {
 async function handleConnectionWithoutAdapter(socket: Socket): Promise<void> {
   const config = loadConfigFromJson();
   const provider = config?.llmProvider || 'stackspot';
-  const providerName = provider === 'openai' ? 'OpenAI' : 'StackSpot';
+  const providerName = getProviderDisplayName(provider);
   
   socket.emit('config_required', {
     type: 'config_required',
@@ -343,10 +345,28 @@ function registerSocketHandlers(socket: Socket): void {
   });
 
   // Handler para mensagens
-  socket.on('message', async (data: { message: string }) => {
+  socket.on('message', async (data: { message: string; interrupt?: boolean; agentName?: string; context?: { workingDirectory?: string; userName?: string } }) => {
     await handleMessage(socket, data);
   });
 
+  // Handler para cancelar o run em andamento
+  socket.on('cancel_run', async () => {
+    await handleCancelRun(socket);
+  });
+
+  // Handlers para aprovar/negar uma tool call sensível
+  socket.on('approve_tool', (data: { approvalId: string; scope?: ToolApprovalScope }) => {
+    handleToolApprovalResponse(socket, { approvalId: data?.approvalId, approved: true, scope: data?.scope });
+  });
+
+  socket.on('deny_tool', (data: { approvalId: string; reason?: string }) => {
+    handleToolApprovalResponse(socket, {
+      approvalId: data?.approvalId,
+      approved: false,
+      reason: typeof data?.reason === 'string' && data.reason.trim() ? data.reason.trim() : undefined,
+    });
+  });
+
   // Handler para desconexão
   socket.on('disconnect', async () => {
     await handleDisconnect(socket);
@@ -373,6 +393,7 @@ async function handleClearConversation(socket: Socket): Promise<void> {
     // Limpa conversa antiga
     if (oldThreadId) {
       clearConversation(oldThreadId, socket.id);
+      clearThreadApprovals(oldThreadId);
       console.log(`🗑️ Limpando conversa para thread ${oldThreadId} e socket ${socket.id}`);
     } else {
       clearConversation('', socket.id);
@@ -426,7 +447,7 @@ async function handleClearConversation(socket: Socket): Promise<void> {
 /**
  * Handler para mensagens
  */
-async function handleMessage(socket: Socket, data: { message: string }): Promise<void> {
+async function handleMessage(socket: Socket, data: { message: string; interrupt?: boolean; agentName?: string; context?: { workingDirectory?: string; userName?: string } }): Promise<void> {
   console.log('Mensagem recebida:', data.message);
 
   // Verifica se llmAdapter está configurado
@@ -446,7 +467,47 @@ async function handleMessage(socket: Socket, data: { message: string }): Promise
   }
 
   // Processa mensagem usando o serviço
-  await processMessage(socket, data.message, llmAdapter, agentManager);
+  await processMessage(socket, data.message, llmAdapter, agentManager, {
+    interrupt: data.interrupt === true,
+    agentName: typeof data.agentName === 'string' ? data.agentName : undefined,
+    context: data.context && typeof data.context === 'object'
+      ? {
+        workingDirectory: typeof data.context.workingDirectory === 'string' ? data.context.workingDirectory : undefined,
+        userName: typeof data.context.userName === 'string' ? data.context.userName : undefined
+      }
+      : undefined
+  });
+}
+
+/**
+ * Handler para cancelamento do run em andamento
+ *
+ * O evento `run_cancelled` é emitido por processMessage quando o run é interrompido.
+ */
+async function handleCancelRun(socket: Socket): Promise<void> {
+  const threadId = getThreadId(socket.id);
+  const cancelledRun = threadId ? await cancelActiveRun(threadId, llmAdapter) : null;
+
+  if (!cancelledRun) {
+    socket.emit('error', {
+      message: 'Nenhum run em andamento para cancelar'
+    });
+  }
+}
+
+/**
+ * Handler para a resposta do usuário a uma solicitação de aprovação
+ */
+function handleToolApprovalResponse(
+  socket: Socket,
+  response: { approvalId: string; approved: boolean; scope?: ToolApprovalScope; reason?: string }
+): void {
+  const error = respondToToolApproval(socket.id, response);
+  if (error) {
+    socket.emit('error', {
+      message: error
+    });
+  }
 }
 
 /**
@@ -477,8 +538,12 @@ async function handleDisconnect(socket: Socket): Promise<void> {
   // Limpa monitores
   cleanupMonitorsForDisconnectedSocket(socket.id);
   
+  // Nega as aprovações pendentes (o run em andamento segue sem o usuário)
+  cancelSocketApprovals(socket.id, 'cliente desconectado');
+
   // Limpa thread e tokens
   if (disconnectThreadId) {
+    clearThreadApprovals(disconnectThreadId);
     clearThread(socket.id);
     removeThreadTokens(disconnectThreadId);
     console.log('Thread removida para socket:', socket.id);
@@ -3,17 +3,21 @@
  */
 
 import { LLMAdapter } from './adapters/LLMAdapter';
-import { OpenAIAdapter } from './adapters/OpenAIAdapter';
+import { OpenAIAdapter, OpenAIAdapterOptions } from './adapters/OpenAIAdapter';
 import { StackSpotAdapter, StackSpotConfig } from './adapters/StackSpotAdapter';
+import { ChatCompletionsAdapter, ChatCompletionsConfig } from './adapters/ChatCompletionsAdapter';
+import { MockAdapter, MockAdapterConfig } from './adapters/MockAdapter';
 
-export type LLMProvider = 'openai' | 'stackspot';
+export type LLMProvider = 'openai' | 'stackspot' | 'openai-compatible' | 'mock';
 
 export interface LLMConfig {
   provider: LLMProvider;
   openai?: {
     apiKey: string;
-  };
+  } & OpenAIAdapterOptions;
   stackspot?: StackSpotConfig;
+  openaiCompatible?: ChatCompletionsConfig;
+  mock?: MockAdapterConfig;
 }
 
 /**
@@ -25,7 +29,7 @@ export function createLLMAdapter(config: LLMConfig): LLMAdapter {
       if (!config.openai?.apiKey) {
         throw new Error('OpenAI API key é obrigatória quando provider é "openai"');
       }
-      return new OpenAIAdapter(config.openai.apiKey);
+      return new OpenAIAdapter(config.openai.apiKey, { streaming: config.openai.streaming });
 
     case 'stackspot':
       if (!config.stackspot?.clientId || !config.stackspot?.clientSecret) {
@@ -33,6 +37,15 @@ export function createLLMAdapter(config: LLMConfig): LLMAdapter {
       }
       return new StackSpotAdapter(config.stackspot);
 
+    case 'openai-compatible':
+      if (!config.openaiCompatible?.baseURL) {
+        throw new Error('Base URL é obrigatória quando provider é "openai-compatible"');
+      }
+      return new ChatCompletionsAdapter(config.openaiCompatible);
+
+    case 'mock':
+      return new MockAdapter(config.mock);
+
     default:
       throw new Error(`Provider "${config.provider}" não suportado`);
   }
@@ -0,0 +1,458 @@
+/**
+ * Adaptador para servidores compatíveis com a API OpenAI (/v1/chat/completions)
+ *
+ * Funciona com llama.cpp server, vLLM, Ollama e similares. Como esses servidores
+ * não implementam a Assistants API (beta), threads e runs são emulados em memória:
+ * o histórico completo (incluindo tool calls) é reenviado a cada chamada de chat completion.
+ */
+
+import OpenAI from 'openai';
+import { Socket } from 'socket.io';
+import { AgentConfig } from '../../agents/config';
+import { LLMAdapter, LLMThread, LLMMessage, LLMRun, TokenUsage, RunCreateOptions, RunExecutionOptions, RunCancelledError } from './LLMAdapter';
+import { emitToMonitors } from '../../services/monitoringService';
+import { executeToolCalls, PendingToolCall } from './toolCallExecutor';
+import { getGenerationSettings, toOpenAIResponseFormat, toOpenAIToolChoice } from '../generationSettings';
+
+type ChatMessageParam = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+type ChatTool = OpenAI.Chat.Completions.ChatCompletionTool;
+
+/**
+ * Configuração do adaptador de chat completions
+ */
+export interface ChatCompletionsConfig {
+  /** URL base do servidor (ex: 'http://localhost:8080/v1') */
+  baseURL: string;
+  /** API key opcional (a maioria dos servidores locais não exige) */
+  apiKey?: string;
+  /** Modelo usado para todos os agentes (sobrescreve o `model` do agents.json) */
+  model?: string;
+}
+
+interface LocalAgent {
+  config: AgentConfig;
+}
+
+interface LocalThreadState {
+  thread: LLMThread;
+  /** Mensagens visíveis (user/assistant/system), em ordem cronológica */
+  messages: LLMMessage[];
+  /** Histórico completo enviado ao modelo (inclui tool calls e tool outputs) */
+  history: ChatMessageParam[];
+  runIds: string[];
+}
+
+interface LocalRunState {
+  run: LLMRun;
+  pendingToolCalls: PendingToolCall[];
+  tokenUsage: TokenUsage;
+  /** Instruções do run (substituem as do agente) */
+  instructions?: string;
+}
+
+/**
+ * Runs finalizados mantidos por thread (os mais antigos são descartados ao criar um novo run)
+ */
+const MAX_FINISHED_RUNS_PER_THREAD = 20;
+
+const FINISHED_RUN_STATUSES: LLMRun['status'][] = ['completed', 'failed', 'cancelled'];
+
+export class ChatCompletionsAdapter implements LLMAdapter {
+  readonly provider = 'openai-compatible';
+  private openai: OpenAI;
+  private defaultModel?: string;
+  private agentCache: Map<string, string> = new Map();
+  private agents: Map<string, LocalAgent> = new Map();
+  private threads: Map<string, LocalThreadState> = new Map();
+  private runs: Map<string, LocalRunState> = new Map();
+  private idCounter = 0;
+
+  constructor(config: ChatCompletionsConfig) {
+    if (!config?.baseURL) {
+      throw new Error('baseURL é obrigatória para o provider "openai-compatible"');
+    }
+
+    this.openai = new OpenAI({
+      baseURL: config.baseURL,
+      // O SDK exige uma key; servidores locais normalmente ignoram o header
+      apiKey: config.apiKey || 'not-needed',
+    });
+    this.defaultModel = config.model;
+
+    console.log(`🔌 ChatCompletionsAdapter apontando para ${config.baseURL}`);
+  }
+
+  private nextId(prefix: string): string {
+    this.idCounter++;
+    return `${prefix}_local_${Date.now().toString(36)}${this.idCounter}`;
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  private getThreadState(threadId: string): LocalThreadState {
+    const state = this.threads.get(threadId);
+    if (!state) {
+      throw new Error(`Thread ${threadId} não encontrada`);
+    }
+    return state;
+  }
+
+  private getRunState(threadId: string, runId: string): LocalRunState {
+    const state = this.runs.get(runId);
+    if (!state || state.run.thread_id !== threadId) {
+      throw new Error(`Run ${runId} não encontrado na thread ${threadId}`);
+    }
+    return state;
+  }
+
+  private getAgent(assistantId: string): LocalAgent {
+    const agent = this.agents.get(assistantId);
+    if (!agent) {
+      throw new Error(`Agente ${assistantId} não encontrado`);
+    }
+    return agent;
+  }
+
+  /**
+   * Converte as tools do agents.json (formato Assistants) para o formato de chat completions
+   */
+  private toChatTools(tools: any[]): ChatTool[] {
+    return (tools || [])
+      .filter((tool) => tool?.type === 'function' && tool.function?.name)
+      .map((tool) => ({
+        type: 'function' as const,
+        function: tool.function,
+      }));
+  }
+
+  isConfigured(): boolean {
+    return !!this.openai;
+  }
+
+  async getOrCreateAgent(config: AgentConfig): Promise<string> {
+    // Agentes são locais: apenas atualiza a configuração usada nos próximos runs
+    const cachedId = this.agentCache.get(config.name);
+    if (cachedId) {
+      this.agents.set(cachedId, { config });
+      return cachedId;
+    }
+
+    const agentId = this.nextId('asst');
+    this.agentCache.set(config.name, agentId);
+    this.agents.set(agentId, { config });
+    return agentId;
+  }
+
+  invalidateAgents(agentNames?: string[]): void {
+    if (!agentNames) {
+      this.agentCache.clear();
+      return;
+    }
+    agentNames.forEach((name) => this.agentCache.delete(name));
+  }
+
+  async createThread(metadata?: Record<string, any>): Promise<LLMThread> {
+    const thread: LLMThread = {
+      id: this.nextId('thread'),
+      created_at: this.now(),
+      metadata,
+    };
+    this.threads.set(thread.id, { thread, messages: [], history: [], runIds: [] });
+    return thread;
+  }
+
+  async retrieveThread(threadId: string): Promise<LLMThread> {
+    return this.getThreadState(threadId).thread;
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    const threadState = this.threads.get(threadId);
+    if (!threadState) {
+      return;
+    }
+    threadState.runIds.forEach((runId) => this.runs.delete(runId));
+    this.threads.delete(threadId);
+  }
+
+  /**
+   * Descarta os runs finalizados mais antigos da thread, mantendo os últimos MAX_FINISHED_RUNS_PER_THREAD
+   */
+  private pruneFinishedRuns(threadState: LocalThreadState): void {
+    const finishedRunIds = threadState.runIds.filter((runId) => {
+      const status = this.runs.get(runId)?.run.status;
+      return !status || FINISHED_RUN_STATUSES.includes(status);
+    });
+    const excess = finishedRunIds.slice(0, Math.max(0, finishedRunIds.length - MAX_FINISHED_RUNS_PER_THREAD));
+    if (excess.length === 0) {
+      return;
+    }
+    excess.forEach((runId) => this.runs.delete(runId));
+    threadState.runIds = threadState.runIds.filter((runId) => !excess.includes(runId));
+  }
+
+  async addMessage(
+    threadId: string,
+    role: 'user' | 'assistant' | 'system',
+    content: string
+  ): Promise<LLMMessage> {
+    const threadState = this.getThreadState(threadId);
+
+    const message: LLMMessage = {
+      id: this.nextId('msg'),
+      role,
+      content,
+      created_at: this.now(),
+    };
+    threadState.messages.push(message);
+    threadState.history.push({ role, content } as ChatMessageParam);
+    return message;
+  }
+
+  async listMessages(threadId: string, limit: number = 20): Promise<LLMMessage[]> {
+    // Mesma ordem da OpenAI: mais recentes primeiro
+    return [...this.getThreadState(threadId).messages].reverse().slice(0, limit);
+  }
+
+  async createRun(threadId: string, assistantId: string, socket?: Socket, options: RunCreateOptions = {}): Promise<LLMRun> {
+    const threadState = this.getThreadState(threadId);
+    this.getAgent(assistantId);
+    this.pruneFinishedRuns(threadState);
+
+    const run: LLMRun = {
+      id: this.nextId('run'),
+      thread_id: threadId,
+      assistant_id: assistantId,
+      status: 'queued',
+      created_at: this.now(),
+    };
+
+    this.runs.set(run.id, {
+      run,
+      pendingToolCalls: [],
+      tokenUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      instructions: options.instructions,
+    });
+    threadState.runIds.push(run.id);
+
+    return { ...run };
+  }
+
+  async retrieveRun(threadId: string, runId: string): Promise<LLMRun> {
+    return { ...this.getRunState(threadId, runId).run };
+  }
+
+  /**
+   * Executa um passo do run: uma chamada de chat completion com o histórico atual
+   */
+  private async stepRun(state: LocalRunState, signal?: AbortSignal): Promise<void> {
+    const { run } = state;
+    const threadState = this.getThreadState(run.thread_id);
+    const { config } = this.getAgent(run.assistant_id);
+
+    run.status = 'in_progress';
+    run.started_at = run.started_at || this.now();
+
+    const tools = this.toChatTools(config.tools);
+    const settings = getGenerationSettings(config);
+    const responseFormat = toOpenAIResponseFormat(settings.responseFormat);
+    // Escolhas que obrigam uma tool valem só até a primeira chamada; depois o modelo precisa poder responder
+    const afterToolOutputs = threadState.history[threadState.history.length - 1]?.role === 'tool';
+    const toolChoice = afterToolOutputs && settings.toolChoice !== 'none' ? undefined : settings.toolChoice;
+    const completion = await this.openai.chat.completions.create({
+      model: this.defaultModel || config.model,
+      messages: [
+        { role: 'system', content: state.instructions ?? config.instructions },
+        ...threadState.history,
+      ],
+      ...(tools.length > 0 ? { tools } : {}),
+      ...(tools.length > 0 && toolChoice ? { tool_choice: toOpenAIToolChoice(toolChoice) } : {}),
+      ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+      ...(settings.top_p !== undefined ? { top_p: settings.top_p } : {}),
+      // max_tokens é o parâmetro aceito pela maioria dos servidores compatíveis
+      ...(settings.maxOutputTokens ? { max_tokens: settings.maxOutputTokens } : {}),
+      ...(responseFormat ? { response_format: responseFormat } : {}),
+    }, { signal });
+
+    // O run pode ter sido cancelado enquanto aguardava o servidor
+    if ((run.status as LLMRun['status']) === 'cancelled') {
+      return;
+    }
+
+    if (completion.usage) {
+      state.tokenUsage.promptTokens += completion.usage.prompt_tokens || 0;
+      state.tokenUsage.completionTokens += completion.usage.completion_tokens || 0;
+      state.tokenUsage.totalTokens += completion.usage.total_tokens || 0;
+    }
+
+    const choice = completion.choices[0];
+    if (!choice) {
+      run.status = 'failed';
+      run.failed_at = this.now();
+      run.last_error = { code: 'empty_response', message: 'Servidor não retornou nenhuma resposta' };
+      return;
+    }
+
+    const toolCalls = (choice.message.tool_calls || []).filter((toolCall) => toolCall.type === 'function');
+    if (toolCalls.length > 0) {
+      threadState.history.push({
+        role: 'assistant',
+        content: choice.message.content || null,
+        tool_calls: toolCalls,
+      });
+      state.pendingToolCalls = toolCalls.map((toolCall) => ({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: toolCall.function.arguments,
+      }));
+      run.status = 'requires_action';
+      return;
+    }
+
+    const content = choice.message.content || '';
+    threadState.history.push({ role: 'assistant', content });
+    threadState.messages.push({
+      id: this.nextId('msg'),
+      role: 'assistant',
+      content,
+      created_at: this.now(),
+    });
+
+    run.status = 'completed';
+    run.completed_at = this.now();
+  }
+
+  async waitForRunCompletion(
+    threadId: string,
+    runId: string,
+    socket?: Socket,
+    options: RunExecutionOptions = {}
+  ): Promise<{ message: string; tokenUsage: TokenUsage }> {
+    const state = this.getRunState(threadId, runId);
+    const MAX_ITERATIONS = 100;
+    let iterationCount = 0;
+
+    const throwIfCancelled = async () => {
+      if (options.signal?.aborted) {
+        await this.cancelRun(threadId, runId);
+        throw new RunCancelledError(runId, { ...state.tokenUsage });
+      }
+    };
+
+    while (iterationCount < MAX_ITERATIONS) {
+      iterationCount++;
+      await throwIfCancelled();
+      const { run } = state;
+
+      if (run.status === 'queued' || run.status === 'in_progress') {
+        try {
+          await this.stepRun(state, options.signal);
+        } catch (error: any) {
+          await throwIfCancelled();
+          run.status = 'failed';
+          run.failed_at = this.now();
+          run.last_error = {
+            code: error?.code || 'request_failed',
+            message: error?.message || 'Erro ao chamar o servidor de chat completions',
+          };
+        }
+      }
+
+      if (run.status === 'completed') {
+        const threadState = this.getThreadState(threadId);
+        const assistantMessage = [...threadState.messages].reverse().find((msg) => msg.role === 'assistant');
+        const message = assistantMessage?.content || 'Resposta não disponível.';
+
+        if (socket && assistantMessage) {
+          const messageData = {
+            type: 'assistant',
+            message,
+            messageId: assistantMessage.id,
+            details: {
+              threadId,
+              role: 'assistant',
+              createdAt: assistantMessage.created_at,
+            },
+          };
+          socket.emit('agent_message', messageData);
+          emitToMonitors(socket.id, 'agent_message', messageData);
+        }
+
+        return { message, tokenUsage: { ...state.tokenUsage } };
+      }
+
+      if (run.status === 'failed') {
+        throw new Error(run.last_error?.message || 'Run falhou');
+      }
+
+      if (run.status === 'cancelled' || run.status === 'cancelling') {
+        throw new Error(`Run ${runId} foi cancelado`);
+      }
+
+      if (run.status === 'requires_action') {
+        const outputs = await executeToolCalls(state.pendingToolCalls, runId, socket, { signal: options.signal });
+        await throwIfCancelled();
+        await this.submitToolOutputs(threadId, runId, outputs);
+      }
+    }
+
+    throw new Error(`Run não completou após ${MAX_ITERATIONS} iterações`);
+  }
+
+  async submitToolOutputs(
+    threadId: string,
+    runId: string,
+    toolOutputs: Array<{ tool_call_id: string; output: string }>
+  ): Promise<LLMRun> {
+    const state = this.getRunState(threadId, runId);
+
+    if (state.run.status !== 'requires_action') {
+      throw new Error(`Run ${runId} não está aguardando tool outputs (status: ${state.run.status})`);
+    }
+
+    const threadState = this.getThreadState(threadId);
+    for (const toolOutput of toolOutputs) {
+      threadState.history.push({
+        role: 'tool',
+        tool_call_id: toolOutput.tool_call_id,
+        content: toolOutput.output,
+      });
+    }
+
+    state.pendingToolCalls = [];
+    state.run.status = 'in_progress';
+    return { ...state.run };
+  }
+
+  async listRuns(threadId: string, limit: number = 10): Promise<LLMRun[]> {
+    const threadState = this.getThreadState(threadId);
+    return threadState.runIds
+      .slice()
+      .reverse()
+      .slice(0, limit)
+      .filter((runId) => this.runs.has(runId))
+      .map((runId) => ({ ...this.runs.get(runId)!.run }));
+  }
+
+  async cancelRun(threadId: string, runId: string): Promise<LLMRun> {
+    const state = this.getRunState(threadId, runId);
+    if (state.run.status !== 'completed' && state.run.status !== 'failed') {
+      state.run.status = 'cancelled';
+
+      // Tool calls sem resposta deixariam o histórico inválido para a próxima chamada
+      if (state.pendingToolCalls.length > 0) {
+        const threadState = this.getThreadState(threadId);
+        for (const toolCall of state.pendingToolCalls) {
+          threadState.history.push({
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            content: 'Execução cancelada.',
+          });
+        }
+        state.pendingToolCalls = [];
+      }
+    }
+    return { ...state.run };
+  }
+}
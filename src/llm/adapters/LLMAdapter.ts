@@ -54,6 +54,71 @@ export interface LLMRun {
   };
 }
 
+/**
+ * Opções de execução de um run
+ */
+export interface RunExecutionOptions {
+  /** Sinal para cancelamento iniciado pelo usuário (interrompe o run e tools em execução) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Opções de criação de um run
+ */
+export interface RunCreateOptions {
+  /** Instruções do run (substituem as do agente), ex: instruções com template renderizado */
+  instructions?: string;
+}
+
+/**
+ * Erro lançado quando um run é cancelado pelo usuário
+ *
+ * Carrega o uso de tokens parcial acumulado até o cancelamento.
+ */
+export class RunCancelledError extends Error {
+  runId?: string;
+  tokenUsage: TokenUsage;
+
+  constructor(runId?: string, tokenUsage?: TokenUsage) {
+    super(runId ? `Run ${runId} cancelado pelo usuário` : 'Run cancelado pelo usuário');
+    this.name = 'RunCancelledError';
+    this.runId = runId;
+    this.tokenUsage = tokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  }
+}
+
+/**
+ * Aguarda o intervalo de polling, retornando antes se o run for cancelado
+ */
+export function waitForNextPoll(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Remove uma thread temporária, sem interromper o fluxo se a remoção falhar
+ *
+ * Usado pelo roteador e pelo detector de intenções, que criam uma thread por mensagem,
+ * e pela delegação, que cria uma thread por sub-run.
+ */
+export async function discardThread(llmAdapter: LLMAdapter, threadId: string): Promise<void> {
+  if (!llmAdapter.deleteThread) {
+    return;
+  }
+  try {
+    await llmAdapter.deleteThread(threadId);
+  } catch (error: any) {
+    console.warn(`⚠️ Não foi possível remover a thread temporária ${threadId}: ${error?.message || error}`);
+  }
+}
+
 /**
  * Interface base para adaptadores de LLM
  */
@@ -73,6 +138,14 @@ export interface LLMAdapter {
    */
   getOrCreateAgent(config: AgentConfig): Promise<string>;
 
+  /**
+   * Remove agentes do cache do adaptador (todos, se agentNames não for informado)
+   *
+   * Chamado quando o agents.json é recarregado, para que agentes renomeados,
+   * removidos ou alterados sejam resolvidos novamente no próximo uso.
+   */
+  invalidateAgents?(agentNames?: string[]): void;
+
   /**
    * Cria uma nova thread
    */
@@ -83,6 +156,11 @@ export interface LLMAdapter {
    */
   retrieveThread(threadId: string): Promise<LLMThread>;
 
+  /**
+   * Remove uma thread e seus runs (ex: threads temporárias do roteador e do detector de intenções)
+   */
+  deleteThread?(threadId: string): Promise<void>;
+
   /**
    * Adiciona uma mensagem a uma thread
    */
@@ -96,7 +174,7 @@ export interface LLMAdapter {
   /**
    * Cria e executa um run
    */
-  createRun(threadId: string, assistantId: string, socket?: Socket): Promise<LLMRun>;
+  createRun(threadId: string, assistantId: string, socket?: Socket, options?: RunCreateOptions): Promise<LLMRun>;
 
   /**
    * Obtém o status de um run
@@ -109,7 +187,8 @@ export interface LLMAdapter {
   waitForRunCompletion(
     threadId: string,
     runId: string,
-    socket?: Socket
+    socket?: Socket,
+    options?: RunExecutionOptions
   ): Promise<{ message: string; tokenUsage: TokenUsage }>;
 
   /**
@@ -0,0 +1,455 @@
+/**
+ * Adaptador de LLM simulado (mock)
+ *
+ * Implementa todo o contrato de LLMAdapter em memória, reproduzindo respostas
+ * e tool calls roteirizadas a partir de fixtures. Permite rodar o fluxo completo
+ * (socket, loop de tools, seleção de agentes) sem credenciais e de forma determinística,
+ * útil para desenvolvimento offline e testes end-to-end.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Socket } from 'socket.io';
+import { AgentConfig } from '../../agents/config';
+import { LLMAdapter, LLMThread, LLMMessage, LLMRun, TokenUsage, RunExecutionOptions, RunCancelledError } from './LLMAdapter';
+import { emitToMonitors } from '../../services/monitoringService';
+import { executeToolCalls, PendingToolCall, ToolCallOutput } from './toolCallExecutor';
+
+/**
+ * Tool call roteirizada em uma fixture
+ */
+export interface MockToolCallFixture {
+  /** Nome da tool a ser chamada (ex: 'read_file') */
+  name: string;
+  /** Argumentos da tool */
+  arguments?: Record<string, any>;
+}
+
+/**
+ * Resposta roteirizada para uma combinação de agente + mensagem
+ */
+export interface MockFixture {
+  /** Nome do agente ao qual a fixture se aplica (omitido ou '*' = qualquer agente) */
+  agent?: string;
+  /** Regex (case-insensitive) testada contra a última mensagem do usuário */
+  pattern?: string;
+  /** Resposta final do assistente. Aceita {{message}} e {{toolOutputs}} */
+  response?: string;
+  /** Tool calls solicitadas antes da resposta final */
+  toolCalls?: MockToolCallFixture[];
+  /** Uso de tokens reportado (estimado a partir do texto se omitido) */
+  tokenUsage?: Partial<TokenUsage>;
+  /** Se definido, o run falha com esta mensagem de erro */
+  error?: string;
+}
+
+/**
+ * Formato do arquivo de fixtures (mock-fixtures.json)
+ */
+export interface MockFixturesFile {
+  fixtures: MockFixture[];
+  defaultResponse?: string;
+}
+
+/**
+ * Configuração do adaptador mock
+ */
+export interface MockAdapterConfig {
+  /** Fixtures em memória (têm precedência sobre as do arquivo) */
+  fixtures?: MockFixture[];
+  /** Caminho para um arquivo JSON de fixtures */
+  fixturesPath?: string;
+  /** Resposta usada quando nenhuma fixture corresponde */
+  defaultResponse?: string;
+}
+
+/**
+ * Caminho padrão do arquivo de fixtures (diretório de trabalho)
+ */
+export const DEFAULT_MOCK_FIXTURES_PATH = path.join(process.cwd(), 'mock-fixtures.json');
+
+interface MockThreadState {
+  thread: LLMThread;
+  messages: LLMMessage[];
+  runIds: string[];
+}
+
+interface MockRunState {
+  run: LLMRun;
+  agentName: string;
+  userMessage: string;
+  fixture: MockFixture | null;
+  pendingToolCalls: PendingToolCall[];
+  toolOutputs: ToolCallOutput[] | null;
+  tokenUsage: TokenUsage;
+}
+
+export class MockAdapter implements LLMAdapter {
+  readonly provider = 'mock';
+  private fixtures: MockFixture[];
+  private defaultResponse: string;
+  private agentCache: Map<string, string> = new Map();
+  private agentNames: Map<string, string> = new Map();
+  private threads: Map<string, MockThreadState> = new Map();
+  private runs: Map<string, MockRunState> = new Map();
+  private idCounter = 0;
+
+  constructor(config: MockAdapterConfig = {}) {
+    const fileFixtures = MockAdapter.loadFixturesFile(config.fixturesPath);
+    this.fixtures = [...(config.fixtures || []), ...(fileFixtures?.fixtures || [])];
+    this.defaultResponse =
+      config.defaultResponse ||
+      fileFixtures?.defaultResponse ||
+      '[mock] Resposta simulada para: {{message}}';
+
+    console.log(`🧪 MockAdapter inicializado com ${this.fixtures.length} fixture(s)`);
+  }
+
+  /**
+   * Lê o arquivo de fixtures, retornando null se não existir ou for inválido
+   */
+  private static loadFixturesFile(fixturesPath?: string): MockFixturesFile | null {
+    const filePath = fixturesPath || DEFAULT_MOCK_FIXTURES_PATH;
+
+    if (!fs.existsSync(filePath)) {
+      if (fixturesPath) {
+        console.warn(`⚠️ Arquivo de fixtures do mock não encontrado: ${filePath}`);
+      }
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (!parsed || !Array.isArray(parsed.fixtures)) {
+        console.warn(`⚠️ Arquivo de fixtures inválido (esperado { "fixtures": [...] }): ${filePath}`);
+        return null;
+      }
+      return parsed as MockFixturesFile;
+    } catch (error: any) {
+      console.warn(`⚠️ Erro ao ler fixtures do mock (${filePath}):`, error.message);
+      return null;
+    }
+  }
+
+  private nextId(prefix: string): string {
+    this.idCounter++;
+    return `${prefix}_mock_${Date.now().toString(36)}${this.idCounter}`;
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  private getThreadState(threadId: string): MockThreadState {
+    const state = this.threads.get(threadId);
+    if (!state) {
+      throw new Error(`Thread ${threadId} não encontrada (mock)`);
+    }
+    return state;
+  }
+
+  private getRunState(threadId: string, runId: string): MockRunState {
+    const state = this.runs.get(runId);
+    if (!state || state.run.thread_id !== threadId) {
+      throw new Error(`Run ${runId} não encontrado na thread ${threadId} (mock)`);
+    }
+    return state;
+  }
+
+  /**
+   * Estima tokens a partir do tamanho do texto (~4 caracteres por token)
+   */
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Encontra a primeira fixture que corresponde ao agente e à mensagem
+   */
+  private findFixture(agentName: string, message: string): MockFixture | null {
+    for (const fixture of this.fixtures) {
+      if (fixture.agent && fixture.agent !== '*' && fixture.agent !== agentName) {
+        continue;
+      }
+
+      if (fixture.pattern) {
+        try {
+          if (!new RegExp(fixture.pattern, 'i').test(message)) {
+            continue;
+          }
+        } catch (error) {
+          console.warn(`⚠️ Pattern inválido em fixture do mock: "${fixture.pattern}"`);
+          continue;
+        }
+      }
+
+      return fixture;
+    }
+
+    return null;
+  }
+
+  private renderResponse(template: string, state: MockRunState): string {
+    const toolOutputs = (state.toolOutputs || []).map((output) => output.output).join('\n\n');
+    return template.replace(/\{\{message\}\}/g, state.userMessage).replace(/\{\{toolOutputs\}\}/g, toolOutputs);
+  }
+
+  /**
+   * Avança o run para o próximo estado roteirizado
+   */
+  private advanceRun(state: MockRunState): void {
+    const { run } = state;
+
+    if (run.status !== 'queued' && run.status !== 'in_progress') {
+      return;
+    }
+
+    run.started_at = run.started_at || this.now();
+
+    if (state.fixture?.error) {
+      run.status = 'failed';
+      run.failed_at = this.now();
+      run.last_error = { code: 'mock_error', message: state.fixture.error };
+      return;
+    }
+
+    const scriptedToolCalls = state.fixture?.toolCalls || [];
+    if (scriptedToolCalls.length > 0 && state.toolOutputs === null) {
+      state.pendingToolCalls = scriptedToolCalls.map((toolCall) => ({
+        id: this.nextId('call'),
+        name: toolCall.name,
+        arguments: JSON.stringify(toolCall.arguments || {}),
+      }));
+      run.status = 'requires_action';
+      return;
+    }
+
+    const threadState = this.getThreadState(run.thread_id);
+    const responseTemplate = state.fixture?.response ?? this.defaultResponse;
+    const content = this.renderResponse(responseTemplate, state);
+
+    threadState.messages.push({
+      id: this.nextId('msg'),
+      role: 'assistant',
+      content,
+      created_at: this.now(),
+    });
+
+    const promptText = threadState.messages
+      .slice(0, -1)
+      .map((msg) => msg.content)
+      .join('\n');
+    const promptTokens = state.fixture?.tokenUsage?.promptTokens ?? this.estimateTokens(promptText);
+    const completionTokens = state.fixture?.tokenUsage?.completionTokens ?? this.estimateTokens(content);
+    state.tokenUsage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: state.fixture?.tokenUsage?.totalTokens ?? promptTokens + completionTokens,
+    };
+
+    run.status = 'completed';
+    run.completed_at = this.now();
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async getOrCreateAgent(config: AgentConfig): Promise<string> {
+    const cachedId = this.agentCache.get(config.name);
+    if (cachedId) {
+      return cachedId;
+    }
+
+    const agentId = this.nextId('asst');
+    this.agentCache.set(config.name, agentId);
+    this.agentNames.set(agentId, config.name);
+    return agentId;
+  }
+
+  invalidateAgents(agentNames?: string[]): void {
+    if (!agentNames) {
+      this.agentCache.clear();
+      return;
+    }
+    agentNames.forEach((name) => this.agentCache.delete(name));
+  }
+
+  async createThread(metadata?: Record<string, any>): Promise<LLMThread> {
+    const thread: LLMThread = {
+      id: this.nextId('thread'),
+      created_at: this.now(),
+      metadata,
+    };
+    this.threads.set(thread.id, { thread, messages: [], runIds: [] });
+    return thread;
+  }
+
+  async retrieveThread(threadId: string): Promise<LLMThread> {
+    return this.getThreadState(threadId).thread;
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    const threadState = this.threads.get(threadId);
+    if (!threadState) {
+      return;
+    }
+    threadState.runIds.forEach((runId) => this.runs.delete(runId));
+    this.threads.delete(threadId);
+  }
+
+  async addMessage(
+    threadId: string,
+    role: 'user' | 'assistant' | 'system',
+    content: string
+  ): Promise<LLMMessage> {
+    const threadState = this.getThreadState(threadId);
+
+    const message: LLMMessage = {
+      id: this.nextId('msg'),
+      role,
+      content,
+      created_at: this.now(),
+    };
+    threadState.messages.push(message);
+    return message;
+  }
+
+  async listMessages(threadId: string, limit: number = 20): Promise<LLMMessage[]> {
+    // Mesma ordem da OpenAI: mais recentes primeiro
+    return [...this.getThreadState(threadId).messages].reverse().slice(0, limit);
+  }
+
+  async createRun(threadId: string, assistantId: string, socket?: Socket): Promise<LLMRun> {
+    const threadState = this.getThreadState(threadId);
+    const agentName = this.agentNames.get(assistantId) || assistantId;
+    const lastUserMessage = [...threadState.messages].reverse().find((msg) => msg.role === 'user');
+    const userMessage = lastUserMessage?.content || '';
+
+    const run: LLMRun = {
+      id: this.nextId('run'),
+      thread_id: threadId,
+      assistant_id: assistantId,
+      status: 'queued',
+      created_at: this.now(),
+    };
+
+    const fixture = this.findFixture(agentName, userMessage);
+    if (!fixture) {
+      console.log(`🧪 Nenhuma fixture para agente "${agentName}", usando resposta padrão do mock`);
+    }
+
+    this.runs.set(run.id, {
+      run,
+      agentName,
+      userMessage,
+      fixture,
+      pendingToolCalls: [],
+      toolOutputs: null,
+      tokenUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    });
+    threadState.runIds.push(run.id);
+
+    return { ...run };
+  }
+
+  async retrieveRun(threadId: string, runId: string): Promise<LLMRun> {
+    return { ...this.getRunState(threadId, runId).run };
+  }
+
+  async waitForRunCompletion(
+    threadId: string,
+    runId: string,
+    socket?: Socket,
+    options: RunExecutionOptions = {}
+  ): Promise<{ message: string; tokenUsage: TokenUsage }> {
+    const state = this.getRunState(threadId, runId);
+    const MAX_ITERATIONS = 100;
+    let iterationCount = 0;
+
+    while (iterationCount < MAX_ITERATIONS) {
+      iterationCount++;
+      if (options.signal?.aborted) {
+        await this.cancelRun(threadId, runId);
+        throw new RunCancelledError(runId, { ...state.tokenUsage });
+      }
+
+      this.advanceRun(state);
+      const { run } = state;
+
+      if (run.status === 'completed') {
+        const threadState = this.getThreadState(threadId);
+        const assistantMessage = [...threadState.messages].reverse().find((msg) => msg.role === 'assistant');
+        const message = assistantMessage?.content || 'Resposta não disponível.';
+
+        if (socket && assistantMessage) {
+          const messageData = {
+            type: 'assistant',
+            message,
+            messageId: assistantMessage.id,
+            details: {
+              threadId,
+              role: 'assistant',
+              createdAt: assistantMessage.created_at,
+            },
+          };
+          socket.emit('agent_message', messageData);
+          emitToMonitors(socket.id, 'agent_message', messageData);
+        }
+
+        return { message, tokenUsage: { ...state.tokenUsage } };
+      }
+
+      if (run.status === 'failed') {
+        throw new Error(run.last_error?.message || 'Run falhou');
+      }
+
+      if (run.status === 'cancelled' || run.status === 'cancelling') {
+        throw new Error(`Run ${runId} foi cancelado`);
+      }
+
+      if (run.status === 'requires_action') {
+        const outputs = await executeToolCalls(state.pendingToolCalls, runId, socket, { signal: options.signal });
+        if (!options.signal?.aborted) {
+          await this.submitToolOutputs(threadId, runId, outputs);
+        }
+      }
+    }
+
+    throw new Error(`Run não completou após ${MAX_ITERATIONS} iterações`);
+  }
+
+  async submitToolOutputs(
+    threadId: string,
+    runId: string,
+    toolOutputs: Array<{ tool_call_id: string; output: string }>
+  ): Promise<LLMRun> {
+    const state = this.getRunState(threadId, runId);
+
+    if (state.run.status !== 'requires_action') {
+      throw new Error(`Run ${runId} não está aguardando tool outputs (status: ${state.run.status})`);
+    }
+
+    state.toolOutputs = toolOutputs;
+    state.pendingToolCalls = [];
+    state.run.status = 'in_progress';
+    return { ...state.run };
+  }
+
+  async listRuns(threadId: string, limit: number = 10): Promise<LLMRun[]> {
+    const threadState = this.getThreadState(threadId);
+    return threadState.runIds
+      .slice()
+      .reverse()
+      .slice(0, limit)
+      .map((runId) => ({ ...this.runs.get(runId)!.run }));
+  }
+
+  async cancelRun(threadId: string, runId: string): Promise<LLMRun> {
+    const state = this.getRunState(threadId, runId);
+    if (state.run.status !== 'completed' && state.run.status !== 'failed') {
+      state.run.status = 'cancelled';
+    }
+    return { ...state.run };
+  }
+}
@@ -3,41 +3,124 @@
  */
 
 import OpenAI from 'openai';
+import { AssistantStream } from 'openai/lib/AssistantStream';
+import { AssistantStreamEvent } from 'openai/resources/beta/assistants';
 import { Socket } from 'socket.io';
 import { AgentConfig } from '../../agents/config';
-import { LLMAdapter, LLMThread, LLMMessage, LLMRun, TokenUsage } from './LLMAdapter';
-import { executeTool } from '../../agents/agentManager';
+import { LLMAdapter, LLMThread, LLMMessage, LLMRun, TokenUsage, RunCreateOptions, RunExecutionOptions, RunCancelledError, waitForNextPoll } from './LLMAdapter';
 import { emitToMonitors } from '../../services/monitoringService';
-import { formatActionMessage } from '../../utils/functionDescriptions';
+import { executeToolCalls, PendingToolCall } from './toolCallExecutor';
+import { AgentGenerationSettings, getGenerationSettings, toOpenAIResponseFormat, toOpenAIToolChoice } from '../generationSettings';
+
+/**
+ * Opções do adaptador OpenAI
+ */
+export interface OpenAIAdapterOptions {
+  /** Usa a API de streaming de runs quando há socket (padrão: true) */
+  streaming?: boolean;
+}
+
+/**
+ * Stream de run aberto em createRun e consumido em waitForRunCompletion
+ */
+interface ActiveRunStream {
+  stream: AssistantStream;
+  iterator: AsyncIterator<AssistantStreamEvent>;
+  /** Erro emitido pelo stream (conexão, parse), reportado ao consumir */
+  error?: Error;
+}
 
 export class OpenAIAdapter implements LLMAdapter {
   readonly provider = 'openai';
   private openai: OpenAI;
   private agentCache: Map<string, string> = new Map();
+  private agentSettings: Map<string, AgentGenerationSettings> = new Map(); // ID do assistant -> parâmetros de geração
+  private agentSignatures: Map<string, string> = new Map(); // Nome do agente -> parâmetros aplicados ao assistant (JSON)
+  private streaming: boolean;
+  private activeStreams: Map<string, ActiveRunStream> = new Map();
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: OpenAIAdapterOptions = {}) {
     if (!apiKey) {
       throw new Error('OpenAI API key é obrigatória');
     }
     this.openai = new OpenAI({ apiKey });
+    this.streaming = options.streaming !== false;
+  }
+
+  /**
+   * Converte um run da API para o formato LLMRun
+   */
+  private toLLMRun(run: OpenAI.Beta.Threads.Run): LLMRun {
+    return {
+      id: run.id,
+      thread_id: run.thread_id,
+      assistant_id: run.assistant_id,
+      status: run.status as any,
+      created_at: run.created_at,
+      started_at: run.started_at || undefined,
+      completed_at: run.completed_at || undefined,
+      failed_at: run.failed_at || undefined,
+      last_error: run.last_error
+        ? {
+            code: run.last_error.code || 'unknown',
+            message: run.last_error.message || 'Unknown error',
+          }
+        : undefined,
+    };
   }
 
   isConfigured(): boolean {
     return !!this.openai;
   }
 
+  /**
+   * Parâmetros do assistant derivados da configuração do agente
+   *
+   * Parâmetros removidos do agents.json voltam ao padrão (null/auto) no assistant existente.
+   */
+  private toAssistantParams(config: AgentConfig): OpenAI.Beta.AssistantUpdateParams & { model: string } {
+    const settings = getGenerationSettings(config);
+    return {
+      model: config.model,
+      tools: config.tools,
+      instructions: config.instructions,
+      temperature: settings.temperature ?? null,
+      top_p: settings.top_p ?? null,
+      response_format: toOpenAIResponseFormat(settings.responseFormat) ?? 'auto',
+    };
+  }
+
+  /**
+   * Parâmetros aplicados por run (não existem no assistant)
+   */
+  private toRunParams(assistantId: string, options: RunCreateOptions = {}) {
+    const settings = this.agentSettings.get(assistantId) || {};
+    return {
+      // Instruções renderizadas por thread substituem as do assistant apenas neste run
+      ...(options.instructions ? { instructions: options.instructions } : {}),
+      ...(settings.maxOutputTokens ? { max_completion_tokens: settings.maxOutputTokens } : {}),
+      ...(settings.toolChoice ? { tool_choice: toOpenAIToolChoice(settings.toolChoice) } : {}),
+    };
+  }
+
   async getOrCreateAgent(config: AgentConfig): Promise<string> {
-    // Verifica cache
+    const assistantParams = this.toAssistantParams(config);
+    const signature = JSON.stringify(assistantParams);
+
+    // Verifica cache (o assistant só é atualizado se os parâmetros mudaram)
     if (this.agentCache.has(config.name)) {
       const cachedId = this.agentCache.get(config.name)!;
+      if (this.agentSignatures.get(config.name) === signature) {
+        return cachedId;
+      }
       try {
-        await this.openai.beta.assistants.update(cachedId, {
-          tools: config.tools,
-          instructions: config.instructions,
-        });
+        await this.openai.beta.assistants.update(cachedId, assistantParams);
+        this.agentSettings.set(cachedId, getGenerationSettings(config));
+        this.agentSignatures.set(config.name, signature);
         return cachedId;
       } catch (error) {
         this.agentCache.delete(config.name);
+        this.agentSignatures.delete(config.name);
       }
     }
 
@@ -47,11 +130,10 @@ export class OpenAIAdapter implements LLMAdapter {
       const existing = assistants.data.find((a) => a.name === config.name);
 
       if (existing) {
-        await this.openai.beta.assistants.update(existing.id, {
-          tools: config.tools,
-          instructions: config.instructions,
-        });
+        await this.openai.beta.assistants.update(existing.id, assistantParams);
         this.agentCache.set(config.name, existing.id);
+        this.agentSettings.set(existing.id, getGenerationSettings(config));
+        this.agentSignatures.set(config.name, signature);
         return existing.id;
       }
     } catch (error) {
@@ -61,15 +143,27 @@ export class OpenAIAdapter implements LLMAdapter {
     // Cria novo
     const assistant = await this.openai.beta.assistants.create({
       name: config.name,
-      instructions: config.instructions,
-      model: config.model,
-      tools: config.tools,
+      ...assistantParams,
     });
 
     this.agentCache.set(config.name, assistant.id);
+    this.agentSettings.set(assistant.id, getGenerationSettings(config));
+    this.agentSignatures.set(config.name, signature);
     return assistant.id;
   }
 
+  invalidateAgents(agentNames?: string[]): void {
+    if (!agentNames) {
+      this.agentCache.clear();
+      this.agentSignatures.clear();
+      return;
+    }
+    agentNames.forEach((name) => {
+      this.agentCache.delete(name);
+      this.agentSignatures.delete(name);
+    });
+  }
+
   async createThread(metadata?: Record<string, any>): Promise<LLMThread> {
     const thread = await this.openai.beta.threads.create({ metadata });
     return {
@@ -79,6 +173,10 @@ export class OpenAIAdapter implements LLMAdapter {
     };
   }
 
+  async deleteThread(threadId: string): Promise<void> {
+    await this.openai.beta.threads.del(threadId);
+  }
+
   async retrieveThread(threadId: string): Promise<LLMThread> {
     const thread = await this.openai.beta.threads.retrieve(threadId);
     return {
@@ -93,26 +191,7 @@ export class OpenAIAdapter implements LLMAdapter {
     role: 'user' | 'assistant' | 'system',
     content: string
   ): Promise<LLMMessage> {
-    // Verifica se há runs ativos antes de adicionar mensagem
-    const activeRuns = await this.listRuns(threadId, 10);
-    const runningRuns = activeRuns.filter(
-      run => run.status === 'queued' || run.status === 'in_progress' || run.status === 'requires_action'
-    );
-
-    // Cancela runs ativos para permitir adicionar nova mensagem
-    if (runningRuns.length > 0) {
-      console.log(`⚠️ Encontrado(s) ${runningRuns.length} run(s) ativo(s) na thread ${threadId}. Cancelando...`);
-      for (const run of runningRuns) {
-        try {
-          await this.cancelRun(threadId, run.id);
-          console.log(`✅ Run ${run.id} cancelado`);
-        } catch (error: any) {
-          console.warn(`⚠️ Erro ao cancelar run ${run.id}:`, error.message);
-        }
-      }
-      // Aguarda um pouco para garantir que o cancelamento foi processado
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    }
+    // Runs ativos não são cancelados aqui: o messageService serializa as mensagens por thread
 
     // OpenAI não aceita 'system' em mensagens de thread, apenas 'user' e 'assistant'
     const openaiRole = role === 'system' ? 'user' : role;
@@ -143,60 +222,252 @@ export class OpenAIAdapter implements LLMAdapter {
     });
   }
 
-  async createRun(threadId: string, assistantId: string, socket?: Socket): Promise<LLMRun> {
+  async createRun(threadId: string, assistantId: string, socket?: Socket, options: RunCreateOptions = {}): Promise<LLMRun> {
+    if (this.streaming && socket) {
+      return this.createStreamingRun(threadId, assistantId, options);
+    }
+
     const run = await this.openai.beta.threads.runs.create(threadId, {
       assistant_id: assistantId,
+      ...this.toRunParams(assistantId, options),
     });
 
-    return {
-      id: run.id,
-      thread_id: run.thread_id,
-      assistant_id: run.assistant_id,
-      status: run.status as any,
-      created_at: run.created_at,
-      started_at: run.started_at || undefined,
-      completed_at: run.completed_at || undefined,
-      failed_at: run.failed_at || undefined,
-      last_error: run.last_error
-        ? {
-            code: run.last_error.code || 'unknown',
-            message: run.last_error.message || 'Unknown error',
-          }
-        : undefined,
+    return this.toLLMRun(run);
+  }
+
+  /**
+   * Prepara um stream para consumo via iterator, capturando erros
+   * (sem listener, o SDK transforma erros do stream em unhandled rejections)
+   */
+  private trackStream(stream: AssistantStream, target?: ActiveRunStream): ActiveRunStream {
+    const activeStream: ActiveRunStream = target || ({} as ActiveRunStream);
+    activeStream.stream = stream;
+    activeStream.iterator = stream[Symbol.asyncIterator]();
+    activeStream.error = undefined;
+    stream.on('error', (error) => {
+      activeStream.error = error;
+    });
+    return activeStream;
+  }
+
+  /**
+   * Cria um run usando a API de streaming e aguarda o evento de criação
+   *
+   * O restante do stream fica pendente e é consumido em waitForRunCompletion.
+   */
+  private async createStreamingRun(threadId: string, assistantId: string, options: RunCreateOptions): Promise<LLMRun> {
+    const stream = this.openai.beta.threads.runs.stream(threadId, {
+      assistant_id: assistantId,
+      ...this.toRunParams(assistantId, options),
+    });
+    const activeStream = this.trackStream(stream);
+
+    while (true) {
+      const { value: event, done } = await activeStream.iterator.next();
+      if (done) {
+        throw activeStream.error || new Error('Stream encerrado antes da criação do run');
+      }
+      if (event.event === 'error') {
+        throw new Error(event.data.message || 'Erro no stream do run');
+      }
+      if (event.event === 'thread.run.created') {
+        this.activeStreams.set(event.data.id, activeStream);
+        return this.toLLMRun(event.data);
+      }
+    }
+  }
+
+  /**
+   * Consome o stream de um run emitindo `response_delta` para o socket e monitores
+   *
+   * Trata tool calls reabrindo o stream com submitToolOutputsStream até o run terminar.
+   */
+  private async consumeRunStream(
+    threadId: string,
+    runId: string,
+    activeStream: ActiveRunStream,
+    socket?: Socket,
+    signal?: AbortSignal
+  ): Promise<{ message: string; tokenUsage: TokenUsage }> {
+    const emitEvent = (event: string, data: any) => {
+      if (!socket) return;
+      socket.emit(event, data);
+      emitToMonitors(socket.id, event, data);
+    };
+
+    const emitDelta = (data: Record<string, any>) => {
+      emitEvent('response_delta', { threadId, runId, ...data });
     };
+
+    let lastMessage = '';
+    const startedToolCalls = new Set<string>();
+
+    // Cancelamento: interrompe a conexão do stream atual (o run é cancelado na API pelo runService)
+    const onAbort = () => activeStream.stream.abort();
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort);
+    }
+
+    try {
+      while (true) {
+        const { value: event, done } = await activeStream.iterator.next();
+        if (done) {
+          throw activeStream.error || new Error(`Stream do run ${runId} encerrado sem conclusão`);
+        }
+
+        switch (event.event) {
+          case 'thread.message.delta': {
+            for (const part of event.data.delta.content || []) {
+              if (part.type === 'text' && part.text?.value) {
+                emitDelta({ type: 'text', messageId: event.data.id, delta: part.text.value });
+              }
+            }
+            break;
+          }
+
+          case 'thread.message.completed': {
+            const text = event.data.content
+              .map((c: any) => (c.type === 'text' ? c.text.value : ''))
+              .join('');
+            if (text) {
+              lastMessage = text;
+              emitEvent('agent_message', {
+                type: 'assistant',
+                message: text,
+                messageId: event.data.id,
+                details: {
+                  threadId,
+                  role: 'assistant',
+                  createdAt: event.data.created_at,
+                },
+              });
+            }
+            break;
+          }
+
+          case 'thread.run.step.delta': {
+            const stepDetails = event.data.delta.step_details;
+            if (stepDetails?.type === 'tool_calls') {
+              for (const toolCall of stepDetails.tool_calls || []) {
+                if (toolCall.type !== 'function' || !toolCall.id || startedToolCalls.has(toolCall.id)) {
+                  continue;
+                }
+                startedToolCalls.add(toolCall.id);
+                emitDelta({
+                  type: 'tool_call_start',
+                  toolCallId: toolCall.id,
+                  functionName: toolCall.function?.name,
+                });
+              }
+            }
+            break;
+          }
+
+          case 'thread.run.requires_action': {
+            const toolCalls: PendingToolCall[] = (event.data.required_action?.submit_tool_outputs?.tool_calls || [])
+              .filter((toolCall) => toolCall.type === 'function')
+              .map((toolCall) => ({
+                id: toolCall.id,
+                name: toolCall.function.name,
+                arguments: toolCall.function.arguments,
+              }));
+
+            const toolOutputs = await executeToolCalls(toolCalls, runId, socket, { signal });
+            if (signal?.aborted) {
+              throw new RunCancelledError(runId);
+            }
+
+            for (const toolCall of toolCalls) {
+              const output = toolOutputs.find((o) => o.tool_call_id === toolCall.id);
+              emitDelta({
+                type: 'tool_call_finish',
+                toolCallId: toolCall.id,
+                functionName: toolCall.name,
+                success: !!output && !output.output.startsWith('Erro:'),
+              });
+            }
+
+            // O stream atual termina em requires_action; continua no stream de submissão
+            const nextStream = this.openai.beta.threads.runs.submitToolOutputsStream(threadId, runId, {
+              tool_outputs: toolOutputs,
+            });
+            this.trackStream(nextStream, activeStream);
+            break;
+          }
+
+          case 'thread.run.completed': {
+            const usage = event.data.usage;
+            return {
+              message: lastMessage || 'Resposta não disponível.',
+              tokenUsage: {
+                promptTokens: usage?.prompt_tokens || 0,
+                completionTokens: usage?.completion_tokens || 0,
+                totalTokens: usage?.total_tokens || 0,
+              },
+            };
+          }
+
+          case 'thread.run.failed':
+            throw new Error(event.data.last_error?.message || 'Run falhou');
+
+          case 'thread.run.cancelled':
+          case 'thread.run.expired':
+          case 'thread.run.incomplete':
+            throw new Error(`Run ${runId} terminou com status ${event.data.status}`);
+
+          case 'error':
+            throw new Error(event.data.message || 'Erro no stream do run');
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        // A API só informa o uso de tokens ao final do run; no streaming não há uso parcial
+        throw new RunCancelledError(runId);
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
   }
 
   async retrieveRun(threadId: string, runId: string): Promise<LLMRun> {
     const run = await this.openai.beta.threads.runs.retrieve(threadId, runId);
-    return {
-      id: run.id,
-      thread_id: run.thread_id,
-      assistant_id: run.assistant_id,
-      status: run.status as any,
-      created_at: run.created_at,
-      started_at: run.started_at || undefined,
-      completed_at: run.completed_at || undefined,
-      failed_at: run.failed_at || undefined,
-      last_error: run.last_error
-        ? {
-            code: run.last_error.code || 'unknown',
-            message: run.last_error.message || 'Unknown error',
-          }
-        : undefined,
-    };
+    return this.toLLMRun(run);
   }
 
   async waitForRunCompletion(
     threadId: string,
     runId: string,
-    socket?: Socket
+    socket?: Socket,
+    options: RunExecutionOptions = {}
   ): Promise<{ message: string; tokenUsage: TokenUsage }> {
+    const activeStream = this.activeStreams.get(runId);
+    if (activeStream) {
+      try {
+        return await this.consumeRunStream(threadId, runId, activeStream, socket, options.signal);
+      } finally {
+        this.activeStreams.delete(runId);
+      }
+    }
+
     let iterationCount = 0;
     const MAX_ITERATIONS = 100;
     let totalPromptTokens = 0;
     let totalCompletionTokens = 0;
     let totalTokens = 0;
 
+    const throwIfCancelled = () => {
+      if (options.signal?.aborted) {
+        throw new RunCancelledError(runId, {
+          promptTokens: totalPromptTokens,
+          completionTokens: totalCompletionTokens,
+          totalTokens,
+        });
+      }
+    };
+
     const seenAssistantMessageIds = new Set<string>();
 
     const emitEvent = (event: string, data: any) => {
@@ -266,6 +537,7 @@ export class OpenAIAdapter implements LLMAdapter {
 
     while (iterationCount < MAX_ITERATIONS) {
       iterationCount++;
+      throwIfCancelled();
       const run = await this.openai.beta.threads.runs.retrieve(threadId, runId);
 
       if (run.usage) {
@@ -339,116 +611,30 @@ export class OpenAIAdapter implements LLMAdapter {
         throw new Error(run.last_error?.message || 'Run falhou');
       }
 
-      if (run.status === 'requires_action') {
-        const toolCalls = run.required_action?.submit_tool_outputs?.tool_calls || [];
-
-        const toolCallsInfo = toolCalls
-          .map((toolCall) => {
-            if (toolCall.type !== 'function') return null;
-            let parsedArgs: any = {};
-            try {
-              parsedArgs = JSON.parse(toolCall.function.arguments || '{}');
-            } catch (error) {
-              parsedArgs = { raw: toolCall.function.arguments };
-            }
-            return {
-              toolCallId: toolCall.id,
-              functionName: toolCall.function.name,
-              arguments: parsedArgs,
-              rawArguments: toolCall.function.arguments,
-            };
-          })
-          .filter((item): item is NonNullable<typeof item> => item !== null);
-
-        if (toolCallsInfo.length > 0) {
-          emitEvent('agent_message', {
-            type: 'function_calls',
-            toolCalls: toolCallsInfo,
-            details: {
-              runId,
-              toolCallsCount: toolCalls.length,
-            },
-          });
-        }
-
-        const toolOutputs = await Promise.all(
-          toolCalls.map(async (toolCall) => {
-            if (toolCall.type !== 'function') return null;
-
-            const functionName = toolCall.function.name;
-            let args: any = {};
-
-            try {
-              args = JSON.parse(toolCall.function.arguments || '{}');
-            } catch (error) {
-              args = { raw: toolCall.function.arguments };
-            }
-
-            const actionMessage = formatActionMessage(functionName, args);
-            emitEvent('agent_action', {
-              action: actionMessage,
-              functionName,
-              args,
-            });
-
-            const startTime = Date.now();
-            const rawResult = await executeTool(functionName, args, socket);
-            const result =
-              typeof rawResult === 'string' ? rawResult : JSON.stringify(rawResult, null, 2);
-            const executionTime = Date.now() - startTime;
-            const success = !result.startsWith('Erro:');
-
-            emitEvent('agent_message', {
-              type: 'function_result',
-              functionName,
-              arguments: args,
-              result,
-              executionTime,
-              details: {
-                toolCallId: toolCall.id,
-                success,
-              },
-            });
-
-            emitEvent('agent_action_complete', {
-              action: actionMessage,
-              success,
-              result: result.substring(0, 500),
-            });
-
-            return {
-              tool_call_id: toolCall.id,
-              output: result,
-            };
-          })
-        );
+      // Ex: limite de maxOutputTokens atingido
+      if (run.status === 'incomplete' || run.status === 'expired') {
+        const reason = run.incomplete_details?.reason;
+        throw new Error(`Run ${runId} terminou com status ${run.status}${reason ? ` (${reason})` : ''}`);
+      }
 
-        const validOutputs = toolOutputs.filter((o): o is NonNullable<typeof o> => o !== null);
+      if (run.status === 'requires_action') {
+        const toolCalls: PendingToolCall[] = (run.required_action?.submit_tool_outputs?.tool_calls || [])
+          .filter((toolCall) => toolCall.type === 'function')
+          .map((toolCall) => ({
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: toolCall.function.arguments,
+          }));
 
-        emitEvent('agent_action', {
-          action: '⚙️ Processando resultados...',
-          functionName: 'processing',
-        });
-
-        emitEvent('agent_message', {
-          type: 'function_outputs',
-          outputs: validOutputs.map((output) => ({
-            toolCallId: output.tool_call_id,
-            output: output.output.substring(0, 1000) + (output.output.length > 1000 ? '...' : ''),
-            outputLength: output.output.length,
-          })),
-          details: {
-            runId,
-            outputsCount: validOutputs.length,
-          },
-        });
+        const toolOutputs = await executeToolCalls(toolCalls, runId, socket, { signal: options.signal });
+        throwIfCancelled();
 
         await this.openai.beta.threads.runs.submitToolOutputs(threadId, runId, {
-          tool_outputs: validOutputs,
+          tool_outputs: toolOutputs,
         });
       }
 
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await waitForNextPoll(1000, options.signal);
     }
 
     throw new Error(`Run não completou após ${MAX_ITERATIONS} iterações`);
@@ -467,41 +653,12 @@ export class OpenAIAdapter implements LLMAdapter {
 
   async listRuns(threadId: string, limit: number = 10): Promise<LLMRun[]> {
     const runs = await this.openai.beta.threads.runs.list(threadId, { limit });
-    return runs.data.map((run) => ({
-      id: run.id,
-      thread_id: run.thread_id,
-      assistant_id: run.assistant_id,
-      status: run.status as any,
-      created_at: run.created_at,
-      started_at: run.started_at || undefined,
-      completed_at: run.completed_at || undefined,
-      failed_at: run.failed_at || undefined,
-      last_error: run.last_error
-        ? {
-            code: run.last_error.code || 'unknown',
-            message: run.last_error.message || 'Unknown error',
-          }
-        : undefined,
-    }));
+    return runs.data.map((run) => this.toLLMRun(run));
   }
 
   async cancelRun(threadId: string, runId: string): Promise<LLMRun> {
     const run = await this.openai.beta.threads.runs.cancel(threadId, runId);
-    return {
-      id: run.id,
-      thread_id: run.thread_id,
-      assistant_id: run.assistant_id,
-      status: run.status as any,
-      created_at: run.created_at,
-      started_at: run.started_at || undefined,
-      completed_at: run.completed_at || undefined,
-      failed_at: run.failed_at || undefined,
-      last_error: run.last_error
-        ? {
-            code: run.last_error.code || 'unknown',
-            message: run.last_error.message || 'Unknown error',
-          }
-        : undefined,
-    };
+    return this.toLLMRun(run);
   }
 }
+
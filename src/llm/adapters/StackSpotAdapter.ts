@@ -2,13 +2,15 @@
  * Adaptador para StackSpot SDK
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { Socket } from 'socket.io';
 import { AgentConfig } from '../../agents/config';
-import { LLMAdapter, LLMThread, LLMMessage, LLMRun, TokenUsage } from './LLMAdapter';
+import { LLMAdapter, LLMThread, LLMMessage, LLMRun, TokenUsage, RunExecutionOptions, RunCancelledError, waitForNextPoll } from './LLMAdapter';
 import { executeTool } from '../../agents/agentManager';
 import { emitToMonitors } from '../../services/monitoringService';
 import StackSpotSDK from 'stackspotdelsuc-sdk';
 import { StackSpotProxyConfig } from '../../types/stackspot';
+import { AgentGenerationSettings, getGenerationSettings, toOpenAIResponseFormat } from '../generationSettings';
 
 // Importação do StackSpot SDK via pacote npm
 const StackSpotClass: any = (StackSpotSDK as any)?.default ?? StackSpotSDK;
@@ -19,6 +21,20 @@ if (!StackSpotClass) {
   );
 }
 
+/**
+ * Contexto do run visto pelo toolExecutor do SDK
+ *
+ * O SDK executa as tools sem informar o run que as disparou. As chamadas ao SDK
+ * de createRun/waitForRunCompletion rodam dentro deste contexto, de modo que as
+ * tools recebem o socket do run (aprovações, saída do terminal) e o sinal de cancelamento.
+ */
+interface StackSpotRunContext {
+  socket?: Socket;
+  signal?: AbortSignal;
+}
+
+const runContextStorage = new AsyncLocalStorage<StackSpotRunContext>();
+
 export interface StackSpotConfig {
   clientId: string;
   clientSecret: string;
@@ -30,15 +46,17 @@ export class StackSpotAdapter implements LLMAdapter {
   readonly provider = 'stackspot';
   private stackspot: any;
   private agentCache: Map<string, string> = new Map();
+  private agentSettings: Map<string, AgentGenerationSettings> = new Map(); // ID do agente -> parâmetros de geração
 
   constructor(config: StackSpotConfig) {
     if (!config.clientId || !config.clientSecret) {
       throw new Error('StackSpot clientId e clientSecret são obrigatórios');
     }
     
-    // Cria tool executor que conecta ao executeTool do servidor
+    // Cria tool executor que conecta ao executeTool do servidor, com o socket e o sinal do run em execução
     const toolExecutor = async (functionName: string, args: Record<string, any>): Promise<string> => {
-      return await executeTool(functionName, args);
+      const runContext = runContextStorage.getStore();
+      return await executeTool(functionName, args, runContext?.socket, { signal: runContext?.signal });
     };
     
     const proxyConfig = StackSpotAdapter.sanitizeProxyConfig(config.proxy);
@@ -158,13 +176,26 @@ export class StackSpotAdapter implements LLMAdapter {
       console.log(`✅ Usando StackSpot Agent ID: ${agentId} para agente "${config.name}"`);
     }
     
+    const settings = getGenerationSettings(config);
     if (!this.agentCache.has(config.name)) {
       this.agentCache.set(config.name, agentId);
+      if (settings.toolChoice) {
+        console.warn(`⚠️ "toolChoice" não é suportado pelo StackSpot (as tools são executadas pelo SDK). Ignorado para o agente "${config.name}"`);
+      }
     }
+    this.agentSettings.set(agentId, settings);
     
     return agentId;
   }
 
+  invalidateAgents(agentNames?: string[]): void {
+    if (!agentNames) {
+      this.agentCache.clear();
+      return;
+    }
+    agentNames.forEach((name) => this.agentCache.delete(name));
+  }
+
   async createThread(metadata?: Record<string, any>): Promise<LLMThread> {
     const thread = await this.stackspot.beta.threads.create({ metadata });
     return {
@@ -188,32 +219,7 @@ export class StackSpotAdapter implements LLMAdapter {
     role: 'user' | 'assistant' | 'system',
     content: string
   ): Promise<LLMMessage> {
-    // Verifica se há runs ativos antes de adicionar mensagem
-    try {
-      const activeRuns = await this.listRuns(threadId, 10);
-      const runningRuns = activeRuns.filter(
-        run => run.status === 'queued' || run.status === 'in_progress' || run.status === 'requires_action'
-      );
-
-      // Cancela runs ativos para permitir adicionar nova mensagem
-      if (runningRuns.length > 0) {
-        console.log(`⚠️ Encontrado(s) ${runningRuns.length} run(s) ativo(s) na thread ${threadId}. Cancelando...`);
-        for (const run of runningRuns) {
-          try {
-            await this.cancelRun(threadId, run.id);
-            console.log(`✅ Run ${run.id} cancelado`);
-          } catch (error: any) {
-            console.warn(`⚠️ Erro ao cancelar run ${run.id}:`, error.message);
-          }
-        }
-        // Aguarda um pouco para garantir que o cancelamento foi processado
-        await new Promise((resolve) => setTimeout(resolve, 500));
-      }
-    } catch (error: any) {
-      // Se não conseguir listar runs (pode não estar implementado no StackSpot), continua
-      console.warn(`⚠️ Não foi possível verificar runs ativos: ${error.message}`);
-    }
-
+    // Runs ativos não são cancelados aqui: o messageService serializa as mensagens por thread
     const message = await this.stackspot.beta.threads.messages.create(threadId, {
       role,
       content,
@@ -238,10 +244,19 @@ export class StackSpotAdapter implements LLMAdapter {
   }
 
   async createRun(threadId: string, assistantId: string, socket?: Socket): Promise<LLMRun> {
-    const run = await this.stackspot.beta.threads.runs.create(threadId, {
-      assistant_id: assistantId,
-      stream: false,
-    });
+    // Modelo e prompt ficam no painel do StackSpot; os parâmetros de amostragem e formato seguem no run
+    const settings = this.agentSettings.get(assistantId) || {};
+    const responseFormat = toOpenAIResponseFormat(settings.responseFormat);
+    const run = await runContextStorage.run({ socket }, () =>
+      this.stackspot.beta.threads.runs.create(threadId, {
+        assistant_id: assistantId,
+        stream: false,
+        ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+        ...(settings.top_p !== undefined ? { top_p: settings.top_p } : {}),
+        ...(settings.maxOutputTokens ? { max_completion_tokens: settings.maxOutputTokens } : {}),
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      })
+    );
 
     return {
       id: run.id,
@@ -274,7 +289,20 @@ export class StackSpotAdapter implements LLMAdapter {
   async waitForRunCompletion(
     threadId: string,
     runId: string,
-    socket?: Socket
+    socket?: Socket,
+    options: RunExecutionOptions = {}
+  ): Promise<{ message: string; tokenUsage: TokenUsage }> {
+    // Tools executadas pelo SDK durante o polling recebem o socket e o sinal deste run
+    return runContextStorage.run({ socket, signal: options.signal }, () =>
+      this.pollRunCompletion(threadId, runId, socket, options)
+    );
+  }
+
+  private async pollRunCompletion(
+    threadId: string,
+    runId: string,
+    socket: Socket | undefined,
+    options: RunExecutionOptions
   ): Promise<{ message: string; tokenUsage: TokenUsage }> {
     let iterationCount = 0;
     const MAX_ITERATIONS = 60; // Aumentado para 60 para dar tempo ao follow-up run
@@ -342,6 +370,11 @@ export class StackSpotAdapter implements LLMAdapter {
 
     while (iterationCount < MAX_ITERATIONS) {
       iterationCount++;
+      // As tools são executadas pelo próprio SDK (toolExecutor), que recebe o sinal via runContextStorage;
+      // o cancelamento interrompe o polling e o run é cancelado na API pelo runService
+      if (options.signal?.aborted) {
+        throw new RunCancelledError(runId);
+      }
       const run = await this.stackspot.beta.threads.runs.retrieve(threadId, runId);
 
       if (socket) {
@@ -382,7 +415,7 @@ export class StackSpotAdapter implements LLMAdapter {
         throw new Error(errorMsg);
       }
 
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await waitForNextPoll(1000, options.signal);
     }
 
     throw new Error(`Run não completou após ${MAX_ITERATIONS} iterações`);
@@ -0,0 +1,142 @@
+/**
+ * Execução de tool calls para adaptadores que controlam o próprio loop de run
+ *
+ * Reproduz a mesma sequência de eventos emitida pelo OpenAIAdapter
+ * (function_calls → agent_action → function_result → agent_action_complete → function_outputs)
+ * para que o frontend e os monitores recebam o mesmo formato independentemente do provider.
+ */
+
+import { Socket } from 'socket.io';
+import { executeTool, ToolExecutionOptions } from '../../agents/agentManager';
+import { emitToMonitors } from '../../services/monitoringService';
+import { formatActionMessage } from '../../utils/functionDescriptions';
+
+/**
+ * Tool call pendente (formato compatível com o `required_action` da OpenAI)
+ */
+export interface PendingToolCall {
+  id: string;
+  name: string;
+  /** Argumentos serializados em JSON */
+  arguments: string;
+}
+
+/**
+ * Output de uma tool call pronto para ser submetido ao run
+ */
+export interface ToolCallOutput {
+  tool_call_id: string;
+  output: string;
+}
+
+/**
+ * Faz o parse dos argumentos de uma tool call sem lançar erro
+ */
+export function parseToolArguments(rawArguments: string | undefined): any {
+  try {
+    return JSON.parse(rawArguments || '{}');
+  } catch (error) {
+    return { raw: rawArguments };
+  }
+}
+
+/**
+ * Executa as tool calls de um run emitindo os eventos de progresso para o socket e monitores
+ *
+ * @param toolCalls - Tool calls solicitadas pelo modelo
+ * @param runId - ID do run que solicitou as tools
+ * @param socket - Socket opcional para streaming dos eventos
+ * @param options - Opções repassadas às tools (ex: sinal de cancelamento)
+ * @returns Outputs na ordem das tool calls
+ */
+export async function executeToolCalls(
+  toolCalls: PendingToolCall[],
+  runId: string,
+  socket?: Socket,
+  options: ToolExecutionOptions = {}
+): Promise<ToolCallOutput[]> {
+  const emitEvent = (event: string, data: any) => {
+    if (!socket) return;
+    socket.emit(event, data);
+    emitToMonitors(socket.id, event, data);
+  };
+
+  if (toolCalls.length > 0) {
+    emitEvent('agent_message', {
+      type: 'function_calls',
+      toolCalls: toolCalls.map((toolCall) => ({
+        toolCallId: toolCall.id,
+        functionName: toolCall.name,
+        arguments: parseToolArguments(toolCall.arguments),
+        rawArguments: toolCall.arguments,
+      })),
+      details: {
+        runId,
+        toolCallsCount: toolCalls.length,
+      },
+    });
+  }
+
+  const outputs = await Promise.all(
+    toolCalls.map(async (toolCall) => {
+      const functionName = toolCall.name;
+      const args = parseToolArguments(toolCall.arguments);
+
+      const actionMessage = formatActionMessage(functionName, args);
+      emitEvent('agent_action', {
+        action: actionMessage,
+        functionName,
+        args,
+      });
+
+      const startTime = Date.now();
+      const rawResult = await executeTool(functionName, args, socket, options);
+      const result = typeof rawResult === 'string' ? rawResult : JSON.stringify(rawResult, null, 2);
+      const executionTime = Date.now() - startTime;
+      const success = !result.startsWith('Erro:');
+
+      emitEvent('agent_message', {
+        type: 'function_result',
+        functionName,
+        arguments: args,
+        result,
+        executionTime,
+        details: {
+          toolCallId: toolCall.id,
+          success,
+        },
+      });
+
+      emitEvent('agent_action_complete', {
+        action: actionMessage,
+        success,
+        result: result.substring(0, 500),
+      });
+
+      return {
+        tool_call_id: toolCall.id,
+        output: result,
+      };
+    })
+  );
+
+  emitEvent('agent_action', {
+    action: '⚙️ Processando resultados...',
+    functionName: 'processing',
+  });
+
+  emitEvent('agent_message', {
+    type: 'function_outputs',
+    outputs: outputs.map((output) => ({
+      toolCallId: output.tool_call_id,
+      output: output.output.substring(0, 1000) + (output.output.length > 1000 ? '...' : ''),
+      outputLength: output.output.length,
+    })),
+    details: {
+      runId,
+      outputsCount: outputs.length,
+    },
+  });
+
+  return outputs;
+}
@@ -0,0 +1,73 @@
+/**
+ * Conversão dos parâmetros de geração dos agentes para os formatos dos provedores
+ */
+
+import OpenAI from 'openai';
+import { AgentConfig, AgentResponseFormat, AgentToolChoice } from '../agents/config';
+
+/**
+ * Parâmetros de geração configurados no agente
+ */
+export interface AgentGenerationSettings {
+  temperature?: number;
+  top_p?: number;
+  maxOutputTokens?: number;
+  responseFormat?: AgentResponseFormat;
+  toolChoice?: AgentToolChoice;
+}
+
+/**
+ * Extrai os parâmetros de geração de um agente
+ */
+export function getGenerationSettings(config: AgentConfig): AgentGenerationSettings {
+  return {
+    temperature: config.temperature,
+    top_p: config.top_p,
+    maxOutputTokens: config.maxOutputTokens,
+    responseFormat: config.responseFormat,
+    toolChoice: config.toolChoice,
+  };
+}
+
+/**
+ * Converte `responseFormat` para o formato da API da OpenAI
+ *
+ * @returns {OpenAI.ResponseFormatText | OpenAI.ResponseFormatJSONObject | OpenAI.ResponseFormatJSONSchema | undefined} Formato da API (undefined se não configurado)
+ */
+export function toOpenAIResponseFormat(
+  format?: AgentResponseFormat
+): OpenAI.ResponseFormatText | OpenAI.ResponseFormatJSONObject | OpenAI.ResponseFormatJSONSchema | undefined {
+  if (!format) {
+    return undefined;
+  }
+  if (typeof format === 'string') {
+    return { type: format };
+  }
+  if (format.type === 'json_schema') {
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: format.name,
+        schema: format.schema,
+        strict: format.strict ?? true,
+        ...(format.description ? { description: format.description } : {}),
+      },
+    };
+  }
+  return { type: format.type };
+}
+
+/**
+ * Converte `toolChoice` para o formato da API da OpenAI (Assistants e Chat Completions)
+ */
+export function toOpenAIToolChoice(
+  toolChoice?: AgentToolChoice
+): 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } } | undefined {
+  if (!toolChoice) {
+    return undefined;
+  }
+  if (typeof toolChoice === 'string') {
+    return toolChoice;
+  }
+  return { type: 'function', function: { name: toolChoice.name } };
+}
@@ -8,32 +8,53 @@
 import { Router, Request, Response } from 'express';
 import { Server } from 'socket.io';
 import { getAllConnections, getConnection } from '../services/connectionService';
-import { getAgentsConfig } from '../agents/config';
-import { getGroupsInfo, getMainSelector, getFallbackAgent } from '../agents/agentLoader';
+import { getAgentsConfig, loadAgentsConfig, explainAgentSelection } from '../agents/config';
+import { getGroupsInfo, getMainSelector, getFallbackAgent, lintAgentsFile } from '../agents/agentLoader';
 import {
   AgentCrudError,
   AgentCreatePayload,
   AgentUpdatePayload,
+  BundleImportOptions,
   createAgent,
+  createGroup,
+  DEFAULT_REVISION_AUTHOR,
   deleteAgent,
+  deleteGroup,
   deleteGroupOrchestrator,
+  deleteMainSelector,
+  deleteToolSet,
+  exportAgentsBundle,
   getAgentsHierarchy,
+  getAgentsRevisionDiff,
+  getToolSets,
+  GroupCreatePayload,
+  GroupUpdatePayload,
+  importAgentsBundle,
+  PriorityReorderPayload,
+  reorderAgentPriorities,
+  reorderGroups,
+  restoreAgentsRevision,
   updateAgent,
+  updateGroup,
   upsertFallbackAgent,
   upsertGroupOrchestrator,
+  upsertMainSelector,
+  upsertToolSet,
 } from '../agents/agentCrudService';
 import { loadTokens } from '../storage/tokenStorage';
+import { listAgentsRevisions } from '../storage/agentsRevisionStorage';
 import { loadLogs } from '../storage/logStorage';
 import { clearConversation, loadConversation } from '../storage/conversationStorage';
 import { getCurrentLLMProvider } from '../services/llmService';
 import { loadConfigFromJson, saveConfigToJson, AppConfig } from '../config/env';
 import { validateLLMCredentials } from '../validation/credentialValidator';
-import { updateLLMConfig, initializeLLMAdapter, getLLMAdapter } from '../services/llmService';
+import { updateLLMConfig, initializeLLMAdapter, getLLMAdapter, getProviderDisplayName } from '../services/llmService';
 import { LLMProvider } from '../types';
 import { LLMAdapter } from '../llm/adapters/LLMAdapter';
 import { AgentManager } from '../agents/agentManager';
 import { initializeAgents } from '../agents/config';
 import { setThreadId } from '../services/threadService';
+import { cancelActiveRun } from '../services/runService';
 import { StackSpotProxyConfig, StackSpotProxyEndpoint } from '../types/stackspot';
 
 /**
@@ -58,12 +79,17 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
    */
   const handleAgentError = (res: Response, error: unknown) => {
     if (error instanceof AgentCrudError) {
-      return res.status(error.status).json({ error: error.message });
+      return res.status(error.status).json({ error: error.message, ...(error.details ? { details: error.details } : {}) });
     }
     console.error('Erro inesperado ao manipular agentes:', error);
     return res.status(500).json({ error: 'Erro interno ao manipular agentes.' });
   };
 
+  /**
+   * Autor das alterações no agents.json (header X-Author)
+   */
+  const getRequestAuthor = (req: Request): string => req.get('X-Author')?.trim() || DEFAULT_REVISION_AUTHOR;
+
   const buildStackspotProxySummary = (proxy?: StackSpotProxyConfig) => {
     if (!proxy) {
       return { enabled: false };
@@ -407,6 +433,268 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
     }
   });
 
+  /**
+   * API: Lista o histórico de revisões do agents.json (mais recentes primeiro)
+   */
+  app.get('/api/agents/revisions', (_req: Request, res: Response) => {
+    const revisions = listAgentsRevisions();
+    res.json({ total: revisions.length, revisions });
+  });
+
+  /**
+   * API: Diff campo a campo de uma revisão (?compareTo=current compara com o arquivo atual)
+   */
+  app.get('/api/agents/revisions/:id/diff', async (req: Request, res: Response) => {
+    try {
+      const compareTo = req.query.compareTo === 'current' ? 'current' : 'previous';
+      const diff = await getAgentsRevisionDiff(req.params.id, compareTo);
+      res.json(diff);
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Restaura o agents.json para uma revisão e recarrega os agentes
+   */
+  app.post('/api/agents/revisions/:id/restore', async (req: Request, res: Response) => {
+    try {
+      const result = await restoreAgentsRevision(req.params.id, getRequestAuthor(req));
+      res.json({ success: true, ...result });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Valida o agents.json (estrutura e checagens semânticas)
+   */
+  app.get('/api/agents/lint', async (_req: Request, res: Response) => {
+    try {
+      const report = await lintAgentsFile();
+      res.json(report);
+    } catch (error: any) {
+      console.error('Erro ao validar agents.json:', error);
+      res.status(500).json({ error: error.message || 'Erro ao validar agents.json' });
+    }
+  });
+
+  /**
+   * API: Simula a seleção de agente para uma mensagem (sem chamar o LLM)
+   *
+   * Retorna o agente que selectAgentSync escolheria e o trace completo da avaliação.
+   */
+  app.post('/api/agents/route-preview', async (req: Request, res: Response) => {
+    try {
+      const { message } = req.body || {};
+      if (typeof message !== 'string' || !message.trim()) {
+        return res.status(400).json({ error: 'Campo "message" é obrigatório' });
+      }
+
+      const agents = await loadAgentsConfig();
+      if (agents.length === 0) {
+        return res.status(503).json({ error: 'Nenhum agente carregado. Verifique o arquivo agents.json' });
+      }
+
+      const { agent, trace } = explainAgentSelection(message);
+      const agentAny = agent as any;
+      const mainSelector = getMainSelector(agents);
+
+      res.json({
+        message,
+        agent: {
+          name: agent.name,
+          role: agentAny.role || 'agent',
+          groupId: agentAny.groupId || null,
+          groupName: agentAny.groupName || null,
+          priority: agentAny.priority ?? 999,
+        },
+        // No modo "llm" o Main Selector pode escolher outro agente; este preview mostra apenas as regras
+        routingMode: (mainSelector as any)?.routing?.mode || 'rules',
+        selectedBy: trace.selectedBy,
+        specialCases: trace.specialCases,
+        steps: trace.steps,
+      });
+    } catch (error: any) {
+      console.error('Erro ao simular seleção de agente:', error);
+      res.status(500).json({ error: error.message || 'Erro ao simular seleção de agente' });
+    }
+  });
+
+  /**
+   * API: Exporta um grupo (?groupId=) ou a hierarquia completa como bundle.
+   */
+  app.get('/api/agents/export', async (req: Request, res: Response) => {
+    try {
+      const groupId = typeof req.query.groupId === 'string' ? req.query.groupId : undefined;
+      const bundle = await exportAgentsBundle(groupId);
+      res.setHeader('Content-Disposition', `attachment; filename="agents-bundle-${groupId || 'all'}.json"`);
+      res.json(bundle);
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Importa um bundle ({ bundle, mode, onConflict, dryRun }).
+   */
+  app.post('/api/agents/import', async (req: Request, res: Response) => {
+    try {
+      const { bundle, ...options } = (req.body || {}) as BundleImportOptions & { bundle?: unknown };
+      const result = await importAgentsBundle(bundle, options, getRequestAuthor(req));
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Cria um novo grupo de agentes.
+   */
+  app.post('/api/agents/groups', async (req: Request, res: Response) => {
+    try {
+      const payload = req.body as GroupCreatePayload;
+      const group = await createGroup(payload, getRequestAuthor(req));
+      res.status(201).json(group);
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Reordena os grupos ({ groupIds: [...] }).
+   */
+  app.post('/api/agents/groups/reorder', async (req: Request, res: Response) => {
+    try {
+      const groups = await reorderGroups(req.body?.groupIds, getRequestAuthor(req));
+      res.json({
+        success: true,
+        groupIds: groups.map((group) => group.id),
+      });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Atualiza ou renomeia um grupo.
+   */
+  app.put('/api/agents/groups/:groupId', async (req: Request, res: Response) => {
+    try {
+      const { groupId } = req.params;
+      const updates = req.body as GroupUpdatePayload;
+      const group = await updateGroup(groupId, updates, getRequestAuthor(req));
+      res.json(group);
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Remove um grupo (?force=true remove também os agentes do grupo).
+   */
+  app.delete('/api/agents/groups/:groupId', async (req: Request, res: Response) => {
+    try {
+      const { groupId } = req.params;
+      const force = req.query.force === 'true';
+      const group = await deleteGroup(groupId, force, getRequestAuthor(req));
+      res.json({
+        success: true,
+        removedAgents: group.agents.map((agent) => agent.name),
+      });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Cria ou atualiza o Main Selector.
+   */
+  app.put('/api/agents/main-selector', async (req: Request, res: Response) => {
+    try {
+      const mainSelector = await upsertMainSelector(req.body, getRequestAuthor(req));
+      res.json({
+        success: true,
+        mainSelector,
+      });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Remove o Main Selector.
+   */
+  app.delete('/api/agents/main-selector', async (req: Request, res: Response) => {
+    try {
+      await deleteMainSelector(getRequestAuthor(req));
+      res.json({ success: true });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Lista os toolSets.
+   */
+  app.get('/api/agents/tool-sets', async (_req: Request, res: Response) => {
+    try {
+      const toolSets = await getToolSets();
+      res.json({ toolSets });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Cria ou atualiza um toolSet ({ tools: [...] }).
+   */
+  app.put('/api/agents/tool-sets/:name', async (req: Request, res: Response) => {
+    try {
+      const name = decodeURIComponent(req.params.name);
+      const result = await upsertToolSet(name, req.body?.tools, getRequestAuthor(req));
+      res.status(result.created ? 201 : 200).json({
+        success: true,
+        name: result.name,
+        tools: result.tools,
+      });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Remove um toolSet que não esteja em uso.
+   */
+  app.delete('/api/agents/tool-sets/:name', async (req: Request, res: Response) => {
+    try {
+      const name = decodeURIComponent(req.params.name);
+      await deleteToolSet(name, getRequestAuthor(req));
+      res.json({ success: true });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
+  /**
+   * API: Atualiza as prioridades de vários agentes de uma vez.
+   */
+  app.put('/api/agents/priorities', async (req: Request, res: Response) => {
+    try {
+      const payload = req.body as PriorityReorderPayload;
+      const priorities = await reorderAgentPriorities(payload, getRequestAuthor(req));
+      res.json({
+        success: true,
+        priorities,
+      });
+    } catch (error) {
+      handleAgentError(res, error);
+    }
+  });
+
   /**
    * API: Cria um novo agente em um grupo.
    */
@@ -414,7 +702,7 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
     try {
       const { groupId } = req.params;
       const payload = req.body as AgentCreatePayload;
-      const created = await createAgent(groupId, payload);
+      const created = await createAgent(groupId, payload, getRequestAuthor(req));
       res.status(201).json(created);
     } catch (error) {
       handleAgentError(res, error);
@@ -429,7 +717,7 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
       const { groupId } = req.params;
       const agentName = decodeURIComponent(req.params.agentName);
       const updates = req.body as AgentUpdatePayload;
-      const updated = await updateAgent(groupId, agentName, updates);
+      const updated = await updateAgent(groupId, agentName, updates, getRequestAuthor(req));
       res.json(updated);
     } catch (error) {
       handleAgentError(res, error);
@@ -443,7 +731,7 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
     try {
       const { groupId } = req.params;
       const payload = req.body as AgentCreatePayload;
-      const orchestrator = await upsertGroupOrchestrator(groupId, payload);
+      const orchestrator = await upsertGroupOrchestrator(groupId, payload, getRequestAuthor(req));
       res.json({
         success: true,
         orchestrator,
@@ -459,7 +747,7 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
   app.delete('/api/agents/groups/:groupId/orchestrator', async (req: Request, res: Response) => {
     try {
       const { groupId } = req.params;
-      await deleteGroupOrchestrator(groupId);
+      await deleteGroupOrchestrator(groupId, getRequestAuthor(req));
       res.json({ success: true });
     } catch (error) {
       handleAgentError(res, error);
@@ -472,7 +760,7 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
   app.put('/api/agents/fallback', async (req: Request, res: Response) => {
     try {
       const payload = req.body as AgentUpdatePayload;
-      const fallbackAgent = await upsertFallbackAgent(payload);
+      const fallbackAgent = await upsertFallbackAgent(payload, getRequestAuthor(req));
       res.json({
         success: true,
         fallbackAgent,
@@ -489,7 +777,7 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
     try {
       const { groupId } = req.params;
       const agentName = decodeURIComponent(req.params.agentName);
-      await deleteAgent(groupId, agentName);
+      await deleteAgent(groupId, agentName, getRequestAuthor(req));
       res.json({ success: true });
     } catch (error) {
       handleAgentError(res, error);
@@ -560,6 +848,28 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
     }
   });
 
+  /**
+   * API: Cancela o run em andamento de uma thread
+   */
+  app.post('/api/conversations/:threadId/cancel', async (req: Request, res: Response) => {
+    try {
+      const { threadId } = req.params;
+      const cancelledRun = await cancelActiveRun(threadId, deps.getLLMAdapter() || undefined);
+      if (!cancelledRun) {
+        return res.status(404).json({ error: 'Nenhum run em andamento para esta thread' });
+      }
+      res.json({
+        success: true,
+        threadId,
+        runId: cancelledRun.runId || null,
+        agentName: cancelledRun.agentName || null
+      });
+    } catch (error: any) {
+      console.error('Erro ao cancelar run:', error);
+      res.status(500).json({ error: 'Erro ao cancelar run' });
+    }
+  });
+
   /**
    * API: Carrega conversa de uma thread
    */
@@ -627,6 +937,15 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
         llmProvider: config?.llmProvider || 'stackspot',
         openai: openaiConfig,
         stackspot: stackspotConfig,
+        openaiCompatible: {
+          configured: !!config?.openaiCompatibleBaseUrl,
+          baseUrl: config?.openaiCompatibleBaseUrl || null,
+          model: config?.openaiCompatibleModel || null,
+          hasApiKey: !!config?.openaiCompatibleApiKey
+        },
+        mock: {
+          fixturesPath: config?.mockFixturesPath || null
+        },
         port: config?.port || 3000,
         lastUpdated: config?.lastUpdated || null
       });
@@ -648,12 +967,17 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
         stackspotClientSecret,
         stackspotRealm,
         stackspotProxy,
+        openaiCompatibleBaseUrl,
+        openaiCompatibleApiKey,
+        openaiCompatibleModel,
+        mockFixturesPath,
         port
       } = req.body;
       
       // Valida provider
-      if (!llmProvider || (llmProvider !== 'openai' && llmProvider !== 'stackspot')) {
-        return res.status(400).json({ error: 'Provider deve ser "openai" ou "stackspot"' });
+      const supportedProviders: LLMProvider[] = ['openai', 'stackspot', 'openai-compatible', 'mock'];
+      if (!llmProvider || !supportedProviders.includes(llmProvider)) {
+        return res.status(400).json({ error: 'Provider deve ser "openai", "stackspot", "openai-compatible" ou "mock"' });
       }
       
       // Valida credenciais apenas do provider que está sendo configurado
@@ -686,11 +1010,14 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
       if (llmProvider === 'stackspot' && !stackspotClientId && !existingConfig.stackspotClientId) {
         return res.status(400).json({ error: 'StackSpot Client ID e Client Secret são obrigatórios. Forneça as credenciais para configurar o StackSpot.' });
       }
+      if (llmProvider === 'openai-compatible' && !openaiCompatibleBaseUrl && !existingConfig.openaiCompatibleBaseUrl) {
+        return res.status(400).json({ error: 'Base URL é obrigatória. Informe a URL do servidor compatível com OpenAI (ex: http://localhost:8080/v1).' });
+      }
       
       // Atualiza configuração preservando todas as credenciais existentes
       const newConfig: AppConfig = {
         ...existingConfig,
-        llmProvider: llmProvider as 'openai' | 'stackspot',
+        llmProvider: llmProvider as LLMProvider,
         port: port || existingConfig.port || 3000
       };
       
@@ -713,6 +1040,33 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
         }
         // Mantém credenciais do OpenAI se existirem
         // (não remove mais)
+      } else if (llmProvider === 'openai-compatible') {
+        if (typeof openaiCompatibleBaseUrl === 'string' && openaiCompatibleBaseUrl.trim()) {
+          newConfig.openaiCompatibleBaseUrl = openaiCompatibleBaseUrl.trim();
+        }
+        // API key e modelo são opcionais; string vazia remove o valor salvo
+        if (typeof openaiCompatibleApiKey === 'string') {
+          if (openaiCompatibleApiKey.trim()) {
+            newConfig.openaiCompatibleApiKey = openaiCompatibleApiKey.trim();
+          } else {
+            delete newConfig.openaiCompatibleApiKey;
+          }
+        }
+        if (typeof openaiCompatibleModel === 'string') {
+          if (openaiCompatibleModel.trim()) {
+            newConfig.openaiCompatibleModel = openaiCompatibleModel.trim();
+          } else {
+            delete newConfig.openaiCompatibleModel;
+          }
+        }
+      } else if (llmProvider === 'mock') {
+        if (typeof mockFixturesPath === 'string') {
+          if (mockFixturesPath.trim()) {
+            newConfig.mockFixturesPath = mockFixturesPath.trim();
+          } else {
+            delete newConfig.mockFixturesPath;
+          }
+        }
       }
 
       if (stackspotProxy !== undefined) {
@@ -781,7 +1135,7 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
               setThreadId(socket.id, thread.id);
               
               // Emite mensagem de sucesso
-              const providerName = llmProvider === 'openai' ? 'OpenAI' : 'StackSpot';
+              const providerName = getProviderDisplayName(llmProvider as LLMProvider);
               socket.emit('config_saved', {
                 type: 'config_saved',
                 message: `✅ ${providerName} configurado com sucesso!`,
@@ -803,6 +1157,8 @@ export function setupApiRoutes(app: Router, deps: ApiRoutesDependencies): void {
         credentialPreview = newConfig.openaiApiKey.substring(0, 7) + '...' + newConfig.openaiApiKey.substring(newConfig.openaiApiKey.length - 4);
       } else if (llmProvider === 'stackspot' && newConfig.stackspotClientId) {
         credentialPreview = newConfig.stackspotClientId.substring(0, 8) + '...' + newConfig.stackspotClientId.substring(newConfig.stackspotClientId.length - 4);
+      } else if (llmProvider === 'openai-compatible' && newConfig.openaiCompatibleBaseUrl) {
+        credentialPreview = newConfig.openaiCompatibleBaseUrl;
       }
       
       res.json({
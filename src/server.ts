@@ -19,6 +19,9 @@ import { AgentManager } from './agents/agentManager';
 import { loadEnvironmentVariables, validateRequiredEnvVars, getEnvAsNumber, logEnvironmentInfo, loadConfigFromJson } from './config/env';
 import { isRunningUnderNodemon, getShutdownConfig, gracefulShutdown as performGracefulShutdown } from './utils/serverHelpers';
 import { initializeAgents } from './agents/config';
+import { loadToolModules, resolveToolsDirectory } from './tools/toolRegistry';
+import { stopAllMcpServers } from './services/mcpService';
+import { registerAgentsReloadHandler, startAgentsWatcher, stopAgentsWatcher, AgentsWatcherDependencies } from './services/agentsWatcherService';
 import { LLMAdapter } from './llm/adapters/LLMAdapter';
 import { initializeLLMAdapter, getLLMAdapter } from './services/llmService';
 import { initializeSocketHandlers, updateAdapterAndManager } from './handlers/socketHandlers';
@@ -89,6 +92,9 @@ if (llmAdapter) {
   console.warn('⚠️ AgentManager não inicializado - LLM adapter não configurado');
 }
 
+// Carrega tools externas antes dos agentes, que referenciam as tools pelo nome
+loadToolModules(resolveToolsDirectory(initialConfigSnapshot?.toolsDirectory));
+
 // Inicializa agentes (carrega do JSON e faz cache na inicialização)
 // Só inicializa se tiver llmAdapter configurado
 if (llmAdapter) {
@@ -123,6 +129,19 @@ const apiDeps: ApiRoutesDependencies = {
 setupApiRoutes(apiRouter, apiDeps);
 app.use(apiRouter);
 
+// Recarregamentos do agents.json invalidam caches de agentes e notificam os clientes
+const agentsWatcherDeps: AgentsWatcherDependencies = {
+  io,
+  getLLMAdapter: () => getLLMAdapter(),
+  getAgentManager,
+};
+registerAgentsReloadHandler(agentsWatcherDeps);
+
+// Hot reload: observa alterações do agents.json no disco
+if (initialConfigSnapshot?.watchAgentsFile !== false) {
+  startAgentsWatcher(agentsWatcherDeps);
+}
+
 // Nota: Threads, conexões, tokens e monitoramento agora são gerenciados pelos serviços:
 // - src/services/threadService.ts
 // - src/services/connectionService.ts  
@@ -198,6 +217,10 @@ const shutdownConfig = getShutdownConfig(isNodemon);
 async function handleShutdown(signal: string): Promise<void> {
   console.log(`\n${signal} recebido. Fechando servidor...`);
   
+  // Encerra os processos dos servidores MCP e o watcher do agents.json
+  stopAllMcpServers();
+  stopAgentsWatcher();
+  
   await performGracefulShutdown(httpServer, io, shutdownConfig);
   
   process.exit(isNodemon && signal === 'SIGTERM' ? 0 : 1);
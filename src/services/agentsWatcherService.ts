@@ -0,0 +1,211 @@
+/**
+ * Serviço de hot reload do agents.json
+ *
+ * Observa o arquivo agents.json e, após um intervalo de debounce, valida o novo
+ * conteúdo e recarrega os agentes somente se o arquivo for válido. A cada
+ * recarregamento (pelo watcher ou pela API de CRUD), invalida o cache dos
+ * agentes alterados/removidos e emite `agents_reloaded` para todos os sockets.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Server } from 'socket.io';
+import { AgentConfig, onAgentsConfigReloaded, reloadAgentsConfig } from '../agents/config';
+import { AGENTS_JSON_PATH, lintAgentsFile } from '../agents/agentLoader';
+import { AgentManager } from '../agents/agentManager';
+import { LLMAdapter } from '../llm/adapters/LLMAdapter';
+import { saveLog } from '../storage/logStorage';
+
+/**
+ * Intervalo padrão de debounce (editores e cópias geram vários eventos por gravação)
+ */
+const DEFAULT_DEBOUNCE_MS = 500;
+
+/**
+ * Dependências do watcher
+ */
+export interface AgentsWatcherDependencies {
+  io: Server;
+  getLLMAdapter: () => LLMAdapter | undefined;
+  getAgentManager: () => AgentManager | undefined;
+}
+
+/**
+ * Diferença entre duas configurações de agentes
+ */
+export interface AgentsConfigChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+let watcher: fs.FSWatcher | null = null;
+let debounceTimer: NodeJS.Timeout | null = null;
+let lastContentHash: string | null = null;
+let listenerRegistered = false;
+
+/**
+ * Campos que, quando alterados, exigem resolver o agente novamente no provedor
+ */
+function getAgentSignature(agent: AgentConfig): string {
+  const agentAny = agent as any;
+  return JSON.stringify({
+    description: agent.description,
+    instructions: agent.instructions,
+    model: agent.model,
+    tools: agent.tools,
+    temperature: agent.temperature,
+    top_p: agent.top_p,
+    maxOutputTokens: agent.maxOutputTokens,
+    responseFormat: agent.responseFormat,
+    toolChoice: agent.toolChoice,
+    stackspotAgentId: agentAny.stackspotAgentId,
+  });
+}
+
+/**
+ * Compara duas configurações de agentes pelo nome
+ */
+export function diffAgentsConfig(previous: AgentConfig[], next: AgentConfig[]): AgentsConfigChanges {
+  const previousByName = new Map(previous.map(agent => [agent.name, agent]));
+  const nextByName = new Map(next.map(agent => [agent.name, agent]));
+
+  return {
+    added: next.filter(agent => !previousByName.has(agent.name)).map(agent => agent.name),
+    removed: previous.filter(agent => !nextByName.has(agent.name)).map(agent => agent.name),
+    changed: next
+      .filter(agent => previousByName.has(agent.name) && getAgentSignature(previousByName.get(agent.name)!) !== getAgentSignature(agent))
+      .map(agent => agent.name),
+  };
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+function readContentHash(): string | null {
+  try {
+    return hashContent(fs.readFileSync(AGENTS_JSON_PATH, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Valida e recarrega o agents.json após uma alteração no disco
+ */
+async function handleFileChange(deps: AgentsWatcherDependencies): Promise<void> {
+  const contentHash = readContentHash();
+
+  // Arquivo removido/em gravação ou conteúdo já carregado (ex: escrita feita pela API de CRUD)
+  if (!contentHash || contentHash === lastContentHash) {
+    return;
+  }
+
+  const report = await lintAgentsFile();
+  if (!report.valid) {
+    lastContentHash = contentHash;
+    const errors = report.issues.filter(issue => issue.severity === 'error');
+    console.error(`❌ agents.json alterado, mas inválido (${errors.length} erro(s)). Configuração anterior mantida.`);
+
+    deps.io.emit('agents_reload_failed', {
+      errors,
+      timestamp: new Date().toISOString(),
+    });
+    saveLog({
+      type: 'error',
+      error: 'Hot reload do agents.json rejeitado: arquivo inválido',
+      metadata: { source: 'file_watcher', issues: errors },
+    });
+    return;
+  }
+
+  console.log('🔄 agents.json alterado no disco. Recarregando agentes...');
+  await reloadAgentsConfig('file_watcher');
+}
+
+/**
+ * Registra o listener de recarregamento (invalidação de cache e broadcast)
+ *
+ * Vale para qualquer recarregamento, inclusive os feitos pela API de CRUD.
+ */
+export function registerAgentsReloadHandler(deps: AgentsWatcherDependencies): void {
+  if (listenerRegistered) return;
+  listenerRegistered = true;
+
+  onAgentsConfigReloaded((previous, next, source) => {
+    lastContentHash = readContentHash();
+
+    const changes = diffAgentsConfig(previous, next);
+    const staleAgents = [...changes.removed, ...changes.changed];
+
+    if (staleAgents.length > 0) {
+      deps.getAgentManager()?.invalidateAgents(staleAgents);
+      deps.getLLMAdapter()?.invalidateAgents?.(staleAgents);
+    }
+
+    console.log(
+      `✅ Agentes recarregados (${source}): ${next.length} agente(s)` +
+      ` | +${changes.added.length} -${changes.removed.length} ~${changes.changed.length}`
+    );
+
+    deps.io.emit('agents_reloaded', {
+      source,
+      agents: next.map(agent => agent.name),
+      ...changes,
+      timestamp: new Date().toISOString(),
+    });
+    saveLog({
+      type: 'monitoring',
+      metadata: { event: 'agents_reloaded', source, ...changes },
+    });
+  });
+}
+
+/**
+ * Inicia o watcher do agents.json
+ *
+ * Observa o diretório do arquivo (e não o arquivo em si), pois cópias e editores
+ * costumam substituir o arquivo, o que invalidaria um watch direto.
+ *
+ * @param {AgentsWatcherDependencies} deps - Socket.IO e acesso ao adaptador/AgentManager atuais
+ * @param {number} debounceMs - Intervalo de debounce em milissegundos
+ */
+export function startAgentsWatcher(deps: AgentsWatcherDependencies, debounceMs: number = DEFAULT_DEBOUNCE_MS): void {
+  registerAgentsReloadHandler(deps);
+
+  if (watcher) return;
+
+  lastContentHash = readContentHash();
+  const fileName = path.basename(AGENTS_JSON_PATH);
+
+  try {
+    watcher = fs.watch(path.dirname(AGENTS_JSON_PATH), (_eventType, changedFile) => {
+      if (changedFile && changedFile.toString() !== fileName) return;
+
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        handleFileChange(deps).catch((error) => {
+          console.error('❌ Erro ao recarregar agents.json:', error);
+        });
+      }, debounceMs);
+    });
+    console.log(`👀 Observando alterações em ${AGENTS_JSON_PATH}`);
+  } catch (error: any) {
+    console.warn(`⚠️ Não foi possível observar o agents.json: ${error.message}`);
+  }
+}
+
+/**
+ * Encerra o watcher do agents.json (usado no shutdown do servidor)
+ */
+export function stopAgentsWatcher(): void {
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+    debounceTimer = null;
+  }
+  watcher?.close();
+  watcher = null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Renderização das instruções dos agentes por thread
+ *
+ * Resolve as variáveis de template (`{{workingDirectory}}`, `{{date}}`,
+ * `{{llmProvider}}`, `{{projectFramework}}` e `{{user.name}}`) com o contexto
+ * da thread. O resultado é enviado como instruções do run, sem alterar o
+ * agente no provedor.
+ */
+
+import os from 'os';
+import { AgentConfig } from '../agents/config';
+import { loadConfigFromJson } from '../config/env';
+import { fileSystemFunctions } from '../tools/fileSystemTools';
+import { getTemplateVariables, InstructionTemplateVariable, renderTemplate } from '../utils/instructionTemplate';
+import { getThreadTemplateContext, setThreadTemplateContext } from './threadService';
+
+/**
+ * Valor usado quando o framework do projeto não é identificado
+ */
+const UNKNOWN_FRAMEWORK = 'não identificado';
+
+/**
+ * Extrai o nome do framework da resposta da tool detect_framework
+ */
+function parseDetectedFramework(result: string): string {
+  const match = result.match(/Framework(?:\(s\))? detectado(?:\(s\))?: (.+)/);
+  return match ? match[1].trim() : UNKNOWN_FRAMEWORK;
+}
+
+function getDefaultUserName(): string {
+  const configuredName = loadConfigFromJson()?.userName;
+  if (configuredName) {
+    return configuredName;
+  }
+  try {
+    return os.userInfo().username;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Resolve os valores das variáveis usadas nas instruções
+ *
+ * O framework só é detectado quando a variável é usada, e o resultado fica
+ * guardado no contexto da thread.
+ */
+async function resolveTemplateValues(
+  variables: string[],
+  threadId: string | undefined,
+  llmProvider: string
+): Promise<Partial<Record<InstructionTemplateVariable, string>>> {
+  const context = threadId ? getThreadTemplateContext(threadId) : {};
+  const workingDirectory = context.workingDirectory || process.cwd();
+
+  let projectFramework = context.projectFramework;
+  if (variables.includes('projectFramework') && !projectFramework) {
+    projectFramework = parseDetectedFramework(await fileSystemFunctions.detectFramework(workingDirectory));
+    if (threadId) {
+      setThreadTemplateContext(threadId, { projectFramework });
+    }
+  }
+
+  return {
+    workingDirectory,
+    date: new Date().toISOString().slice(0, 10),
+    llmProvider,
+    projectFramework,
+    'user.name': context.userName || getDefaultUserName(),
+  };
+}
+
+/**
+ * Renderiza as instruções de um agente para um run
+ *
+ * @param {AgentConfig} config - Agente que executará o run
+ * @param {string | undefined} threadId - Thread cujo contexto preenche as variáveis
+ * @param {string} llmProvider - Provedor em uso (valor de `{{llmProvider}}`)
+ * @returns {Promise<string | undefined>} Instruções renderizadas ou undefined se não houver variáveis
+ */
+export async function renderAgentInstructions(
+  config: AgentConfig,
+  threadId: string | undefined,
+  llmProvider: string
+): Promise<string | undefined> {
+  const variables = getTemplateVariables(config.instructions || '');
+  if (variables.length === 0) {
+    return undefined;
+  }
+
+  const values = await resolveTemplateValues(variables, threadId, llmProvider);
+  return renderTemplate(config.instructions, values);
+}
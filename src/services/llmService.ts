@@ -27,7 +27,9 @@ export function initializeLLMAdapter(): void {
   try {
     const llmConfig = {
       provider: provider as LLMProvider,
-      openai: config?.openaiApiKey ? { apiKey: config.openaiApiKey } : undefined,
+      openai: config?.openaiApiKey
+        ? { apiKey: config.openaiApiKey, streaming: config.streamResponses }
+        : undefined,
       stackspot: config?.stackspotClientId && config?.stackspotClientSecret
         ? {
             clientId: config.stackspotClientId,
@@ -36,6 +38,16 @@ export function initializeLLMAdapter(): void {
             proxy: config.stackspotProxy,
           }
         : undefined,
+      openaiCompatible: config?.openaiCompatibleBaseUrl
+        ? {
+            baseURL: config.openaiCompatibleBaseUrl,
+            apiKey: config.openaiCompatibleApiKey,
+            model: config.openaiCompatibleModel,
+          }
+        : undefined,
+      mock: provider === 'mock'
+        ? { fixturesPath: config?.mockFixturesPath }
+        : undefined,
     };
 
     llmAdapter = createLLMAdapter(llmConfig);
@@ -66,6 +78,22 @@ export function getCurrentLLMProvider(): LLMProvider {
   }
 }
 
+/**
+ * Nome amigável do provider para mensagens exibidas ao usuário
+ */
+export function getProviderDisplayName(provider: LLMProvider): string {
+  switch (provider) {
+    case 'openai':
+      return 'OpenAI';
+    case 'openai-compatible':
+      return 'servidor compatível com OpenAI';
+    case 'mock':
+      return 'Mock';
+    default:
+      return 'StackSpot';
+  }
+}
+
 /**
  * Atualiza configuração e reinicializa o adaptador
  */
@@ -0,0 +1,166 @@
+/**
+ * Serviço de servidores MCP (Model Context Protocol)
+ *
+ * Inicia os servidores declarados em `mcpServers` no agents.json e registra
+ * as tools anunciadas no toolRegistry, para que os agentes as referenciem
+ * no array `tools` como qualquer tool nativa. Cada servidor também vira um
+ * conjunto de tools com o próprio nome (ex: "tools": ["tickets"]).
+ */
+
+import { McpServerConfig, McpStdioClient, McpToolInfo } from '../tools/mcpClient';
+import { registerToolDefinition, unregisterToolDefinition, ToolDefinition } from '../tools/toolRegistry';
+
+/**
+ * Servidor MCP em execução
+ */
+interface McpServerState {
+  config: McpServerConfig;
+  client: McpStdioClient;
+  toolNames: string[];
+}
+
+// Armazena os servidores MCP ativos (mapeia nome do servidor -> estado)
+const mcpServersMap = new Map<string, McpServerState>();
+
+// Serializa sincronizações concorrentes (ex: recarregamentos do agents.json)
+let syncQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Converte uma tool anunciada pelo servidor em definição do toolRegistry
+ */
+function toToolDefinition(
+  serverName: string,
+  config: McpServerConfig,
+  client: McpStdioClient,
+  tool: McpToolInfo
+): ToolDefinition {
+  const name = `${config.toolPrefix || ''}${tool.name}`;
+  const readOnly = tool.annotations?.readOnlyHint === true;
+  return {
+    name,
+    schema: {
+      type: 'function',
+      function: {
+        name,
+        description: tool.description || `Tool "${tool.name}" do servidor MCP "${serverName}"`,
+        parameters: tool.inputSchema || { type: 'object', properties: {} },
+      },
+    },
+    execute: (args, context) => client.callTool(tool.name, args, context.signal),
+    action: {
+      emoji: '🔌',
+      description: `Executando ${tool.name} (MCP ${serverName})`,
+    },
+    permissions: {
+      category: 'mcp',
+      readOnly,
+      requiresApproval: config.requireApproval ?? !readOnly,
+    },
+  };
+}
+
+/**
+ * Remove as tools de um servidor MCP cujo processo terminou inesperadamente
+ *
+ * O servidor sai de mcpServersMap, então o lint passa a tratá-lo como indisponível
+ * e o próximo recarregamento do agents.json tenta iniciá-lo novamente.
+ */
+function handleMcpServerExit(serverName: string, client: McpStdioClient, reason: string): void {
+  const state = mcpServersMap.get(serverName);
+  if (!state || state.client !== client) return;
+
+  state.toolNames.forEach(unregisterToolDefinition);
+  mcpServersMap.delete(serverName);
+  console.error(`❌ Servidor MCP "${serverName}" encerrou inesperadamente (${reason}); ` +
+    `${state.toolNames.length} tool(s) removida(s) até o próximo recarregamento do agents.json`);
+}
+
+/**
+ * Inicia um servidor MCP e registra suas tools
+ */
+async function startMcpServer(serverName: string, config: McpServerConfig): Promise<void> {
+  const client = new McpStdioClient(serverName, config);
+  client.onExit((reason) => handleMcpServerExit(serverName, client, reason));
+
+  try {
+    await client.connect();
+    const tools = await client.listTools();
+
+    const toolNames: string[] = [];
+    for (const tool of tools) {
+      const definition = toToolDefinition(serverName, config, client, tool);
+      try {
+        registerToolDefinition(definition);
+        toolNames.push(definition.name);
+      } catch (error: any) {
+        console.warn(`⚠️ Tool MCP ignorada (${serverName}): ${error.message}`);
+      }
+    }
+
+    mcpServersMap.set(serverName, { config, client, toolNames });
+    console.log(`🔌 Servidor MCP "${serverName}" conectado: ${toolNames.length} tool(s) (${toolNames.join(', ')})`);
+  } catch (error: any) {
+    client.close();
+    console.error(`❌ Erro ao iniciar servidor MCP "${serverName}":`, error.message);
+  }
+}
+
+/**
+ * Encerra um servidor MCP e remove suas tools do registro
+ */
+function stopMcpServer(serverName: string): void {
+  const state = mcpServersMap.get(serverName);
+  if (!state) return;
+
+  state.toolNames.forEach(unregisterToolDefinition);
+  state.client.close();
+  mcpServersMap.delete(serverName);
+  console.log(`🔌 Servidor MCP "${serverName}" encerrado`);
+}
+
+/**
+ * Sincroniza os servidores em execução com a configuração do agents.json
+ *
+ * Servidores removidos, desabilitados ou com configuração alterada são encerrados;
+ * novos servidores são iniciados. Falhas são registradas sem interromper o carregamento dos agentes.
+ */
+export function syncMcpServers(servers: Record<string, McpServerConfig> = {}): Promise<void> {
+  syncQueue = syncQueue.then(async () => {
+    for (const [serverName, state] of Array.from(mcpServersMap.entries())) {
+      const config = servers[serverName];
+      if (!config || config.enabled === false || JSON.stringify(config) !== JSON.stringify(state.config)) {
+        stopMcpServer(serverName);
+      }
+    }
+
+    for (const [serverName, config] of Object.entries(servers)) {
+      if (config.enabled === false || mcpServersMap.has(serverName)) {
+        continue;
+      }
+      if (!config.command) {
+        console.warn(`⚠️ Servidor MCP "${serverName}" ignorado: campo "command" é obrigatório`);
+        continue;
+      }
+      await startMcpServer(serverName, config);
+    }
+  });
+  return syncQueue;
+}
+
+/**
+ * Obtém os conjuntos de tools dos servidores MCP (nome do servidor -> tools)
+ */
+export function getMcpToolSets(): Record<string, string[]> {
+  const toolSets: Record<string, string[]> = {};
+  mcpServersMap.forEach((state, serverName) => {
+    toolSets[serverName] = [...state.toolNames];
+  });
+  return toolSets;
+}
+
+/**
+ * Encerra todos os servidores MCP (usado no shutdown do servidor)
+ */
+export function stopAllMcpServers(): void {
+  Array.from(mcpServersMap.keys()).forEach(stopMcpServer);
+}
@@ -0,0 +1,197 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Socket } from 'socket.io';
+import { LLMAdapter } from '../llm/adapters/LLMAdapter';
+import { MockAdapter, MockFixture, MockFixturesFile } from '../llm/adapters/MockAdapter';
+import { AgentManager } from '../agents/agentManager';
+import { getLLMAdapter, initializeLLMAdapter } from './llmService';
+import { processMessage } from './messageService';
+
+const EXAMPLE_FIXTURES_PATH = path.resolve(__dirname, '../../mock-fixtures.example.json');
+
+/**
+ * O roteamento por regras escolhe o orquestrador do grupo, que delega ao Code Analyzer
+ */
+const ORCHESTRATOR_FIXTURE: MockFixture = {
+  agent: 'FileSystem Group Orchestrator',
+  pattern: 'package\\.json',
+  toolCalls: [
+    { name: 'delegate_to_agent', arguments: { agentName: 'Code Analyzer', task: 'Leia o package.json' } },
+  ],
+  response: '{{toolOutputs}}',
+};
+
+interface EmittedEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Socket mínimo que registra os eventos emitidos pelo processMessage
+ */
+function createTestSocket(id: string): { socket: Socket; events: EmittedEvent[] } {
+  const events: EmittedEvent[] = [];
+  const socket = {
+    id,
+    connected: true,
+    emit: (event: string, data: any) => {
+      events.push({ event, data });
+      return true;
+    },
+  } as unknown as Socket;
+  return { socket, events };
+}
+
+function findEvent(events: EmittedEvent[], event: string): any {
+  return events.find((item) => item.event === event)?.data;
+}
+
+describe('processMessage com MockAdapter', () => {
+  const originalCwd = process.cwd();
+  let workDir: string;
+  let adapter: LLMAdapter;
+  let agentManager: AgentManager;
+
+  before(() => {
+    // Os serviços registram cada etapa no console; os testes verificam os eventos do socket
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+
+    // Logs, conversas e tokens são gravados no diretório de trabalho
+    workDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'delsuc-messages-')));
+    fs.writeFileSync(path.join(workDir, 'package.json'), JSON.stringify({ name: 'projeto-de-teste' }, null, 2));
+    const example: MockFixturesFile = JSON.parse(fs.readFileSync(EXAMPLE_FIXTURES_PATH, 'utf-8'));
+    const fixturesPath = path.join(workDir, 'mock-fixtures.json');
+    fs.writeFileSync(fixturesPath, JSON.stringify({ ...example, fixtures: [ORCHESTRATOR_FIXTURE, ...example.fixtures] }));
+    fs.writeFileSync(path.join(workDir, 'config.json'), JSON.stringify({
+      llmProvider: 'mock',
+      mockFixturesPath: fixturesPath,
+      workspaceRoots: [workDir],
+    }));
+    process.chdir(workDir);
+
+    // A delegação usa o adaptador global do llmService
+    initializeLLMAdapter();
+    adapter = getLLMAdapter()!;
+    agentManager = new AgentManager(adapter);
+  });
+
+  after(() => {
+    mock.restoreAll();
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('executa as tool calls da fixture e envia a resposta final', async () => {
+    const { socket, events } = createTestSocket('socket-tools');
+
+    const result = await processMessage(socket, 'Mostre o package.json', adapter, agentManager, {
+      agentName: 'Code Analyzer',
+    });
+
+    assert.deepEqual(result, { success: true });
+    assert.ok(findEvent(events, 'thread_created')?.threadId);
+    assert.equal(findEvent(events, 'agent_selected')?.agentName, 'Code Analyzer');
+
+    const response = findEvent(events, 'response');
+    assert.equal(response.agentName, 'Code Analyzer');
+    assert.match(response.message, /^Li o arquivo solicitado:/);
+    assert.match(response.message, /projeto-de-teste/);
+    assert.deepEqual(response.tokenUsage, { promptTokens: 120, completionTokens: 40, totalTokens: 160 });
+  });
+
+  it('roteia pelas regras shouldUse e delega ao agente do grupo', async () => {
+    const { socket, events } = createTestSocket('socket-routed');
+    const createThread = mock.method(adapter, 'createThread');
+    const deleteThread = mock.method(adapter as MockAdapter, 'deleteThread');
+
+    const result = await processMessage(socket, 'Mostre o arquivo package.json', adapter, agentManager);
+
+    assert.deepEqual(result, { success: true });
+    const selected = findEvent(events, 'agent_selected');
+    assert.equal(selected.agentName, 'FileSystem Group Orchestrator');
+    assert.equal(selected.selectionMethod, 'rules');
+
+    const response = findEvent(events, 'response');
+    assert.match(response.message, /^\[Resposta de Code Analyzer\]\nLi o arquivo solicitado:/);
+    assert.match(response.message, /projeto-de-teste/);
+
+    // A thread do sub-run é removida depois da delegação
+    const delegationCall = createThread.mock.calls.find((call) => call.arguments[0]?.purpose === 'delegation');
+    const delegationThread = await delegationCall!.result;
+    assert.ok(deleteThread.mock.calls.some((call) => call.arguments[0] === delegationThread!.id));
+    createThread.mock.restore();
+    deleteThread.mock.restore();
+  });
+
+  it('responde com a fixture curinga e acumula tokens na thread', async () => {
+    const { socket, events } = createTestSocket('socket-greeting');
+
+    await processMessage(socket, 'oi', adapter, agentManager, { agentName: 'Code Analyzer' });
+    await processMessage(socket, 'oi de novo', adapter, agentManager, { agentName: 'Code Analyzer' });
+
+    const responses = events.filter((item) => item.event === 'response').map((item) => item.data);
+    assert.equal(responses.length, 2);
+    assert.equal(responses[0].message, 'Olá! Esta é uma resposta roteirizada do provider mock.');
+    assert.equal(
+      responses[1].accumulatedTokenUsage.totalTokens,
+      responses[0].tokenUsage.totalTokens + responses[1].tokenUsage.totalTokens
+    );
+    assert.equal(events.filter((item) => item.event === 'thread_created').length, 1);
+  });
+
+  it('usa a resposta padrão quando nenhuma fixture corresponde', async () => {
+    const { socket, events } = createTestSocket('socket-default');
+
+    await processMessage(socket, 'Explique a arquitetura', adapter, agentManager, { agentName: 'Code Analyzer' });
+
+    assert.equal(findEvent(events, 'response')?.message, '[mock] Resposta simulada para: Explique a arquitetura');
+  });
+
+  it('propaga o erro roteirizado pela fixture', async () => {
+    const { socket, events } = createTestSocket('socket-error');
+
+    const result = await processMessage(socket, 'simule uma falha', adapter, agentManager, {
+      agentName: 'Terminal Executor',
+    });
+
+    assert.equal(result.success, false);
+    assert.match(result.error || '', /Falha simulada pelo mock/);
+    assert.equal(findEvent(events, 'response'), undefined);
+    assert.ok(findEvent(events, 'error'));
+  });
+
+  it('rejeita agentes inexistentes sem criar thread', async () => {
+    const { socket, events } = createTestSocket('socket-unknown');
+
+    const result = await processMessage(socket, 'oi', adapter, agentManager, { agentName: 'Agente Inexistente' });
+
+    assert.equal(result.success, false);
+    assert.equal(findEvent(events, 'error')?.code, 'agent_not_found');
+    assert.equal(findEvent(events, 'thread_created'), undefined);
+  });
+
+  it('roteia normalmente mensagens que começam com pacotes npm', async () => {
+    const { socket, events } = createTestSocket('socket-package');
+
+    const result = await processMessage(socket, '@types/node não instala', adapter, agentManager);
+
+    assert.deepEqual(result, { success: true });
+    assert.notEqual(findEvent(events, 'agent_selected')?.selectionMethod, 'explicit');
+    assert.equal(findEvent(events, 'error'), undefined);
+    assert.ok(findEvent(events, 'response'));
+  });
+
+  it('rejeita menções parecidas com um agente conhecido', async () => {
+    const { socket, events } = createTestSocket('socket-typo');
+
+    const result = await processMessage(socket, '@CodeAnalyser explique o projeto', adapter, agentManager);
+
+    assert.equal(result.success, false);
+    assert.equal(findEvent(events, 'error')?.code, 'agent_not_found');
+    assert.equal(findEvent(events, 'error')?.agentName, 'CodeAnalyser');
+  });
+});
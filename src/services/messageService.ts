@@ -3,19 +3,31 @@
  */
 
 import { Socket } from 'socket.io';
-import { LLMAdapter } from '../llm/adapters/LLMAdapter';
+import { discardThread, LLMAdapter, RunCancelledError } from '../llm/adapters/LLMAdapter';
 import { AgentManager, executeTool } from '../agents/agentManager';
-import { findAgentConfigByName } from '../agents/config';
+import { AgentConfig, findAgentConfigByName, loadAgentsConfig } from '../agents/config';
+import { getDisabledAgentNames } from '../agents/agentLoader';
+import { parseAgentMention } from '../agents/agentRouter';
 import { fileSystemFunctions } from '../tools/fileSystemTools';
 import { TokenUsage } from '../types';
 import { getLLMAdapter, getCurrentLLMProvider } from './llmService';
-import { getThreadId, setThreadId, getThreadTokens, updateThreadTokens } from './threadService';
+import { getThreadId, setThreadId, getThreadTokens, updateThreadTokens, setThreadTemplateContext, ThreadTemplateContext } from './threadService';
+import { renderAgentInstructions } from './instructionTemplateService';
 import { updateConnectionActivity, incrementMessageCount } from './connectionService';
 import { saveLog } from '../storage/logStorage';
 import { saveTokens } from '../storage/tokenStorage';
 import { saveConversationMessage } from '../storage/conversationStorage';
 import { calculateTokenCost } from '../utils/tokenCalculator';
 import { emitToMonitors } from './monitoringService';
+import { parseJsonObjectFromResponse, parseStrictJsonObject } from '../utils/jsonResponse';
+import {
+  ActiveRun,
+  startActiveRun,
+  finishActiveRun,
+  cancelActiveRun,
+  waitForThreadTurn,
+  getThreadQueueLength
+} from './runService';
 
 const ACTION_DETECTOR_AGENT_NAME = 'Action Intent Detector';
 
@@ -31,33 +43,47 @@ interface ActionIntentContext {
   details?: Record<string, any>;
 }
 
-function parseActionDetectorResponse(rawResponse: string): ActionIntentResult | null {
-  if (!rawResponse) {
-    return null;
-  }
-
-  let cleaned = rawResponse.trim();
-
-  if (cleaned.startsWith('```')) {
-    cleaned = cleaned.replace(/^```[\w-]*\s*/i, '').replace(/\s*```$/i, '').trim();
-  }
-
-  const firstBraceIndex = cleaned.indexOf('{');
-  const lastBraceIndex = cleaned.lastIndexOf('}');
-
-  if (firstBraceIndex !== -1 && lastBraceIndex !== -1) {
-    cleaned = cleaned.slice(firstBraceIndex, lastBraceIndex + 1);
-  }
+/**
+ * Opções de processamento de uma mensagem
+ */
+export interface ProcessMessageOptions {
+  /** Cancela o run em andamento na thread em vez de aguardar na fila */
+  interrupt?: boolean;
+  /** Agente que deve responder, ignorando o roteamento */
+  agentName?: string;
+  /** Contexto da thread usado nas variáveis de template das instruções */
+  context?: Pick<ThreadTemplateContext, 'workingDirectory' | 'userName'>;
+}
 
-  let parsed: any;
+/**
+ * Agente escolhido explicitamente pelo usuário (`@Agente` ou campo `agentName`)
+ */
+interface ForcedAgentResolution {
+  /** Mensagem a processar (sem a menção) */
+  message: string;
+  config?: AgentConfig;
+  source?: 'mention' | 'payload';
+  error?: {
+    code: 'agent_not_found' | 'agent_disabled' | 'empty_message';
+    agentName: string;
+    message: string;
+  };
+}
 
-  try {
-    parsed = JSON.parse(cleaned);
-  } catch {
-    return null;
+/**
+ * Interpreta a resposta do Action Intent Detector
+ *
+ * Com `responseFormat` JSON configurado, a resposta deve ser exatamente o objeto JSON.
+ * Se o provedor não aplicar o formato, recorre à extração tolerante do objeto.
+ */
+function parseActionDetectorResponse(rawResponse: string, strictJson: boolean): ActionIntentResult | null {
+  let parsed = strictJson ? parseStrictJsonObject(rawResponse) : parseJsonObjectFromResponse(rawResponse);
+  if (!parsed && strictJson) {
+    console.warn('⚠️ Action Intent Detector não retornou JSON estrito (o provedor pode não suportar responseFormat)');
+    parsed = parseJsonObjectFromResponse(rawResponse);
   }
 
-  if (!parsed || typeof parsed !== 'object') {
+  if (!parsed) {
     return null;
   }
 
@@ -97,11 +123,20 @@ async function detectActionIntent(message: string, llmAdapter: LLMAdapter): Prom
       message,
     ].join('\n\n');
 
-    await llmAdapter.addMessage(thread.id, 'user', detectorPrompt);
-    const run = await llmAdapter.createRun(thread.id, agentId);
-    const { message: detectorResponse } = await llmAdapter.waitForRunCompletion(thread.id, run.id);
+    let detectorResponse: string;
+    try {
+      await llmAdapter.addMessage(thread.id, 'user', detectorPrompt);
+      const instructions = await renderAgentInstructions(actionAgentConfig, undefined, llmAdapter.provider);
+      const run = await llmAdapter.createRun(thread.id, agentId, undefined, { instructions });
+      ({ message: detectorResponse } = await llmAdapter.waitForRunCompletion(thread.id, run.id));
+    } finally {
+      // A thread do detector é criada a cada mensagem e não é reutilizada
+      await discardThread(llmAdapter, thread.id);
+    }
 
-    const parsed = parseActionDetectorResponse(detectorResponse);
+    const responseFormat = actionAgentConfig.responseFormat;
+    const strictJson = !!responseFormat && responseFormat !== 'text' && (typeof responseFormat === 'string' || responseFormat.type !== 'text');
+    const parsed = parseActionDetectorResponse(detectorResponse, strictJson);
 
     if (!parsed) {
       console.warn('⚠️ Resposta inválida do Action Intent Detector:', detectorResponse);
@@ -122,6 +157,58 @@ async function detectActionIntent(message: string, llmAdapter: LLMAdapter): Prom
   }
 }
 
+/**
+ * Resolve o agente escolhido pelo usuário, se houver
+ *
+ * O campo `agentName` do payload tem precedência sobre a menção `@Agente` no início da mensagem.
+ */
+async function resolveForcedAgent(message: string, requestedAgentName?: string): Promise<ForcedAgentResolution> {
+  const agentNames = (await loadAgentsConfig()).map(agent => agent.name);
+  const disabledNames = getDisabledAgentNames();
+
+  let source: 'mention' | 'payload';
+  let agentName: string;
+  let text = message;
+
+  if (typeof requestedAgentName === 'string' && requestedAgentName.trim()) {
+    source = 'payload';
+    agentName = requestedAgentName.trim();
+  } else {
+    const mention = parseAgentMention(message, [...agentNames, ...disabledNames]);
+    if (!mention) {
+      return { message };
+    }
+    source = 'mention';
+    agentName = mention.agentName;
+    text = mention.message;
+  }
+
+  const lowerName = agentName.toLowerCase();
+  const knownName = agentNames.find(name => name.toLowerCase() === lowerName);
+  const config = knownName ? await findAgentConfigByName(knownName) : null;
+
+  if (!config) {
+    const disabled = disabledNames.some(name => name.toLowerCase() === lowerName);
+    return {
+      message: text,
+      source,
+      error: disabled
+        ? { code: 'agent_disabled', agentName, message: `O agente "${agentName}" está desativado no agents.json` }
+        : { code: 'agent_not_found', agentName, message: `Agente "${agentName}" não encontrado. Disponíveis: ${agentNames.join(', ')}` }
+    };
+  }
+
+  if (!text.trim()) {
+    return {
+      message: text,
+      source,
+      error: { code: 'empty_message', agentName: config.name, message: `Informe a mensagem para o agente "${config.name}"` }
+    };
+  }
+
+  return { message: text, config, source };
+}
+
 function escapeForPowerShellSingleQuote(value: string): string {
   return value.replace(/'/g, "''");
 }
@@ -150,14 +237,16 @@ function buildListDirectoryCommand(
 async function runCommandForIntent(
   command: string,
   workingDirectory: string | undefined,
-  socket: Socket
+  socket: Socket,
+  signal?: AbortSignal
 ): Promise<ActionIntentContext | null> {
   try {
     const startTime = Date.now();
     const rawResult = await executeTool(
       'execute_command',
       { command, workingDirectory },
-      socket
+      socket,
+      { signal }
     );
 
     const executionTimeMs = Date.now() - startTime;
@@ -217,7 +306,8 @@ async function runCommandForIntent(
 async function enrichMessageWithActionIntent(
   actionIntent: ActionIntentResult | null,
   message: string,
-  socket: Socket
+  socket: Socket,
+  signal?: AbortSignal
 ): Promise<ActionIntentContext | null> {
   if (!actionIntent) {
     return null;
@@ -250,7 +340,7 @@ async function enrichMessageWithActionIntent(
     const pattern: string | undefined = args.pattern;
 
     const listCommand = buildListDirectoryCommand(dirPath, extension, pattern, recursive);
-    return await runCommandForIntent(listCommand.command, listCommand.workingDirectory, socket);
+    return await runCommandForIntent(listCommand.command, listCommand.workingDirectory, socket, signal);
   }
 
   if (actionIntent.action === 'execute_command') {
@@ -263,7 +353,7 @@ async function enrichMessageWithActionIntent(
       args.cwd ||
       actionIntent.filePath;
 
-    return await runCommandForIntent(command, workingDirectory, socket);
+    return await runCommandForIntent(command, workingDirectory, socket, signal);
   }
 
   return null;
@@ -382,16 +472,123 @@ export async function enhanceMessageWithFile(message: string, filePath: string):
   }
 }
 
+/**
+ * Notifica o cliente e registra o cancelamento de um run pelo usuário
+ *
+ * Os tokens parciais consumidos até o cancelamento são somados à thread e salvos.
+ */
+function handleRunCancelled(
+  socket: Socket,
+  activeRun: ActiveRun,
+  message: string,
+  error: RunCancelledError,
+  config?: AgentConfig
+): void {
+  const { threadId } = activeRun;
+  const runId = error.runId || activeRun.runId;
+  const tokenUsage = error.tokenUsage;
+  const currentLLMProvider = getCurrentLLMProvider();
+
+  if (tokenUsage.totalTokens > 0) {
+    updateThreadTokens(threadId, tokenUsage);
+  }
+  const threadTokens = getThreadTokens(threadId);
+
+  const cancelledData = {
+    threadId,
+    runId: runId || null,
+    agentName: activeRun.agentName || null,
+    llmProvider: currentLLMProvider,
+    tokenUsage: {
+      promptTokens: tokenUsage.promptTokens,
+      completionTokens: tokenUsage.completionTokens,
+      totalTokens: tokenUsage.totalTokens
+    },
+    accumulatedTokenUsage: {
+      promptTokens: threadTokens.promptTokens,
+      completionTokens: threadTokens.completionTokens,
+      totalTokens: threadTokens.totalTokens
+    }
+  };
+  socket.emit('run_cancelled', cancelledData);
+  emitToMonitors(socket.id, 'run_cancelled', cancelledData);
+
+  console.log(`⏹️ Run ${runId || '(não criado)'} cancelado pelo usuário (tokens parciais: ${tokenUsage.totalTokens})`);
+
+  if (config && tokenUsage.totalTokens > 0) {
+    saveTokens(
+      threadId,
+      config.name,
+      message,
+      tokenUsage,
+      threadTokens,
+      config.model,
+      currentLLMProvider
+    );
+  }
+
+  saveLog({
+    type: 'run_status',
+    socketId: socket.id,
+    threadId: threadId,
+    runId: runId,
+    agentName: activeRun.agentName,
+    status: 'cancelled',
+    tokenUsage: tokenUsage,
+    accumulatedTokenUsage: threadTokens,
+    llmProvider: currentLLMProvider,
+    metadata: {
+      durationMs: Date.now() - activeRun.startedAt.getTime()
+    }
+  });
+}
+
 /**
  * Processa uma mensagem do usuário e retorna a resposta do agente
+ *
+ * Mensagens da mesma thread são processadas em ordem (FIFO); enquanto aguarda,
+ * o cliente recebe `message_queued` com a posição na fila.
  */
 export async function processMessage(
   socket: Socket,
   message: string,
   llmAdapter: LLMAdapter,
-  agentManager: AgentManager
+  agentManager: AgentManager,
+  options: ProcessMessageOptions = {}
 ): Promise<{ success: boolean; error?: string }> {
+  let activeRun: ActiveRun | undefined;
+  let selectedConfig: AgentConfig | undefined;
+  let releaseThreadTurn: (() => void) | undefined;
+
   try {
+    // Menção `@Agente` ou campo `agentName`: o agente escolhido ignora o roteamento
+    const forcedAgent = await resolveForcedAgent(message, options.agentName);
+    if (forcedAgent.error) {
+      const errorData = {
+        message: forcedAgent.error.message,
+        code: forcedAgent.error.code,
+        agentName: forcedAgent.error.agentName,
+        source: forcedAgent.source
+      };
+      socket.emit('error', errorData);
+      emitToMonitors(socket.id, 'error', errorData);
+      console.warn(`⚠️ Agente solicitado pelo usuário rejeitado: ${forcedAgent.error.message}`);
+
+      saveLog({
+        type: 'error',
+        socketId: socket.id,
+        message: message,
+        error: forcedAgent.error.message,
+        metadata: {
+          code: forcedAgent.error.code,
+          requestedAgent: forcedAgent.error.agentName,
+          source: forcedAgent.source
+        }
+      });
+      return { success: false, error: forcedAgent.error.message };
+    }
+    message = forcedAgent.message;
+
     let threadId = getThreadId(socket.id);
     
     // Se não há thread, cria uma nova automaticamente
@@ -415,6 +612,41 @@ export async function processMessage(
       }
     }
 
+    if (options.context) {
+      setThreadTemplateContext(threadId, options.context);
+    }
+
+    // Com `interrupt`, cancela o run atual e passa à frente das mensagens em espera
+    if (options.interrupt) {
+      await cancelActiveRun(threadId, llmAdapter);
+    }
+
+    // Aguarda a vez da mensagem na fila da thread
+    const queuedThreadId = threadId;
+    releaseThreadTurn = await waitForThreadTurn(threadId, socket.id, {
+      priority: options.interrupt,
+      onPositionChange: (position) => {
+        const queuedData = {
+          threadId: queuedThreadId,
+          message,
+          position,
+          queueLength: getThreadQueueLength(queuedThreadId)
+        };
+        socket.emit('message_queued', queuedData);
+        emitToMonitors(socket.id, 'message_queued', queuedData);
+        console.log(`⏳ Mensagem na fila da thread ${queuedThreadId} (posição ${position})`);
+      }
+    });
+
+    // Registra o run ativo da thread para permitir cancelamento pelo usuário
+    activeRun = startActiveRun(threadId, socket.id);
+    const { signal } = activeRun.controller;
+    const throwIfCancelled = () => {
+      if (signal.aborted) {
+        throw new RunCancelledError(activeRun?.runId);
+      }
+    };
+
     // Atualiza atividade da conexão
     updateConnectionActivity(socket.id);
     incrementMessageCount(socket.id);
@@ -423,6 +655,7 @@ export async function processMessage(
     
     // Detecta intenção geral de ação (ex.: leitura de arquivo, execução de comando)
     const actionIntent = await detectActionIntent(message, llmAdapter);
+    throwIfCancelled();
 
     if (actionIntent) {
       const actionIntentData = {
@@ -450,7 +683,8 @@ export async function processMessage(
 
     let enhancedMessage = message;
     let fileContent = '';
-    const actionContext = await enrichMessageWithActionIntent(actionIntent, message, socket);
+    const actionContext = await enrichMessageWithActionIntent(actionIntent, message, socket, signal);
+    throwIfCancelled();
 
     if (actionContext?.contextSnippet) {
       enhancedMessage = `${enhancedMessage}\n\n${actionContext.contextSnippet}`;
@@ -466,13 +700,32 @@ export async function processMessage(
     console.log(`🔍 Analisando mensagem para selecionar agente...`);
 
     // Seleciona o agente apropriado para a mensagem
-    const { agentId, config } = await agentManager.getAgentForMessage(message);
+    const { agentId, config, selection } = await agentManager.getAgentForMessage(
+      message,
+      threadId,
+      forcedAgent.config
+        ? {
+            config: forcedAgent.config,
+            reason: forcedAgent.source === 'mention'
+              ? `Agente mencionado pelo usuário (@${forcedAgent.config.name})`
+              : 'Agente informado pelo cliente (campo agentName)'
+          }
+        : undefined
+    );
+    selectedConfig = config;
+    activeRun.agentName = config.name;
+    throwIfCancelled();
     
     // Notifica o cliente sobre qual agente está sendo usado
     const agentSelectedData = {
       agentName: config.name,
       description: config.description,
-      llmProvider: getCurrentLLMProvider()
+      llmProvider: getCurrentLLMProvider(),
+      selectionMethod: selection.method,
+      reason: selection.reason,
+      confidence: selection.confidence ?? null,
+      affinity: selection.affinity ?? null,
+      previousAgent: selection.previousAgent ?? null
     };
     socket.emit('agent_selected', agentSelectedData);
     emitToMonitors(socket.id, 'agent_selected', agentSelectedData);
@@ -487,12 +740,23 @@ export async function processMessage(
       agentName: config.name,
       agentId: agentId,
       message: message,
-      llmProvider: getCurrentLLMProvider()
+      llmProvider: getCurrentLLMProvider(),
+      tokenUsage: selection.tokenUsage,
+      metadata: {
+        selectionMethod: selection.method,
+        reason: selection.reason,
+        confidence: selection.confidence,
+        groupId: selection.groupId,
+        affinity: selection.affinity,
+        previousAgent: selection.previousAgent,
+        override: forcedAgent.source ?? null
+      }
     });
 
     // Adiciona mensagem do usuário à thread
     console.log(`📝 Adicionando mensagem à thread...`);
     const userMessage = await llmAdapter.addMessage(threadId, 'user', enhancedMessage);
+    throwIfCancelled();
 
     // Emite a mensagem do usuário de volta para o cliente
     const userMessageData = {
@@ -538,10 +802,21 @@ export async function processMessage(
 
     // Cria um run para processar a mensagem com o agente selecionado
     console.log(`🚀 Criando run para processar mensagem...`);
-    const run = await llmAdapter.createRun(threadId, agentId);
+    // Passa o socket para que adaptadores com streaming emitam `response_delta`
+    const instructions = await renderAgentInstructions(config, threadId, llmAdapter.provider);
+    const run = await llmAdapter.createRun(threadId, agentId, socket, { instructions });
+
+    activeRun.runId = run.id;
 
     console.log(`✅ Run criado: ${run.id} (Status: ${run.status})`);
 
+    // O cancelamento pode ter chegado enquanto o run era criado no provider
+    if (signal.aborted) {
+      await llmAdapter.cancelRun(threadId, run.id).catch((error: any) => {
+        console.warn(`⚠️ Erro ao cancelar run ${run.id} no provider:`, error.message);
+      });
+    }
+
     // Log de criação de run
     saveLog({
       type: 'run_status',
@@ -557,7 +832,12 @@ export async function processMessage(
     });
 
     // Aguarda a conclusão do run (o adapter já trata tool calling internamente)
-    const { message: responseMessage, tokenUsage } = await llmAdapter.waitForRunCompletion(threadId, run.id, socket);
+    const { message: responseMessage, tokenUsage } = await llmAdapter.waitForRunCompletion(
+      threadId,
+      run.id,
+      socket,
+      { signal }
+    );
 
     console.log(`✅ Run concluído com sucesso`);
 
@@ -658,6 +938,11 @@ export async function processMessage(
 
     return { success: true };
   } catch (error: any) {
+    if (error instanceof RunCancelledError && activeRun) {
+      handleRunCancelled(socket, activeRun, message, error, selectedConfig);
+      return { success: false, error: error.message };
+    }
+
     console.error('Erro ao processar mensagem:', error);
     
     // Log de erro
@@ -680,6 +965,11 @@ export async function processMessage(
     });
 
     return { success: false, error: error.message };
+  } finally {
+    if (activeRun) {
+      finishActiveRun(activeRun);
+    }
+    releaseThreadTurn?.();
   }
 }
 
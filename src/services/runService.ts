@@ -0,0 +1,205 @@
+/**
+ * Serviço de controle de runs ativos
+ *
+ * Mantém o run em andamento de cada thread para permitir o cancelamento
+ * iniciado pelo usuário (socket `cancel_run` ou REST) e a fila FIFO que
+ * serializa as mensagens enviadas para a mesma thread.
+ */
+
+import { Socket } from 'socket.io';
+import { LLMAdapter } from '../llm/adapters/LLMAdapter';
+import { getThreadId } from './threadService';
+
+/**
+ * Run em andamento em uma thread
+ */
+export interface ActiveRun {
+  threadId: string;
+  socketId: string;
+  /** ID do run no provider (definido após createRun) */
+  runId?: string;
+  agentName?: string;
+  startedAt: Date;
+  controller: AbortController;
+}
+
+/**
+ * Opções para entrar na fila de mensagens da thread
+ */
+export interface ThreadQueueOptions {
+  /** Coloca a mensagem logo após a que está em processamento (usado com `interrupt`) */
+  priority?: boolean;
+  /** Chamado sempre que a posição da mensagem na fila muda enquanto ela aguarda */
+  onPositionChange?: (position: number) => void;
+}
+
+/**
+ * Mensagem na fila de uma thread
+ */
+interface QueuedMessage {
+  socketId: string;
+  start: () => void;
+  onPositionChange?: (position: number) => void;
+}
+
+// Armazena o run ativo por thread (mapeia thread.id -> run ativo)
+const activeRunsMap = new Map<string, ActiveRun>();
+
+// Fila de mensagens por thread (o primeiro item é a mensagem em processamento)
+const threadQueuesMap = new Map<string, QueuedMessage[]>();
+
+/**
+ * Notifica a posição das mensagens que aguardam a partir de um índice da fila
+ */
+function notifyQueuePositions(queue: QueuedMessage[], fromIndex: number): void {
+  for (let index = Math.max(fromIndex, 1); index < queue.length; index++) {
+    queue[index].onPositionChange?.(index);
+  }
+}
+
+/**
+ * Aguarda a vez da mensagem na fila FIFO da thread
+ *
+ * A posição informada é o número de mensagens à frente (1 = próxima a ser processada).
+ *
+ * @returns Função que libera a fila para a próxima mensagem (chamar ao terminar o processamento)
+ */
+export async function waitForThreadTurn(
+  threadId: string,
+  socketId: string,
+  options: ThreadQueueOptions = {}
+): Promise<() => void> {
+  let queue = threadQueuesMap.get(threadId);
+  if (!queue) {
+    queue = [];
+    threadQueuesMap.set(threadId, queue);
+  }
+
+  const entry: QueuedMessage = {
+    socketId,
+    start: () => {},
+    onPositionChange: options.onPositionChange,
+  };
+  const turn = new Promise<void>((resolve) => {
+    entry.start = resolve;
+  });
+
+  if (options.priority && queue.length > 1) {
+    queue.splice(1, 0, entry);
+    notifyQueuePositions(queue, 1);
+  } else {
+    queue.push(entry);
+    if (queue.length === 1) {
+      entry.start();
+    } else {
+      notifyQueuePositions(queue, queue.length - 1);
+    }
+  }
+
+  const currentQueue = queue;
+  const release = () => {
+    const index = currentQueue.indexOf(entry);
+    if (index === -1) {
+      return;
+    }
+
+    currentQueue.splice(index, 1);
+    if (currentQueue.length === 0) {
+      if (threadQueuesMap.get(threadId) === currentQueue) {
+        threadQueuesMap.delete(threadId);
+      }
+      return;
+    }
+
+    if (index === 0) {
+      currentQueue[0].start();
+    }
+    notifyQueuePositions(currentQueue, index);
+  };
+
+  await turn;
+  return release;
+}
+
+/**
+ * Obtém o número de mensagens na fila da thread (incluindo a que está em processamento)
+ */
+export function getThreadQueueLength(threadId: string): number {
+  return threadQueuesMap.get(threadId)?.length || 0;
+}
+
+/**
+ * Registra o início do processamento de uma mensagem na thread
+ */
+export function startActiveRun(threadId: string, socketId: string): ActiveRun {
+  const activeRun: ActiveRun = {
+    threadId,
+    socketId,
+    startedAt: new Date(),
+    controller: new AbortController(),
+  };
+  activeRunsMap.set(threadId, activeRun);
+  return activeRun;
+}
+
+/**
+ * Obtém o run ativo de uma thread
+ */
+export function getActiveRun(threadId: string): ActiveRun | undefined {
+  return activeRunsMap.get(threadId);
+}
+
+/**
+ * Identifica a thread e o agente que chamaram uma tool a partir do socket
+ *
+ * Em delegações, o socket do sub-run aponta para o socket original e para o
+ * agente delegado (ver createDelegationSocket).
+ */
+export function getToolCaller(socket?: Socket): { threadId?: string; agentName?: string } {
+  if (!socket) {
+    return {};
+  }
+
+  const data = (socket as any).data;
+  const threadId = getThreadId(data?.parentSocketId || socket.id);
+  const agentName = data?.delegation?.agentName || (threadId ? getActiveRun(threadId)?.agentName : undefined);
+  return { threadId, agentName };
+}
+
+/**
+ * Remove o run ativo da thread (apenas se ainda for o mesmo registro)
+ */
+export function finishActiveRun(activeRun: ActiveRun): void {
+  if (activeRunsMap.get(activeRun.threadId) === activeRun) {
+    activeRunsMap.delete(activeRun.threadId);
+  }
+}
+
+/**
+ * Cancela o run ativo de uma thread
+ *
+ * Aborta o sinal do run (interrompendo polling, streaming e comandos de terminal)
+ * e solicita o cancelamento ao provider quando o run já foi criado.
+ *
+ * @returns O run cancelado ou null se não houver run ativo
+ */
+export async function cancelActiveRun(threadId: string, llmAdapter?: LLMAdapter): Promise<ActiveRun | null> {
+  const activeRun = activeRunsMap.get(threadId);
+  if (!activeRun || activeRun.controller.signal.aborted) {
+    return null;
+  }
+
+  console.log(`⏹️ Cancelando run ${activeRun.runId || '(ainda não criado)'} da thread ${threadId}`);
+  activeRun.controller.abort();
+
+  if (activeRun.runId && llmAdapter) {
+    try {
+      await llmAdapter.cancelRun(threadId, activeRun.runId);
+    } catch (error: any) {
+      // O run pode já ter terminado entre o pedido e o cancelamento
+      console.warn(`⚠️ Erro ao cancelar run ${activeRun.runId} no provider:`, error.message);
+    }
+  }
+
+  return activeRun;
+}
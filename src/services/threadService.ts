@@ -10,6 +10,35 @@ const threadMap = new Map<string, string>();
 // Armazena tokens acumulados por thread
 const threadTokensMap = new Map<string, TokenUsage>();
 
+/**
+ * Afinidade de uma thread com o último agente que respondeu
+ */
+export interface ThreadAgentAffinity {
+  agentName: string;
+  groupId: string | null;
+  /** Turnos consecutivos em que o agente foi mantido apenas pela afinidade */
+  keptTurns: number;
+  updatedAt: Date;
+}
+
+// Armazena a afinidade de agente por thread (mapeia thread.id -> afinidade)
+const threadAffinityMap = new Map<string, ThreadAgentAffinity>();
+
+/**
+ * Contexto usado nas variáveis de template das instruções dos agentes
+ */
+export interface ThreadTemplateContext {
+  /** Diretório do projeto (`{{workingDirectory}}`); padrão: diretório do servidor */
+  workingDirectory?: string;
+  /** Framework detectado no diretório do projeto (`{{projectFramework}}`) */
+  projectFramework?: string;
+  /** Nome do usuário (`{{user.name}}`) */
+  userName?: string;
+}
+
+// Armazena o contexto de template por thread (mapeia thread.id -> contexto)
+const threadTemplateContextMap = new Map<string, ThreadTemplateContext>();
+
 /**
  * Obtém o threadId de um socket
  */
@@ -57,6 +86,57 @@ export function removeThreadTokens(threadId: string): void {
   threadTokensMap.delete(threadId);
 }
 
+/**
+ * Obtém a afinidade de agente de uma thread
+ */
+export function getThreadAffinity(threadId: string): ThreadAgentAffinity | undefined {
+  return threadAffinityMap.get(threadId);
+}
+
+/**
+ * Define a afinidade de agente de uma thread
+ */
+export function setThreadAffinity(threadId: string, affinity: Omit<ThreadAgentAffinity, 'updatedAt'>): void {
+  threadAffinityMap.set(threadId, { ...affinity, updatedAt: new Date() });
+}
+
+/**
+ * Remove a afinidade de agente de uma thread
+ */
+export function removeThreadAffinity(threadId: string): void {
+  threadAffinityMap.delete(threadId);
+}
+
+/**
+ * Obtém o contexto de template de uma thread
+ */
+export function getThreadTemplateContext(threadId: string): ThreadTemplateContext {
+  return threadTemplateContextMap.get(threadId) || {};
+}
+
+/**
+ * Atualiza o contexto de template de uma thread
+ *
+ * Ao mudar o diretório de trabalho, o framework detectado é descartado.
+ */
+export function setThreadTemplateContext(threadId: string, context: ThreadTemplateContext): void {
+  const current = getThreadTemplateContext(threadId);
+  const directoryChanged = context.workingDirectory !== undefined && context.workingDirectory !== current.workingDirectory;
+  const definedValues = Object.fromEntries(Object.entries(context).filter(([, value]) => value !== undefined));
+  threadTemplateContextMap.set(threadId, {
+    ...current,
+    ...(directoryChanged ? { projectFramework: undefined } : {}),
+    ...definedValues,
+  });
+}
+
+/**
+ * Remove o contexto de template de uma thread
+ */
+export function removeThreadTemplateContext(threadId: string): void {
+  threadTemplateContextMap.delete(threadId);
+}
+
 /**
  * Limpa todos os dados de uma thread
  */
@@ -64,6 +144,8 @@ export function clearThread(socketId: string): void {
   const threadId = getThreadId(socketId);
   if (threadId) {
     removeThreadTokens(threadId);
+    removeThreadAffinity(threadId);
+    removeThreadTemplateContext(threadId);
   }
   removeThreadId(socketId);
 }
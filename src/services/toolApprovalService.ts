@@ -0,0 +1,344 @@
+/**
+ * Serviço de aprovação humana de tool calls
+ *
+ * Antes de executar uma tool sensível (por padrão, as que escrevem arquivos,
+ * execute_command, stop_service e kill_process_on_port), o servidor emite
+ * `tool_approval_required` e aguarda `approve_tool`/`deny_tool` do cliente
+ * ou o timeout. A negação volta ao modelo como output da tool. Uma aprovação
+ * pode valer para o restante da thread ("sempre permitir nesta thread"),
+ * limitada ao escopo da chamada aprovada (ex: a mesma linha de comando).
+ */
+
+import crypto from 'crypto';
+import { Socket } from 'socket.io';
+import { loadConfigFromJson } from '../config/env';
+import type { ToolDefinition, ToolExecutionContext } from '../tools/toolRegistry';
+import { emitToMonitors } from './monitoringService';
+import { getToolCaller } from './runService';
+import { saveLog } from '../storage/logStorage';
+
+/**
+ * Tempo padrão de espera pela resposta do usuário
+ */
+export const DEFAULT_TOOL_APPROVAL_TIMEOUT_MS = 120000;
+
+/**
+ * Configuração das aprovações (campo `toolApproval` do config.json)
+ */
+export interface ToolApprovalConfig {
+  /** Exige aprovação das tools sensíveis; padrão: habilitado */
+  enabled?: boolean;
+  /** Tools que exigem aprovação; padrão: as marcadas com `permissions.requiresApproval` */
+  tools?: string[];
+  /** Tempo de espera pela resposta, em milissegundos (padrão: 120000) */
+  timeoutMs?: number;
+  /**
+   * Decisão quando não há cliente conectado para responder (ex: tools chamadas
+   * fora de um chat); padrão: 'deny'. Chamadas que a própria tool marca como
+   * 'ask' (ex: comandos "ask" da política) são sempre negadas sem cliente.
+   */
+  unattended?: 'allow' | 'deny';
+}
+
+/**
+ * Exigência de aprovação de uma tool call
+ *
+ * - `none`: executa sem perguntar
+ * - `required`: pergunta ao usuário; aprovações "nesta thread" valem para chamadas de mesmo escopo
+ * - `per_call`: a tool exigiu a aprovação desta chamada (approvalPolicy 'ask'); regras da thread não se aplicam
+ */
+export type ToolApprovalRequirement = 'none' | 'required' | 'per_call';
+
+/**
+ * Escopo de uma aprovação
+ */
+export type ToolApprovalScope = 'once' | 'thread';
+
+/**
+ * Resultado de uma solicitação de aprovação
+ */
+export interface ToolApprovalResult {
+  approved: boolean;
+  /** Quem decidiu: usuário, regra da thread, timeout, cancelamento ou ausência de cliente (ver `unattended`) */
+  decidedBy: 'user' | 'thread_rule' | 'timeout' | 'cancelled' | 'unavailable';
+  scope?: ToolApprovalScope;
+  reason?: string;
+}
+
+/**
+ * Resposta do cliente a uma solicitação (`approve_tool`/`deny_tool`)
+ */
+export interface ToolApprovalResponse {
+  approvalId: string;
+  approved: boolean;
+  scope?: ToolApprovalScope;
+  reason?: string;
+}
+
+/**
+ * Aprovação aguardando resposta do usuário
+ */
+interface PendingApproval {
+  approvalId: string;
+  /** Socket do cliente (em delegações, o socket original) */
+  ownerSocketId: string;
+  toolName: string;
+  /** O usuário pode liberar chamadas de mesmo escopo para o restante da thread */
+  allowThreadScope: boolean;
+  finish: (result: ToolApprovalResult) => void;
+}
+
+// Aprovações pendentes (mapeia approvalId -> aprovação)
+const pendingApprovalsMap = new Map<string, PendingApproval>();
+
+// Chamadas liberadas para o restante da thread (mapeia thread.id -> chaves "tool" ou "tool:escopo")
+const threadAllowedToolsMap = new Map<string, Set<string>>();
+
+/**
+ * Indica se as aprovações estão habilitadas (`toolApproval.enabled` do config.json; padrão: habilitado)
+ *
+ * Com as aprovações desativadas, chamadas que a tool marcaria como 'ask'
+ * (ex: comandos "ask" da política) executam sem perguntar.
+ */
+export function isToolApprovalEnabled(): boolean {
+  return loadConfigFromJson()?.toolApproval?.enabled !== false;
+}
+
+/**
+ * Verifica se uma tool call exige aprovação
+ *
+ * @param {ToolDefinition} definition - Definição registrada da tool
+ * @param {any} args - Argumentos da tool call (repassados ao `approvalPolicy` da tool)
+ * @param {ToolExecutionContext} context - Contexto da execução
+ * @returns {ToolApprovalRequirement} Se a chamada exige aprovação e se regras da thread valem para ela
+ */
+export function getToolApprovalRequirement(
+  definition: ToolDefinition,
+  args: any,
+  context: ToolExecutionContext
+): ToolApprovalRequirement {
+  if (!isToolApprovalEnabled()) {
+    return 'none';
+  }
+  const config: ToolApprovalConfig = loadConfigFromJson()?.toolApproval || {};
+
+  // A tool pode forçar a aprovação ou dispensá-la quando ela mesma recusará a chamada
+  const decision = definition.approvalPolicy?.(args, context);
+  if (decision === 'deny') {
+    return 'none';
+  }
+  if (decision === 'ask') {
+    return 'per_call';
+  }
+
+  const required = Array.isArray(config.tools)
+    ? config.tools.includes(definition.name)
+    : definition.permissions?.requiresApproval === true;
+  return required ? 'required' : 'none';
+}
+
+/**
+ * Chave de uma regra da thread: o nome da tool e, se houver, o escopo da chamada
+ */
+function threadRuleKey(toolName: string, scopeKey?: string): string {
+  return scopeKey ? `${toolName}:${scopeKey}` : toolName;
+}
+
+function getApprovalTimeout(): number {
+  const timeoutMs = loadConfigFromJson()?.toolApproval?.timeoutMs;
+  return typeof timeoutMs === 'number' && timeoutMs > 0 ? timeoutMs : DEFAULT_TOOL_APPROVAL_TIMEOUT_MS;
+}
+
+function emitApprovalEvent(socket: Socket, event: string, data: any): void {
+  socket.emit(event, data);
+  emitToMonitors(socket.id, event, data);
+}
+
+/**
+ * Decisão quando não há cliente para responder (ver `unattended` no config.json)
+ */
+function resolveUnattended(toolName: string, requirement: ToolApprovalRequirement): ToolApprovalResult {
+  const unattended = loadConfigFromJson()?.toolApproval?.unattended;
+  if (unattended === 'allow' && requirement !== 'per_call') {
+    console.warn(`⚠️ "${toolName}" executada sem aprovação: nenhum cliente conectado (toolApproval.unattended = "allow")`);
+    return { approved: true, decidedBy: 'unavailable', reason: 'sem cliente conectado; liberado por toolApproval.unattended' };
+  }
+
+  console.warn(`⚠️ "${toolName}" negada: nenhum cliente conectado para aprovar a execução`);
+  return {
+    approved: false,
+    decidedBy: 'unavailable',
+    reason: requirement === 'per_call'
+      ? 'nenhum cliente conectado para aprovar esta chamada'
+      : 'nenhum cliente conectado para aprovar a execução (ver toolApproval.unattended no config.json)',
+  };
+}
+
+/**
+ * Solicita ao usuário a aprovação de uma tool call
+ *
+ * Resolve imediatamente quando chamadas de mesmo escopo já foram liberadas na
+ * thread (exceto em `per_call`). Sem cliente conectado, não há a quem
+ * perguntar e a decisão segue `toolApproval.unattended` (padrão: negar).
+ *
+ * @param {string} toolName - Nome da tool
+ * @param {any} args - Argumentos da tool call
+ * @param {Socket} socket - Socket do cliente (ou da delegação) que originou a tool call
+ * @param {object} options - Sinal de cancelamento do run, explicação exibida ao usuário,
+ *   exigência (ver getToolApprovalRequirement) e escopo das regras da thread (ex: a linha de comando)
+ * @returns {Promise<ToolApprovalResult>} Decisão final
+ */
+export async function requestToolApproval(
+  toolName: string,
+  args: any,
+  socket: Socket | undefined,
+  options: { signal?: AbortSignal; details?: string; requirement?: ToolApprovalRequirement; scopeKey?: string } = {}
+): Promise<ToolApprovalResult> {
+  const { threadId, agentName } = getToolCaller(socket);
+  const requirement = options.requirement || 'required';
+  const allowThreadScope = requirement !== 'per_call';
+  const ruleKey = threadRuleKey(toolName, options.scopeKey);
+
+  if (allowThreadScope && threadId && threadAllowedToolsMap.get(threadId)?.has(ruleKey)) {
+    return { approved: true, decidedBy: 'thread_rule', scope: 'thread' };
+  }
+
+  // Socket ausente ou desconectado: ninguém responderia antes do timeout
+  if (!socket || (socket as any).connected === false) {
+    const unattendedResult = resolveUnattended(toolName, requirement);
+    saveLog({
+      type: 'tool_approval',
+      socketId: (socket as any)?.data?.parentSocketId || socket?.id,
+      threadId,
+      agentName,
+      toolName,
+      toolArgs: args,
+      status: unattendedResult.approved ? 'approved' : 'denied',
+      metadata: { decidedBy: unattendedResult.decidedBy, reason: unattendedResult.reason },
+    });
+    return unattendedResult;
+  }
+
+  if (options.signal?.aborted) {
+    return { approved: false, decidedBy: 'cancelled', reason: 'run cancelado pelo usuário' };
+  }
+
+  const approvalId = `approval_${crypto.randomUUID()}`;
+  const timeoutMs = getApprovalTimeout();
+  const requestedAt = new Date();
+  const ownerSocketId = (socket as any).data?.parentSocketId || socket.id;
+
+  console.log(`✋ Aguardando aprovação para "${toolName}"${agentName ? ` (agente: ${agentName})` : ''}: ${approvalId}`);
+
+  const result = await new Promise<ToolApprovalResult>((resolve) => {
+    const onAbort = () => finish({ approved: false, decidedBy: 'cancelled', reason: 'run cancelado pelo usuário' });
+    const timeoutHandle = setTimeout(
+      () => finish({ approved: false, decidedBy: 'timeout', reason: `sem resposta em ${Math.round(timeoutMs / 1000)}s` }),
+      timeoutMs
+    );
+
+    function finish(approvalResult: ToolApprovalResult): void {
+      if (!pendingApprovalsMap.has(approvalId)) {
+        return;
+      }
+      pendingApprovalsMap.delete(approvalId);
+      clearTimeout(timeoutHandle);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve(approvalResult);
+    }
+
+    pendingApprovalsMap.set(approvalId, {
+      approvalId,
+      ownerSocketId,
+      toolName,
+      allowThreadScope,
+      finish,
+    });
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    emitApprovalEvent(socket, 'tool_approval_required', {
+      approvalId,
+      toolName,
+      args,
+      agentName: agentName || null,
+      threadId: threadId || null,
+      details: options.details || null,
+      allowThreadScope,
+      timeoutMs,
+      expiresAt: new Date(requestedAt.getTime() + timeoutMs).toISOString(),
+    });
+  });
+
+  if (result.approved && result.scope === 'thread' && threadId) {
+    const allowedTools = threadAllowedToolsMap.get(threadId) || new Set<string>();
+    allowedTools.add(ruleKey);
+    threadAllowedToolsMap.set(threadId, allowedTools);
+  }
+
+  console.log(`${result.approved ? '✅' : '⛔'} Aprovação de "${toolName}" (${result.decidedBy}): ${result.approved ? 'aprovada' : 'negada'}`);
+
+  emitApprovalEvent(socket, 'tool_approval_resolved', {
+    approvalId,
+    toolName,
+    approved: result.approved,
+    decidedBy: result.decidedBy,
+    scope: result.scope || null,
+    reason: result.reason || null,
+  });
+  saveLog({
+    type: 'tool_approval',
+    socketId: ownerSocketId,
+    threadId,
+    agentName,
+    toolName,
+    toolArgs: args,
+    status: result.approved ? 'approved' : 'denied',
+    metadata: {
+      approvalId,
+      decidedBy: result.decidedBy,
+      scope: result.scope,
+      scopeKey: options.scopeKey,
+      reason: result.reason,
+      waitedMs: Date.now() - requestedAt.getTime(),
+    },
+  });
+
+  return result;
+}
+
+/**
+ * Registra a resposta do cliente a uma solicitação pendente
+ *
+ * @param {string} socketId - Socket que respondeu (deve ser o dono da solicitação)
+ * @param {ToolApprovalResponse} response - Aprovação ou negação
+ * @returns {string | null} Mensagem de erro ou null se a resposta foi aceita
+ */
+export function respondToToolApproval(socketId: string, response: ToolApprovalResponse): string | null {
+  const pending = response?.approvalId ? pendingApprovalsMap.get(response.approvalId) : undefined;
+  if (!pending || pending.ownerSocketId !== socketId) {
+    return 'Solicitação de aprovação não encontrada ou já respondida';
+  }
+
+  // Chamadas "per_call" não podem ser liberadas para a thread
+  const scope = response.scope === 'thread' && pending.allowThreadScope ? 'thread' : 'once';
+  pending.finish(response.approved
+    ? { approved: true, decidedBy: 'user', scope }
+    : { approved: false, decidedBy: 'user', reason: response.reason || 'negado pelo usuário' });
+  return null;
+}
+
+/**
+ * Nega as solicitações pendentes de um socket (ex: desconexão)
+ */
+export function cancelSocketApprovals(socketId: string, reason: string): void {
+  Array.from(pendingApprovalsMap.values())
+    .filter((pending) => pending.ownerSocketId === socketId)
+    .forEach((pending) => pending.finish({ approved: false, decidedBy: 'cancelled', reason }));
+}
+
+/**
+ * Remove as chamadas liberadas de uma thread (ex: conversa limpa ou encerrada)
+ */
+export function clearThreadApprovals(threadId: string): void {
+  threadAllowedToolsMap.delete(threadId);
+}
@@ -0,0 +1,138 @@
+/**
+ * Storage para o histórico de revisões do agents.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AgentsRevision, AgentsRevisionsJsonFile } from '../types';
+import { diffJson } from '../utils/jsonDiff';
+
+/**
+ * Número máximo de revisões mantidas (as mais antigas são descartadas)
+ */
+const MAX_REVISIONS = 200;
+
+function getRevisionsFilePath(): string {
+  return path.join(process.cwd(), 'agents-revisions.json');
+}
+
+function createEmptyRevisionsData(): AgentsRevisionsJsonFile {
+  return {
+    revisions: [],
+    lastUpdated: new Date().toISOString()
+  };
+}
+
+function loadRevisionsData(): AgentsRevisionsJsonFile {
+  const revisionsFilePath = getRevisionsFilePath();
+
+  if (!fs.existsSync(revisionsFilePath)) {
+    return createEmptyRevisionsData();
+  }
+
+  const fileContent = fs.readFileSync(revisionsFilePath, 'utf-8').trim();
+  if (fileContent === '') {
+    return createEmptyRevisionsData();
+  }
+
+  const revisionsData: AgentsRevisionsJsonFile = JSON.parse(fileContent);
+  if (!revisionsData.revisions) {
+    revisionsData.revisions = [];
+  }
+  return revisionsData;
+}
+
+function createRevisionId(): string {
+  return `rev_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Registra uma revisão do agents.json
+ *
+ * Na primeira revisão, o conteúdo anterior é salvo como revisão `baseline`,
+ * para que o estado original também possa ser restaurado.
+ *
+ * @param {Record<string, any>} before - Conteúdo do agents.json antes da alteração
+ * @param {Record<string, any>} after - Conteúdo do agents.json após a alteração
+ * @param {string} author - Autor da alteração
+ * @param {string} action - Operação que gerou a revisão
+ * @param {string} restoredFrom - ID da revisão restaurada (opcional)
+ * @returns {AgentsRevision | null} Revisão criada ou null em caso de erro
+ */
+export function saveAgentsRevision(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  author: string,
+  action: string,
+  restoredFrom?: string
+): AgentsRevision | null {
+  try {
+    const revisionsData = loadRevisionsData();
+
+    if (revisionsData.revisions.length === 0) {
+      revisionsData.revisions.push({
+        id: createRevisionId(),
+        timestamp: new Date().toISOString(),
+        author: 'system',
+        action: 'baseline',
+        summary: 'Estado do agents.json antes da primeira alteração registrada',
+        snapshot: before,
+        changes: []
+      });
+    }
+
+    const changes = diffJson(before, after);
+    const revision: AgentsRevision = {
+      id: createRevisionId(),
+      timestamp: new Date().toISOString(),
+      author,
+      action,
+      summary: restoredFrom
+        ? `Restauração da revisão ${restoredFrom} (${changes.length} campo(s) alterado(s))`
+        : `${action}: ${changes.length} campo(s) alterado(s)`,
+      snapshot: after,
+      changes,
+      restoredFrom
+    };
+
+    revisionsData.revisions.push(revision);
+    if (revisionsData.revisions.length > MAX_REVISIONS) {
+      revisionsData.revisions = revisionsData.revisions.slice(-MAX_REVISIONS);
+    }
+    revisionsData.lastUpdated = new Date().toISOString();
+
+    fs.writeFileSync(getRevisionsFilePath(), JSON.stringify(revisionsData, null, 2), 'utf-8');
+    console.log(`🗂️ Revisão do agents.json registrada: ${revision.id} (${action} por ${author})`);
+    return revision;
+  } catch (error) {
+    console.error('❌ Erro ao salvar revisão do agents.json:', error);
+    return null;
+  }
+}
+
+/**
+ * Lista as revisões (mais recentes primeiro), sem o conteúdo completo
+ */
+export function listAgentsRevisions(): Array<Omit<AgentsRevision, 'snapshot' | 'changes'> & { changesCount: number }> {
+  try {
+    return loadRevisionsData()
+      .revisions
+      .map(({ snapshot, changes, ...revision }) => ({ ...revision, changesCount: changes.length }))
+      .reverse();
+  } catch (error) {
+    console.error('❌ Erro ao carregar revisões do agents.json:', error);
+    return [];
+  }
+}
+
+/**
+ * Busca uma revisão pelo ID
+ */
+export function getAgentsRevision(revisionId: string): AgentsRevision | null {
+  try {
+    return loadRevisionsData().revisions.find(revision => revision.id === revisionId) || null;
+  } catch (error) {
+    console.error('❌ Erro ao carregar revisão do agents.json:', error);
+    return null;
+  }
+}
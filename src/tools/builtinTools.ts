@@ -0,0 +1,129 @@
+/**
+ * Tools nativas do DelsucIA
+ *
+ * Liga os schemas declarados em fileSystemTools/terminalTools aos seus executores
+ * e metadados de permissão. Registradas automaticamente pelo toolRegistry.
+ */
+
+import { fileSystemFunctions, tools as fileSystemSchemas } from './fileSystemTools';
+import {
+  executeCommand,
+  checkServiceStatus,
+  startService,
+  stopService,
+  killProcessOnPort,
+  tools as terminalSchemas
+} from './terminalTools';
+import { evaluateCommandPolicy } from './commandPolicy';
+import type { ToolDefinition, ToolSchema } from './toolRegistry';
+import { getToolCaller } from '../services/runService';
+
+/**
+ * Obtém o schema declarado de uma tool nativa
+ */
+function schemaFor(schemas: ToolSchema[], name: string): ToolSchema {
+  const schema = schemas.find((candidate) => candidate.function.name === name);
+  if (!schema) {
+    throw new Error(`Schema da tool nativa "${name}" não encontrado`);
+  }
+  return schema;
+}
+
+export const builtinTools: ToolDefinition[] = [
+  // ========================================================================
+  // FERRAMENTAS DE SISTEMA DE ARQUIVOS
+  // ========================================================================
+  {
+    name: 'list_directory',
+    schema: schemaFor(fileSystemSchemas, 'list_directory'),
+    execute: (args) => fileSystemFunctions.listDirectory(args.dirPath),
+    permissions: { category: 'filesystem', readOnly: true },
+  },
+  {
+    name: 'read_file',
+    schema: schemaFor(fileSystemSchemas, 'read_file'),
+    execute: (args) => fileSystemFunctions.readFile(args.filePath),
+    permissions: { category: 'filesystem', readOnly: true },
+  },
+  {
+    name: 'find_file',
+    schema: schemaFor(fileSystemSchemas, 'find_file'),
+    execute: (args) => fileSystemFunctions.findFile(args.fileName, args.startDir || '.'),
+    permissions: { category: 'filesystem', readOnly: true },
+  },
+  {
+    name: 'detect_framework',
+    schema: schemaFor(fileSystemSchemas, 'detect_framework'),
+    execute: (args) => fileSystemFunctions.detectFramework(args.projectPath),
+    permissions: { category: 'filesystem', readOnly: true },
+  },
+  {
+    name: 'write_file',
+    schema: schemaFor(fileSystemSchemas, 'write_file'),
+    execute: (args) =>
+      fileSystemFunctions.writeFile(args.filePath, args.content, args.createDirectories !== false),
+    permissions: { category: 'filesystem', readOnly: false, requiresApproval: true },
+  },
+  {
+    name: 'replace_in_file',
+    schema: schemaFor(fileSystemSchemas, 'replace_in_file'),
+    // Passa o socket para emitir o diff (file_changed)
+    execute: (args, context) =>
+      fileSystemFunctions.replaceInFile(args.filePath, args.oldString ?? '', args.newString ?? '', args.replaceAll === true, context.socket),
+    permissions: { category: 'filesystem', readOnly: false, requiresApproval: true },
+  },
+  {
+    name: 'insert_at_line',
+    schema: schemaFor(fileSystemSchemas, 'insert_at_line'),
+    execute: (args, context) =>
+      fileSystemFunctions.insertAtLine(args.filePath, Number(args.line), args.content ?? '', context.socket),
+    permissions: { category: 'filesystem', readOnly: false, requiresApproval: true },
+  },
+  {
+    name: 'apply_patch',
+    schema: schemaFor(fileSystemSchemas, 'apply_patch'),
+    execute: (args, context) => fileSystemFunctions.applyPatch(args.filePath, args.patch ?? '', context.socket),
+    permissions: { category: 'filesystem', readOnly: false, requiresApproval: true },
+  },
+
+  // ========================================================================
+  // FERRAMENTAS DE TERMINAL
+  // ========================================================================
+  {
+    name: 'execute_command',
+    schema: schemaFor(terminalSchemas, 'execute_command'),
+    // Passa o socket para permitir streaming em tempo real e o sinal para cancelamento
+    execute: (args, context) =>
+      executeCommand(args.command, args.workingDirectory, context.socket, context.signal, context.approved),
+    permissions: { category: 'terminal', readOnly: false, requiresApproval: true },
+    // Comandos "ask" na política sempre pedem aprovação; comandos bloqueados não chegam ao usuário
+    approvalPolicy: (args, context) =>
+      evaluateCommandPolicy(String(args?.command ?? ''), getToolCaller(context.socket).agentName).decision,
+    // "Sempre permitir nesta conversa" libera apenas a mesma linha de comando
+    approvalScope: (args) => String(args?.command ?? '').trim().replace(/\s+/g, ' '),
+  },
+  {
+    name: 'check_service_status',
+    schema: schemaFor(terminalSchemas, 'check_service_status'),
+    execute: (args) => checkServiceStatus(args.serviceName),
+    permissions: { category: 'terminal', readOnly: true },
+  },
+  {
+    name: 'start_service',
+    schema: schemaFor(terminalSchemas, 'start_service'),
+    execute: (args) => startService(args.serviceName),
+    permissions: { category: 'terminal', readOnly: false },
+  },
+  {
+    name: 'stop_service',
+    schema: schemaFor(terminalSchemas, 'stop_service'),
+    execute: (args) => stopService(args.serviceName),
+    permissions: { category: 'terminal', readOnly: false, requiresApproval: true },
+  },
+  {
+    name: 'kill_process_on_port',
+    schema: schemaFor(terminalSchemas, 'kill_process_on_port'),
+    execute: (args) => killProcessOnPort(args.port),
+    permissions: { category: 'terminal', readOnly: false, requiresApproval: true },
+  },
+];
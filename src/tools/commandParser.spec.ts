@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeExecutable, parseCommandLine } from './commandParser';
+
+describe('parseCommandLine', () => {
+  it('separa comandos encadeados e pipelines', () => {
+    const parsed = parseCommandLine('npm test && git status | grep src; echo fim', 'linux');
+
+    assert.equal(parsed.error, undefined);
+    assert.deepEqual(parsed.commands.map((command) => command.executable), ['npm', 'git', 'grep', 'echo']);
+    assert.deepEqual(parsed.segments.map((segment) => segment.operator), ['&&', ';', undefined]);
+    assert.equal(parsed.segments[1].pipeline.length, 2);
+  });
+
+  it('remove aspas e escapes dos argumentos', () => {
+    const parsed = parseCommandLine(`echo "a b" 'c d' e\\ f`, 'linux');
+    assert.deepEqual(parsed.commands[0].argv, ['echo', 'a b', 'c d', 'e f']);
+  });
+
+  it('não divide operadores entre aspas', () => {
+    const parsed = parseCommandLine('echo "a && b; c | d"', 'linux');
+    assert.equal(parsed.commands.length, 1);
+    assert.deepEqual(parsed.commands[0].args, ['a && b; c | d']);
+  });
+
+  it('identifica redirecionamentos e atribuições', () => {
+    const parsed = parseCommandLine('NODE_ENV=test node app.js > out.txt 2>&1', 'linux');
+    const [command] = parsed.commands;
+
+    assert.deepEqual(command.assignments, ['NODE_ENV=test']);
+    assert.deepEqual(command.argv, ['node', 'app.js']);
+    assert.deepEqual(command.redirections, [
+      { operator: '>', target: 'out.txt' },
+      { operator: '2>&', target: '1' },
+    ]);
+  });
+
+  it('lê "&>" como segundo plano seguido de redirecionamento, como o sh', () => {
+    const parsed = parseCommandLine('npm start &>/dev/null', 'linux');
+    assert.equal(parsed.hasBackground, true);
+    assert.ok(parsed.error);
+
+    const redirected = parseCommandLine('echo x >& out.txt', 'linux');
+    assert.deepEqual(redirected.commands[0].redirections, [{ operator: '>&', target: 'out.txt' }]);
+  });
+
+  it('detecta substituição de comandos e segundo plano', () => {
+    assert.equal(parseCommandLine('echo $(whoami)', 'linux').hasSubstitution, true);
+    assert.equal(parseCommandLine('echo `whoami`', 'linux').hasSubstitution, true);
+    assert.equal(parseCommandLine("echo '$(whoami)'", 'linux').hasSubstitution, false);
+    assert.equal(parseCommandLine('node server.js &', 'linux').hasBackground, true);
+  });
+
+  it('reporta erros de sintaxe', () => {
+    assert.ok(parseCommandLine('echo "sem fim', 'linux').error);
+    assert.ok(parseCommandLine('&& ls', 'linux').error);
+    assert.ok(parseCommandLine('ls |', 'linux').error);
+  });
+
+  it('normaliza o executável', () => {
+    assert.equal(normalizeExecutable('/usr/bin/RM'), 'rm');
+    assert.equal(normalizeExecutable('C:\\Windows\\System32\\cmd.exe'), 'cmd');
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Parser de linhas de comando do terminal
+ *
+ * Divide a linha em comandos simples (argv), separando pipes, redirecionamentos
+ * e encadeamentos (`&&`, `||`, `;`, `&`) e respeitando aspas e escapes. Usado
+ * pela política de execução do execute_command, que avalia cada comando da
+ * linha em vez de procurar trechos no texto.
+ *
+ * Segue a sintaxe do sh; no Windows, barras invertidas são mantidas (caminhos),
+ * aspas simples não agrupam argumentos e `^` é o caractere de escape do cmd.
+ */
+
+/**
+ * Operador que liga um segmento da linha ao seguinte
+ */
+export type ChainOperator = '&&' | '||' | ';' | '&';
+
+/**
+ * Redirecionamento de entrada/saída (ex: `> out.txt`, `2>&1`, `< input.txt`)
+ */
+export interface CommandRedirection {
+  /** Operador com o descritor, se houver (ex: '>', '>>', '2>', '2>&', '<') */
+  operator: string;
+  target: string;
+}
+
+/**
+ * Comando simples (um programa e seus argumentos)
+ */
+export interface SimpleCommand {
+  /** Argumentos já sem aspas e escapes, começando pelo programa */
+  argv: string[];
+  /** Nome do programa sem caminho e extensão, em minúsculas (ex: "npm", "rm") */
+  executable: string;
+  args: string[];
+  redirections: CommandRedirection[];
+  /** Atribuições de variáveis antes do comando (ex: NODE_ENV=test) */
+  assignments: string[];
+}
+
+/**
+ * Pipeline (comandos ligados por `|`) e o operador que o liga ao próximo
+ */
+export interface CommandSegment {
+  pipeline: SimpleCommand[];
+  operator?: ChainOperator;
+}
+
+/**
+ * Linha de comando analisada
+ */
+export interface ParsedCommandLine {
+  raw: string;
+  segments: CommandSegment[];
+  /** Todos os comandos simples da linha, na ordem */
+  commands: SimpleCommand[];
+  /** Substituição de comandos ($(...), crases ou <(...)), cujo conteúdo não é analisado */
+  hasSubstitution: boolean;
+  /** Algum comando roda em segundo plano (`&` no sh) */
+  hasBackground: boolean;
+  /** Erro de sintaxe (aspas não fechadas, operador sem comando, etc.) */
+  error?: string;
+}
+
+type Token =
+  | { type: 'word'; value: string }
+  | { type: 'operator'; value: string };
+
+const EXECUTABLE_EXTENSIONS = /\.(exe|cmd|bat|com|ps1)$/i;
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/**
+ * Normaliza o nome do programa (sem caminho e extensão, em minúsculas)
+ */
+export function normalizeExecutable(program: string): string {
+  const baseName = program.split(/[\\/]/).pop() || program;
+  return baseName.replace(EXECUTABLE_EXTENSIONS, '').toLowerCase();
+}
+
+/**
+ * Divide a linha em palavras e operadores
+ */
+function tokenize(line: string, windows: boolean): { tokens: Token[]; hasSubstitution: boolean; error?: string } {
+  const tokens: Token[] = [];
+  let word = '';
+  let inWord = false;
+  let hasSubstitution = false;
+
+  const endWord = () => {
+    if (inWord) {
+      tokens.push({ type: 'word', value: word });
+    }
+    word = '';
+    inWord = false;
+  };
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    const next = line[index + 1];
+
+    if (char === ' ' || char === '\t') {
+      endWord();
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      endWord();
+      tokens.push({ type: 'operator', value: ';' });
+      continue;
+    }
+
+    // Escapes fora de aspas: "\" no sh, "^" no cmd
+    if ((!windows && char === '\\') || (windows && char === '^')) {
+      if (next === undefined) {
+        return { tokens, hasSubstitution, error: 'Escape no final da linha' };
+      }
+      index++;
+      if (next !== '\n') {
+        word += next;
+        inWord = true;
+      }
+      continue;
+    }
+
+    if (char === "'" && !windows) {
+      const end = line.indexOf("'", index + 1);
+      if (end === -1) {
+        return { tokens, hasSubstitution, error: 'Aspas simples não fechadas' };
+      }
+      word += line.slice(index + 1, end);
+      inWord = true;
+      index = end;
+      continue;
+    }
+
+    if (char === '"') {
+      let end = index + 1;
+      let value = '';
+      while (end < line.length && line[end] !== '"') {
+        if (!windows && line[end] === '\\' && ['"', '\\', '$', '`'].includes(line[end + 1])) {
+          value += line[end + 1];
+          end += 2;
+          continue;
+        }
+        if (!windows && (line[end] === '`' || (line[end] === '$' && line[end + 1] === '('))) {
+          hasSubstitution = true;
+        }
+        value += line[end];
+        end++;
+      }
+      if (end >= line.length) {
+        return { tokens, hasSubstitution, error: 'Aspas duplas não fechadas' };
+      }
+      word += value;
+      inWord = true;
+      index = end;
+      continue;
+    }
+
+    if (!windows && (char === '`' || (char === '$' && next === '('))) {
+      hasSubstitution = true;
+    }
+
+    // Substituição de processo: <(...) e >(...)
+    if (!windows && (char === '<' || char === '>') && next === '(') {
+      hasSubstitution = true;
+    }
+
+    // "&>" não é um operador próprio: no sh (dash) e no cmd é "&" seguido de ">"
+    if (char === '&' || char === '|' || char === ';' || char === '<' || char === '>') {
+      let operator: string;
+      if ((char === '&' || char === '|') && next === char) {
+        operator = char + char;
+      } else if (char === '|' && next === '&' && !windows) {
+        operator = '|&';
+      } else if (char === '>' && next === '>') {
+        operator = '>>';
+      } else if (char === '>' && next === '&') {
+        operator = '>&';
+      } else {
+        operator = char;
+      }
+
+      // Descritor colado ao redirecionamento (ex: 2>, 2>>, 1>&)
+      if ((char === '>' || char === '<') && inWord && /^\d+$/.test(word) && line[index - 1] === word[word.length - 1]) {
+        operator = word + operator;
+        word = '';
+        inWord = false;
+      } else {
+        endWord();
+      }
+
+      tokens.push({ type: 'operator', value: operator });
+      index += operator.replace(/^\d+/, '').length - 1;
+      continue;
+    }
+
+    word += char;
+    inWord = true;
+  }
+
+  endWord();
+  return { tokens, hasSubstitution };
+}
+
+function isRedirection(operator: string): boolean {
+  return /^\d*(>>?|>&|<)$/.test(operator);
+}
+
+/**
+ * Analisa uma linha de comando
+ *
+ * @param {string} line - Linha enviada ao execute_command
+ * @param {NodeJS.Platform} platform - Plataforma cuja sintaxe de shell será usada
+ * @returns {ParsedCommandLine} Segmentos, comandos simples e características da linha
+ */
+export function parseCommandLine(line: string, platform: NodeJS.Platform = process.platform): ParsedCommandLine {
+  const windows = platform === 'win32';
+  const { tokens, hasSubstitution, error } = tokenize(line, windows);
+  const result: ParsedCommandLine = {
+    raw: line,
+    segments: [],
+    commands: [],
+    hasSubstitution,
+    hasBackground: false,
+    ...(error ? { error } : {}),
+  };
+  if (error) {
+    return result;
+  }
+
+  let pipeline: SimpleCommand[] = [];
+  let words: string[] = [];
+  let redirections: CommandRedirection[] = [];
+
+  const closeCommand = (operator: string): string | null => {
+    if (words.length === 0) {
+      return `Sintaxe inválida: operador "${operator}" sem comando`;
+    }
+    const firstArgIndex = words.findIndex((value) => !ASSIGNMENT_PATTERN.test(value));
+    const assignments = firstArgIndex === -1 ? words : words.slice(0, firstArgIndex);
+    const argv = firstArgIndex === -1 ? [] : words.slice(firstArgIndex);
+    const command: SimpleCommand = {
+      argv,
+      executable: argv.length > 0 ? normalizeExecutable(argv[0]) : '',
+      args: argv.slice(1),
+      redirections,
+      assignments,
+    };
+    pipeline.push(command);
+    result.commands.push(command);
+    words = [];
+    redirections = [];
+    return null;
+  };
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    if (token.type === 'word') {
+      words.push(token.value);
+      continue;
+    }
+
+    if (isRedirection(token.value)) {
+      const target = tokens[index + 1];
+      if (!target || target.type !== 'word') {
+        result.error = `Redirecionamento "${token.value}" sem destino`;
+        return result;
+      }
+      redirections.push({ operator: token.value, target: target.value });
+      index++;
+      continue;
+    }
+
+    // Linhas e ";" finais (ou repetidos) não criam comandos vazios
+    if (token.value === ';' && words.length === 0 && pipeline.length === 0) {
+      continue;
+    }
+
+    const syntaxError = closeCommand(token.value);
+    if (syntaxError) {
+      result.error = syntaxError;
+      return result;
+    }
+
+    if (token.value === '|' || token.value === '|&') {
+      continue;
+    }
+
+    // No cmd do Windows, "&" separa comandos em sequência
+    const operator = (token.value === '&' && windows ? ';' : token.value) as ChainOperator;
+    if (operator === '&') {
+      result.hasBackground = true;
+    }
+    result.segments.push({ pipeline, operator });
+    pipeline = [];
+  }
+
+  if (words.length > 0 || redirections.length > 0) {
+    const syntaxError = closeCommand('fim da linha');
+    if (syntaxError) {
+      result.error = syntaxError;
+      return result;
+    }
+  } else if (pipeline.length > 0) {
+    // Pipe no fim da linha (ex: "ls |")
+    result.error = `Sintaxe inválida: operador "${tokens[tokens.length - 1].value}" sem comando`;
+    return result;
+  }
+
+  if (pipeline.length > 0) {
+    result.segments.push({ pipeline });
+  } else if (result.segments.length > 0) {
+    const last = result.segments[result.segments.length - 1];
+    if (last.operator === '&&' || last.operator === '||') {
+      result.error = `Sintaxe inválida: operador "${last.operator}" sem comando`;
+    }
+  } else if (pipeline.length === 0 && tokens.some((token) => token.type === 'operator' && (token.value === '|' || token.value === '|&'))) {
+    result.error = 'Sintaxe inválida: pipe sem comando';
+  }
+
+  return result;
+}
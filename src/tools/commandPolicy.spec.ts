@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandPolicyConfig, DEFAULT_COMMAND_POLICY_RULES, evaluateCommandPolicy } from './commandPolicy';
+
+const DEFAULT_POLICY: Required<CommandPolicyConfig> = {
+  defaultDecision: 'deny',
+  substitution: 'deny',
+  outputRedirection: 'ask',
+  background: 'deny',
+  extendDefaults: true,
+  rules: DEFAULT_COMMAND_POLICY_RULES,
+};
+
+function decide(command: string, policy: Required<CommandPolicyConfig> = DEFAULT_POLICY, agentName?: string) {
+  return evaluateCommandPolicy(command, agentName, policy).decision;
+}
+
+describe('evaluateCommandPolicy', () => {
+  it('permite ferramentas de desenvolvimento e comandos básicos', () => {
+    assert.equal(decide('npm test'), 'allow');
+    assert.equal(decide('git status && ls -la'), 'allow');
+  });
+
+  it('pede aprovação para programas que leem arquivos', () => {
+    assert.equal(decide('cat .env'), 'ask');
+    assert.equal(decide('git log | grep fix'), 'ask');
+    assert.equal(decide('type config.json'), 'ask');
+  });
+
+  it('bloqueia comandos perigosos mesmo encadeados após um permitido', () => {
+    assert.equal(decide('rm -rf /'), 'deny');
+    assert.equal(decide('npm test && sudo reboot'), 'deny');
+    assert.equal(decide('ls; /sbin/shutdown now'), 'deny');
+  });
+
+  it('nega comandos sem regra pelo padrão', () => {
+    const evaluation = evaluateCommandPolicy('curl https://example.com', undefined, DEFAULT_POLICY);
+    assert.equal(evaluation.decision, 'deny');
+    assert.match(evaluation.decisions[0].reason, /Nenhuma regra para "curl"/);
+  });
+
+  it('aplica as decisões de substituição, segundo plano e redirecionamento', () => {
+    assert.equal(decide('echo $(cat .env)'), 'deny');
+    assert.equal(decide('node server.js &'), 'deny');
+    assert.equal(decide('echo oi > saida.txt'), 'ask');
+    assert.equal(decide('npm test > /dev/null 2>&1'), 'allow');
+    assert.equal(decide('npm test 2>&-'), 'allow');
+  });
+
+  it('não deixa "&>" e ">&" escaparem da política', () => {
+    assert.equal(decide('npm start &>/dev/null'), 'deny');
+    assert.equal(decide('echo x >& out.txt'), 'ask');
+    assert.equal(decide('echo x 2>&saida.txt'), 'ask');
+  });
+
+  it('nega linhas com erro de sintaxe', () => {
+    assert.equal(decide('echo "sem fim'), 'deny');
+    assert.equal(decide(''), 'deny');
+  });
+
+  it('aplica regras restritas a agentes', () => {
+    const policy: Required<CommandPolicyConfig> = {
+      ...DEFAULT_POLICY,
+      rules: [
+        { id: 'ask-deploy', decision: 'ask', executables: ['npm'], argsPattern: '^run deploy\\b', agents: ['Deployer'] },
+        ...DEFAULT_COMMAND_POLICY_RULES,
+      ],
+    };
+
+    assert.equal(decide('npm run deploy', policy, 'Deployer'), 'ask');
+    assert.equal(decide('npm run deploy', policy, 'Code Analyzer'), 'allow');
+  });
+});
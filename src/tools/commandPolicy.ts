@@ -0,0 +1,310 @@
+/**
+ * Política declarativa de execução de comandos do terminal
+ *
+ * Cada comando simples da linha (ver commandParser) é comparado com regras
+ * allow/deny/ask por executável e padrão de argumentos, opcionalmente
+ * restritas a agentes. A primeira regra que corresponde decide o comando; a
+ * linha inteira recebe a decisão mais restritiva (deny > ask > allow) entre
+ * seus comandos e recursos de shell (substituição, redirecionamento de saída
+ * e segundo plano).
+ *
+ * As regras do config.json (`commandPolicy`) são avaliadas antes das regras
+ * padrão, permitindo liberar ou bloquear comandos específicos.
+ */
+
+import { loadConfigFromJson } from '../config/env';
+import { parseCommandLine, ParsedCommandLine, SimpleCommand } from './commandParser';
+
+export type PolicyDecision = 'allow' | 'deny' | 'ask';
+
+/**
+ * Regra da política de comandos
+ */
+export interface CommandPolicyRule {
+  /** Identificador exibido nas explicações e nos logs */
+  id?: string;
+  decision: PolicyDecision;
+  /** Executáveis (sem caminho/extensão); aceita `*` como curinga (ex: "mkfs*", "*") */
+  executables: string[];
+  /** Regex (sem diferenciar maiúsculas) aplicada aos argumentos unidos por espaço */
+  argsPattern?: string;
+  /** Agentes aos quais a regra se aplica (padrão: todos) */
+  agents?: string[];
+  reason?: string;
+}
+
+/**
+ * Política de comandos (campo `commandPolicy` do config.json)
+ */
+export interface CommandPolicyConfig {
+  /** Decisão para comandos sem regra correspondente (padrão: deny) */
+  defaultDecision?: PolicyDecision;
+  /** Substituição de comandos ($(...), crases), cujo conteúdo não pode ser avaliado (padrão: deny) */
+  substitution?: PolicyDecision;
+  /** Redirecionamento de saída para arquivos (>, >>); /dev/null, NUL e 2>&1 não contam (padrão: ask) */
+  outputRedirection?: PolicyDecision;
+  /** Comandos em segundo plano com `&` (padrão: deny) */
+  background?: PolicyDecision;
+  rules?: CommandPolicyRule[];
+  /** Avalia também as regras padrão após as do config (padrão: true) */
+  extendDefaults?: boolean;
+}
+
+/**
+ * Decisão sobre um comando simples ou recurso de shell da linha
+ */
+export interface CommandDecision {
+  /** Comando avaliado (argv unido) ou recurso de shell (ex: "redirecionamento > out.txt") */
+  subject: string;
+  decision: PolicyDecision;
+  /** ID da regra que decidiu (ausente quando a decisão vem do padrão ou da estrutura da linha) */
+  ruleId?: string;
+  reason: string;
+}
+
+/**
+ * Resultado da avaliação de uma linha de comando
+ */
+export interface CommandPolicyEvaluation {
+  command: string;
+  decision: PolicyDecision;
+  agentName?: string;
+  decisions: CommandDecision[];
+  parsed: ParsedCommandLine;
+}
+
+const DECISION_SEVERITY: Record<PolicyDecision, number> = { allow: 0, ask: 1, deny: 2 };
+
+const DECISION_LABELS: Record<PolicyDecision, string> = {
+  allow: 'permitido',
+  ask: 'requer aprovação',
+  deny: 'bloqueado',
+};
+
+/**
+ * Regras padrão (equivalentes às antigas listas de comandos perigosos e permitidos)
+ */
+export const DEFAULT_COMMAND_POLICY_RULES: CommandPolicyRule[] = [
+  {
+    id: 'deny-power',
+    decision: 'deny',
+    executables: ['shutdown', 'reboot', 'restart', 'halt', 'poweroff'],
+    reason: 'Desligar ou reiniciar a máquina não é permitido',
+  },
+  {
+    id: 'deny-disk',
+    decision: 'deny',
+    executables: ['format', 'diskpart', 'fdisk', 'mkfs*', 'dd', 'chkdsk', 'sfc'],
+    reason: 'Ferramentas de disco e de sistema não são permitidas',
+  },
+  {
+    id: 'deny-privilege',
+    decision: 'deny',
+    executables: ['sudo', 'su', 'doas', 'runas'],
+    reason: 'Elevação de privilégios não é permitida',
+  },
+  {
+    id: 'deny-recursive-delete',
+    decision: 'deny',
+    executables: ['rm'],
+    argsPattern: '(^|\\s)(-[a-z]*r[a-z]*|--recursive)(\\s|$)',
+    reason: 'Remoção recursiva não é permitida',
+  },
+  {
+    id: 'deny-recursive-delete-windows',
+    decision: 'deny',
+    executables: ['del', 'erase', 'rmdir', 'rd'],
+    argsPattern: '(^|\\s)/s(\\s|$)',
+    reason: 'Remoção recursiva não é permitida',
+  },
+  {
+    id: 'allow-dev-tools',
+    decision: 'allow',
+    executables: [
+      'npm', 'node', 'yarn', 'npx', 'tsc', 'ts-node', 'git', 'docker', 'python', 'pip', 'dotnet',
+      'ng', 'react-scripts', 'vue', 'next', 'nest', 'serve', 'http-server',
+      'jest', 'karma', 'mocha', 'vitest', 'cypress', 'playwright', 'jasmine',
+    ],
+    reason: 'Ferramenta de desenvolvimento',
+  },
+  {
+    id: 'ask-file-readers',
+    decision: 'ask',
+    executables: ['cat', 'type', 'grep', 'findstr'],
+    reason: 'Lê arquivos sem passar pelo .delsucignore (ex: .env, config.json)',
+  },
+  {
+    id: 'allow-shell-basics',
+    decision: 'allow',
+    executables: ['cd', 'dir', 'ls', 'echo', 'pwd', 'netstat', 'taskkill'],
+    reason: 'Comando básico de navegação e inspeção',
+  },
+  {
+    id: 'allow-net-services',
+    decision: 'allow',
+    executables: ['net'],
+    argsPattern: '^(start|stop)\\b',
+    reason: 'Iniciar ou parar serviços',
+  },
+  {
+    id: 'allow-powershell-list',
+    decision: 'allow',
+    executables: ['powershell', 'pwsh'],
+    argsPattern: '^-NoProfile\\s+-Command\\s+Get-ChildItem\\b',
+    reason: 'Listagem de arquivos via Get-ChildItem',
+  },
+];
+
+/**
+ * Carrega a política do config.json, aplicando os valores padrão
+ */
+export function loadCommandPolicy(): Required<CommandPolicyConfig> {
+  const configured = loadConfigFromJson()?.commandPolicy || {};
+  const configuredRules = Array.isArray(configured.rules) ? configured.rules : [];
+
+  return {
+    defaultDecision: configured.defaultDecision || 'deny',
+    substitution: configured.substitution || 'deny',
+    outputRedirection: configured.outputRedirection || 'ask',
+    background: configured.background || 'deny',
+    extendDefaults: configured.extendDefaults !== false,
+    rules: configured.extendDefaults === false
+      ? configuredRules
+      : [...configuredRules, ...DEFAULT_COMMAND_POLICY_RULES],
+  };
+}
+
+function matchesExecutable(patterns: string[], executable: string): boolean {
+  return patterns.some((pattern) => {
+    const escaped = pattern.toLowerCase().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`).test(executable);
+  });
+}
+
+function ruleMatches(rule: CommandPolicyRule, command: SimpleCommand, agentName?: string): boolean {
+  if (!Array.isArray(rule.executables) || !matchesExecutable(rule.executables, command.executable)) {
+    return false;
+  }
+  if (rule.agents && rule.agents.length > 0 && (!agentName || !rule.agents.includes(agentName))) {
+    return false;
+  }
+  if (rule.argsPattern) {
+    try {
+      return new RegExp(rule.argsPattern, 'i').test(command.args.join(' '));
+    } catch {
+      // Regex inválida no config: a regra é ignorada
+      return false;
+    }
+  }
+  return true;
+}
+
+function describeRule(rule: CommandPolicyRule, index: number): string {
+  return rule.id || `rules[${index}]`;
+}
+
+/**
+ * Redirecionamento de saída que grava em arquivo (descarta /dev/null, NUL e duplicação de descritores)
+ */
+function isFileOutputRedirection(operator: string, target: string): boolean {
+  if (operator.endsWith('<')) {
+    return false;
+  }
+  // ">&1" e ">&-" duplicam ou fecham descritores; no bash, ">& arquivo" grava no arquivo
+  if (operator.endsWith('>&') && /^(\d+|-)$/.test(target)) {
+    return false;
+  }
+  return !/^(\/dev\/null|nul)$/i.test(target);
+}
+
+/**
+ * Avalia uma linha de comando contra a política
+ *
+ * @param {string} command - Linha enviada ao execute_command
+ * @param {string} agentName - Agente que solicitou o comando (para regras com `agents`)
+ * @param {CommandPolicyConfig} policy - Política a usar (padrão: config.json + regras padrão)
+ * @returns {CommandPolicyEvaluation} Decisão final e a explicação de cada comando
+ */
+export function evaluateCommandPolicy(
+  command: string,
+  agentName?: string,
+  policy: Required<CommandPolicyConfig> = loadCommandPolicy()
+): CommandPolicyEvaluation {
+  const parsed = parseCommandLine(command);
+  const decisions: CommandDecision[] = [];
+
+  if (parsed.error) {
+    decisions.push({ subject: command, decision: 'deny', reason: `Comando inválido: ${parsed.error}` });
+  } else if (parsed.commands.length === 0) {
+    decisions.push({ subject: command, decision: 'deny', reason: 'Nenhum comando informado' });
+  }
+
+  if (parsed.hasSubstitution) {
+    decisions.push({
+      subject: 'substituição de comando',
+      decision: policy.substitution,
+      reason: 'O conteúdo de $(...) e crases não pode ser avaliado pela política',
+    });
+  }
+  if (parsed.hasBackground) {
+    decisions.push({
+      subject: 'execução em segundo plano (&)',
+      decision: policy.background,
+      reason: 'Processos em segundo plano continuam rodando após o fim do comando',
+    });
+  }
+
+  // Com erro de sintaxe, os comandos parciais não são avaliados
+  for (const simpleCommand of parsed.error ? [] : parsed.commands) {
+    const subject = simpleCommand.argv.join(' ') || simpleCommand.assignments.join(' ');
+
+    if (!simpleCommand.executable) {
+      decisions.push({ subject, decision: policy.defaultDecision, reason: 'Atribuição de variável sem comando' });
+    } else {
+      const ruleIndex = policy.rules.findIndex((rule) => ruleMatches(rule, simpleCommand, agentName));
+      const rule = policy.rules[ruleIndex];
+      decisions.push(rule
+        ? {
+            subject,
+            decision: rule.decision,
+            ruleId: describeRule(rule, ruleIndex),
+            reason: rule.reason || `Regra ${describeRule(rule, ruleIndex)}`,
+          }
+        : {
+            subject,
+            decision: policy.defaultDecision,
+            reason: `Nenhuma regra para "${simpleCommand.executable}"`,
+          });
+    }
+
+    simpleCommand.redirections
+      .filter((redirection) => isFileOutputRedirection(redirection.operator, redirection.target))
+      .forEach((redirection) => {
+        decisions.push({
+          subject: `redirecionamento ${redirection.operator} ${redirection.target}`,
+          decision: policy.outputRedirection,
+          reason: 'Grava a saída do comando em arquivo',
+        });
+      });
+  }
+
+  const decision = decisions.reduce<PolicyDecision>(
+    (current, item) => (DECISION_SEVERITY[item.decision] > DECISION_SEVERITY[current] ? item.decision : current),
+    'allow'
+  );
+
+  return { command, decision, agentName, decisions, parsed };
+}
+
+/**
+ * Formata a avaliação para o resultado da tool (uma linha por comando avaliado)
+ */
+export function explainCommandPolicy(evaluation: CommandPolicyEvaluation): string {
+  const header = `🛡️ Política de comandos: ${DECISION_LABELS[evaluation.decision]}` +
+    (evaluation.agentName ? ` (agente: ${evaluation.agentName})` : '');
+  const lines = evaluation.decisions.map((item) => {
+    const icon = item.decision === 'allow' ? '✅' : item.decision === 'ask' ? '⏸️' : '❌';
+    return `  ${icon} ${item.subject}: ${item.reason}${item.ruleId ? ` [${item.ruleId}]` : ''}`;
+  });
+  return [header, ...lines].join('\n');
+}
@@ -0,0 +1,48 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileSystemFunctions } from './fileSystemTools';
+
+describe('fileSystemFunctions', () => {
+  const originalCwd = process.cwd();
+  let baseDir: string;
+
+  before(() => {
+    // loadConfigFromJson registra cada leitura do config.json
+    mock.method(console, 'log', () => {});
+    baseDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'delsuc-files-')));
+    fs.writeFileSync(path.join(baseDir, 'app.ts'), 'export {};\n');
+    fs.writeFileSync(path.join(baseDir, '.env.local'), 'SENHA=123\n');
+    fs.symlinkSync(path.join(baseDir, 'removido.ts'), path.join(baseDir, 'link-quebrado.ts'));
+    fs.writeFileSync(path.join(baseDir, 'config.json'), JSON.stringify({ workspaceRoots: [baseDir] }));
+    process.chdir(baseDir);
+  });
+
+  after(() => {
+    mock.restoreAll();
+    process.chdir(originalCwd);
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('lista o diretório mesmo com links quebrados', async () => {
+    const result = await fileSystemFunctions.listDirectory('.');
+
+    assert.match(result, /\[FILE\] app\.ts \(11 bytes\)/);
+    assert.match(result, /\[\?\] link-quebrado\.ts \(inacessível: ENOENT\)/);
+    assert.match(result, /1 item\(ns\) oculto\(s\) pelo \.delsucignore/);
+  });
+
+  it('não revela se arquivos ocultos pelo .delsucignore existem', async () => {
+    const existing = await fileSystemFunctions.readFile('.env.local');
+    const missing = await fileSystemFunctions.readFile('.env');
+
+    assert.match(existing, /Acesso negado\. Arquivo oculto pelo \.delsucignore/);
+    assert.equal(missing, existing.replace('.env.local', '.env'));
+  });
+
+  it('informa arquivos visíveis que não existem', async () => {
+    assert.equal(await fileSystemFunctions.readFile('ausente.ts'), 'Erro: Arquivo não encontrado: ausente.ts');
+  });
+});
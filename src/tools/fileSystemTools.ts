@@ -1,85 +1,108 @@
 import path from 'path';
 import fs from 'fs/promises';
-import { existsSync } from 'fs';
+import { existsSync, Stats } from 'fs';
+import { Socket } from 'socket.io';
+
+import { isIgnoreFilePath, isWorkspacePathIgnored, resolveWorkspacePath, WorkspaceRoot } from './workspaceRoots';
+import { applyUnifiedPatch, createUnifiedDiff, joinLines, splitLines } from '../utils/textDiff';
+import { emitToMonitors } from '../services/monitoringService';
+import { getToolCaller } from '../services/runService';
 
 // Diretório base do projeto (raiz do workspace)
 export const PROJECT_ROOT = process.cwd();
 
+// Limite de tamanho dos arquivos lidos e editados (1MB)
+const MAX_FILE_SIZE = 1024 * 1024;
+
 /**
- * Verifica se um caminho está dentro de um diretório permitido
+ * Verifica se as tools podem escrever no caminho: arquivos ocultos pelo
+ * .delsucignore e o próprio .delsucignore não são alterados pelos agentes
+ *
+ * @returns Mensagem de erro ou null se a escrita é permitida
  */
-function isPathAllowed(filePath: string): boolean {
-  const normalizedPath = path.normalize(filePath);
-  
-  // Bloqueia caminhos perigosos do sistema
-  const dangerousPaths = [
-    'C:\\Windows',
-    'C:\\Program Files',
-    'C:\\Program Files (x86)',
-    '/etc',
-    '/usr',
-    '/bin',
-    '/sbin',
-    '/var',
-    '/sys',
-    '/root'
-  ];
-  
-  for (const dangerous of dangerousPaths) {
-    if (normalizedPath.toLowerCase().startsWith(dangerous.toLowerCase())) {
-      return false;
-    }
-  }
-  
-  // Permite caminhos no Desktop, Documents, Projects, ou subdiretórios do usuário
-  const userProfile = process.env.USERPROFILE || process.env.HOME || '';
-  if (userProfile) {
-    const allowedBasePaths = [
-      path.join(userProfile, 'Desktop'),
-      path.join(userProfile, 'Documents'),
-      path.join(userProfile, 'Projects'),
-      path.join(userProfile, 'Downloads'),
-      PROJECT_ROOT
-    ];
-    
-    for (const allowedDir of allowedBasePaths) {
-      const normalizedAllowed = path.normalize(allowedDir);
-      if (normalizedPath.toLowerCase().startsWith(normalizedAllowed.toLowerCase())) {
-        return true;
-      }
-    }
-  }
-  
-  // Permite caminhos que começam com C:\Users (Windows) ou /home (Linux/Mac)
-  // mas apenas dentro de diretórios seguros do usuário
-  if (normalizedPath.match(/^[Cc]:\\Users\\[^\\]+/i) || 
-      normalizedPath.match(/^\/home\/[^\/]+/i) ||
-      normalizedPath.match(/^\/Users\/[^\/]+/i)) {
-    // Verifica se não está em diretórios perigosos
-    return !dangerousPaths.some(dangerous => 
-      normalizedPath.toLowerCase().includes(dangerous.toLowerCase())
-    );
+function getWriteBlockedError(roots: WorkspaceRoot[], realPath: string, filePath: string): string | null {
+  if (isIgnoreFilePath(realPath)) {
+    return `Erro: Acesso negado. O arquivo .delsucignore não pode ser alterado pelas tools: ${filePath}`;
   }
-  
-  // Permite acesso ao próprio diretório do projeto
-  if (normalizedPath.startsWith(path.normalize(PROJECT_ROOT))) {
-    return true;
+  if (isWorkspacePathIgnored(roots, realPath, false)) {
+    return `Erro: Acesso negado. Arquivo oculto pelo .delsucignore: ${filePath}`;
   }
-  
-  // Por padrão, nega acesso (mais seguro)
-  return false;
+  return null;
 }
 
 /**
- * Resolve um caminho, aceitando tanto relativos quanto absolutos
+ * Aplica uma edição a um arquivo existente e retorna o diff resultante
+ *
+ * Usado pelas tools de edição parcial (replace_in_file, insert_at_line,
+ * apply_patch). A edição recebe o conteúdo atual e retorna o novo conteúdo,
+ * ou lança um erro com a mensagem devolvida ao agente. O diff também é
+ * emitido ao cliente como `file_changed`.
  */
-function resolvePath(inputPath: string, basePath: string = PROJECT_ROOT): string {
-  // Se for caminho absoluto, usa diretamente
-  if (path.isAbsolute(inputPath)) {
-    return path.normalize(inputPath);
+async function editExistingFile(
+  toolName: string,
+  filePath: string,
+  socket: Socket | undefined,
+  edit: (content: string) => string
+): Promise<string> {
+  const access = await resolveWorkspacePath(filePath, 'write');
+  if (!access.allowed) {
+    return access.error;
+  }
+  const fullPath = access.realPath;
+
+  // Verificado antes da existência, como no read_file
+  const blockedError = getWriteBlockedError(access.roots, fullPath, filePath);
+  if (blockedError) {
+    return blockedError;
+  }
+
+  if (!existsSync(fullPath)) {
+    return `Erro: Arquivo não encontrado: ${filePath}. Use write_file para criar arquivos novos.`;
+  }
+
+  const stats = await fs.stat(fullPath);
+  if (!stats.isFile()) {
+    return `Erro: O caminho não é um arquivo: ${filePath}`;
+  }
+
+  if (stats.size > MAX_FILE_SIZE) {
+    return `Erro: Arquivo muito grande (${Math.round(stats.size / 1024)}KB). Limite: 1MB.`;
+  }
+
+  const before = await fs.readFile(fullPath, 'utf-8');
+  let after: string;
+  try {
+    after = edit(before);
+  } catch (error: any) {
+    return `Erro: ${error.message}`;
+  }
+
+  // Os cabeçalhos do diff usam o caminho relativo à raiz do workspace
+  const diffPath = path.relative(access.root.path, fullPath).split(path.sep).join('/');
+  const diff = createUnifiedDiff(diffPath, before, after);
+  if (!diff.unified) {
+    return `Nenhuma alteração em ${filePath}: o conteúdo resultante é idêntico ao atual.`;
+  }
+
+  await fs.writeFile(fullPath, after, 'utf-8');
+
+  if (socket) {
+    const { threadId, agentName } = getToolCaller(socket);
+    const fileChangedData = {
+      tool: toolName,
+      filePath,
+      diff: diff.unified,
+      additions: diff.additions,
+      deletions: diff.deletions,
+      agentName: agentName || null,
+      threadId: threadId || null,
+      timestamp: new Date().toISOString(),
+    };
+    socket.emit('file_changed', fileChangedData);
+    emitToMonitors(socket.id, 'file_changed', fileChangedData);
   }
-  // Caso contrário, resolve relativo ao basePath
-  return path.resolve(basePath, inputPath);
+
+  return `✅ Arquivo atualizado com sucesso: ${filePath} (+${diff.additions} -${diff.deletions})\n\n${diff.unified}`;
 }
 
 // Funções para navegação de arquivos
@@ -87,12 +110,12 @@ export const fileSystemFunctions = {
   // Lista arquivos e diretórios em um caminho
   async listDirectory(dirPath: string): Promise<string> {
     try {
-      const fullPath = resolvePath(dirPath);
-      
-      // Verifica se o caminho está permitido
-      if (!isPathAllowed(fullPath)) {
-        return `Erro: Acesso negado. Caminho não permitido por questões de segurança: ${dirPath}`;
+      // Verifica se o caminho (após resolver links simbólicos) está em uma raiz do workspace
+      const access = await resolveWorkspacePath(dirPath, 'read');
+      if (!access.allowed) {
+        return access.error;
       }
+      const fullPath = access.realPath;
 
       if (!existsSync(fullPath)) {
         return `Erro: Diretório não encontrado: ${dirPath}`;
@@ -107,14 +130,30 @@ export const fileSystemFunctions = {
       const details = await Promise.all(
         items.map(async (item) => {
           const itemPath = path.join(fullPath, item);
-          const itemStats = await fs.stat(itemPath);
+          let itemStats: Stats;
+          try {
+            itemStats = await fs.stat(itemPath);
+          } catch (error: any) {
+            // Links quebrados e itens sem permissão aparecem na listagem sem derrubar o restante
+            if (isWorkspacePathIgnored(access.roots, itemPath, false)) {
+              return null;
+            }
+            return `[?] ${item} (inacessível: ${error.code || error.message})`;
+          }
+          // Itens do .delsucignore não são listados
+          if (isWorkspacePathIgnored(access.roots, itemPath, itemStats.isDirectory())) {
+            return null;
+          }
           const type = itemStats.isDirectory() ? '[DIR]' : '[FILE]';
           const size = itemStats.isFile() ? ` (${itemStats.size} bytes)` : '';
           return `${type} ${item}${size}`;
         })
       );
 
-      return `Conteúdo de ${dirPath}:\n${details.join('\n')}`;
+      const visible = details.filter((detail): detail is string => detail !== null);
+      const hiddenCount = details.length - visible.length;
+      const hiddenNote = hiddenCount > 0 ? `\n(${hiddenCount} item(ns) oculto(s) pelo .delsucignore)` : '';
+      return `Conteúdo de ${dirPath}:\n${visible.join('\n')}${hiddenNote}`;
     } catch (error: any) {
       return `Erro ao listar diretório: ${error.message}`;
     }
@@ -123,11 +162,16 @@ export const fileSystemFunctions = {
   // Lê o conteúdo de um arquivo
   async readFile(filePath: string): Promise<string> {
     try {
-      const fullPath = resolvePath(filePath);
-      
-      // Verifica se o caminho está permitido
-      if (!isPathAllowed(fullPath)) {
-        return `Erro: Acesso negado. Caminho não permitido por questões de segurança: ${filePath}`;
+      // Verifica se o caminho (após resolver links simbólicos) está em uma raiz do workspace
+      const access = await resolveWorkspacePath(filePath, 'read');
+      if (!access.allowed) {
+        return access.error;
+      }
+      const fullPath = access.realPath;
+
+      // O .delsucignore é verificado antes da existência para não revelar se arquivos ocultos (ex: .env) existem
+      if (isWorkspacePathIgnored(access.roots, fullPath, false)) {
+        return `Erro: Acesso negado. Arquivo oculto pelo .delsucignore: ${filePath}`;
       }
 
       if (!existsSync(fullPath)) {
@@ -140,7 +184,7 @@ export const fileSystemFunctions = {
       }
 
       // Limita tamanho de arquivo para 1MB
-      if (stats.size > 1024 * 1024) {
+      if (stats.size > MAX_FILE_SIZE) {
         return `Erro: Arquivo muito grande (${Math.round(stats.size / 1024)}KB). Limite: 1MB.`;
       }
 
@@ -154,11 +198,12 @@ export const fileSystemFunctions = {
   // Procura arquivos por nome no projeto
   async findFile(fileName: string, startDir: string = '.'): Promise<string> {
     try {
-      const fullStartPath = resolvePath(startDir);
-      
-      if (!isPathAllowed(fullStartPath)) {
-        return `Erro: Acesso negado. Caminho não permitido por questões de segurança: ${startDir}`;
+      const access = await resolveWorkspacePath(startDir, 'read');
+      if (!access.allowed) {
+        return access.error;
       }
+      const fullStartPath = access.realPath;
+      const roots = access.roots;
 
       const foundFiles: string[] = [];
 
@@ -178,10 +223,23 @@ export const fileSystemFunctions = {
             }
 
             try {
-              const stats = await fs.stat(itemPath);
+              // Links simbólicos só são seguidos se o destino estiver em uma raiz do workspace
+              let realItemPath = itemPath;
+              if ((await fs.lstat(itemPath)).isSymbolicLink()) {
+                const linkAccess = await resolveWorkspacePath(itemPath, 'read');
+                if (!linkAccess.allowed) {
+                  continue;
+                }
+                realItemPath = linkAccess.realPath;
+              }
+
+              const stats = await fs.stat(realItemPath);
+              if (isWorkspacePathIgnored(roots, realItemPath, stats.isDirectory())) {
+                continue;
+              }
               
               if (stats.isDirectory()) {
-                await searchDirectory(itemPath);
+                await searchDirectory(realItemPath);
               } else if (stats.isFile() && item.includes(fileName)) {
                 foundFiles.push(relativePath);
               }
@@ -210,21 +268,22 @@ export const fileSystemFunctions = {
   // Cria ou edita um arquivo
   async writeFile(filePath: string, content: string, createDirectories: boolean = true): Promise<string> {
     try {
-      const fullPath = resolvePath(filePath);
-      
-      // Verifica se o caminho está permitido
-      if (!isPathAllowed(fullPath)) {
-        return `Erro: Acesso negado. Caminho não permitido por questões de segurança: ${filePath}`;
+      // Escrita exige uma raiz read-write; diretórios criados ficam dentro da mesma raiz
+      const access = await resolveWorkspacePath(filePath, 'write');
+      if (!access.allowed) {
+        return access.error;
+      }
+      const fullPath = access.realPath;
+
+      const blockedError = getWriteBlockedError(access.roots, fullPath, filePath);
+      if (blockedError) {
+        return blockedError;
       }
 
-      // Verifica se o diretório existe, se não, cria (se permitido)
+      // Verifica se o diretório existe, se não, cria
       const dirPath = path.dirname(fullPath);
       if (!existsSync(dirPath)) {
         if (createDirectories) {
-          // Verifica se o diretório pai está permitido
-          if (!isPathAllowed(dirPath)) {
-            return `Erro: Acesso negado. Não é possível criar diretório em: ${dirPath}`;
-          }
           await fs.mkdir(dirPath, { recursive: true });
         } else {
           return `Erro: Diretório não existe: ${dirPath}`;
@@ -244,14 +303,80 @@ export const fileSystemFunctions = {
     }
   },
 
+  // Substitui um trecho exato de um arquivo
+  async replaceInFile(
+    filePath: string,
+    oldString: string,
+    newString: string,
+    replaceAll: boolean = false,
+    socket?: Socket
+  ): Promise<string> {
+    try {
+      if (!oldString) {
+        return 'Erro: "oldString" não pode ser vazio. Use insert_at_line para inserir conteúdo.';
+      }
+
+      return await editExistingFile('replace_in_file', filePath, socket, (content) => {
+        const occurrences = content.split(oldString).length - 1;
+        if (occurrences === 0) {
+          throw new Error(
+            `Trecho não encontrado em ${filePath}. O texto de "oldString" deve ser idêntico ao do arquivo, ` +
+            'incluindo espaços e indentação. Leia o arquivo novamente antes de tentar de novo.'
+          );
+        }
+        if (occurrences > 1 && !replaceAll) {
+          throw new Error(
+            `O trecho aparece ${occurrences} vezes em ${filePath}. Inclua mais linhas de contexto em "oldString" ` +
+            'para identificar uma única ocorrência, ou use replaceAll: true para substituir todas.'
+          );
+        }
+        // split/join evita que "$&" e similares em newString sejam interpretados como padrões de substituição
+        return replaceAll
+          ? content.split(oldString).join(newString)
+          : content.replace(oldString, () => newString);
+      });
+    } catch (error: any) {
+      return `Erro ao editar arquivo: ${error.message}`;
+    }
+  },
+
+  // Insere conteúdo antes de uma linha de um arquivo
+  async insertAtLine(filePath: string, line: number, content: string, socket?: Socket): Promise<string> {
+    try {
+      return await editExistingFile('insert_at_line', filePath, socket, (current) => {
+        const text = splitLines(current);
+        if (!Number.isInteger(line) || line < 1 || line > text.lines.length + 1) {
+          throw new Error(
+            `Linha inválida: ${line}. O arquivo ${filePath} tem ${text.lines.length} linha(s); ` +
+            `use um valor entre 1 e ${text.lines.length + 1} (${text.lines.length + 1} insere no final).`
+          );
+        }
+        const inserted = splitLines(content).lines;
+        text.lines.splice(line - 1, 0, ...(inserted.length > 0 ? inserted : ['']));
+        return joinLines({ ...text, finalNewline: text.finalNewline || current === '' });
+      });
+    } catch (error: any) {
+      return `Erro ao editar arquivo: ${error.message}`;
+    }
+  },
+
+  // Aplica um patch no formato unified diff a um arquivo
+  async applyPatch(filePath: string, patch: string, socket?: Socket): Promise<string> {
+    try {
+      return await editExistingFile('apply_patch', filePath, socket, (content) => applyUnifiedPatch(content, patch));
+    } catch (error: any) {
+      return `Erro ao aplicar patch: ${error.message}`;
+    }
+  },
+
   // Detecta o framework de um projeto
   async detectFramework(projectPath: string): Promise<string> {
     try {
-      const fullPath = resolvePath(projectPath);
-      
-      if (!isPathAllowed(fullPath)) {
-        return `Erro: Acesso negado. Caminho não permitido: ${projectPath}`;
+      const access = await resolveWorkspacePath(projectPath, 'read');
+      if (!access.allowed) {
+        return access.error;
       }
+      const fullPath = access.realPath;
 
       if (!existsSync(fullPath)) {
         return `Erro: Diretório não encontrado: ${projectPath}`;
@@ -421,6 +546,82 @@ export const tools = [
         required: ['filePath', 'content']
       }
     }
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'replace_in_file',
+      description: 'Edita um arquivo existente substituindo um trecho exato por outro, sem reescrever o arquivo inteiro. O trecho deve aparecer uma única vez (inclua linhas de contexto se necessário), a menos que replaceAll seja true. Retorna o diff da alteração. Prefira esta tool a write_file para editar arquivos existentes.',
+      parameters: {
+        type: 'object',
+        properties: {
+          filePath: {
+            type: 'string',
+            description: 'Caminho do arquivo a editar (relativo ou absoluto). Exemplo: "src/app.ts"'
+          },
+          oldString: {
+            type: 'string',
+            description: 'Trecho atual, idêntico ao do arquivo (incluindo espaços e indentação)'
+          },
+          newString: {
+            type: 'string',
+            description: 'Novo trecho que substitui oldString'
+          },
+          replaceAll: {
+            type: 'boolean',
+            description: 'Se true, substitui todas as ocorrências (padrão: false)',
+            default: false
+          }
+        },
+        required: ['filePath', 'oldString', 'newString']
+      }
+    }
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'insert_at_line',
+      description: 'Insere conteúdo em um arquivo existente antes da linha informada (numeração a partir de 1; use o total de linhas + 1 para inserir no final). Retorna o diff da alteração.',
+      parameters: {
+        type: 'object',
+        properties: {
+          filePath: {
+            type: 'string',
+            description: 'Caminho do arquivo a editar (relativo ou absoluto). Exemplo: "src/app.ts"'
+          },
+          line: {
+            type: 'integer',
+            description: 'Número da linha antes da qual o conteúdo é inserido (1 = início do arquivo)'
+          },
+          content: {
+            type: 'string',
+            description: 'Conteúdo a inserir (uma ou mais linhas)'
+          }
+        },
+        required: ['filePath', 'line', 'content']
+      }
+    }
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'apply_patch',
+      description: 'Aplica a um arquivo existente um patch no formato unified diff (blocos "@@ -a,b +c,d @@" com linhas " ", "-" e "+"). Os cabeçalhos ---/+++ são opcionais e o patch deve alterar um único arquivo. As linhas de contexto e removidas precisam corresponder ao conteúdo atual. Retorna o diff aplicado.',
+      parameters: {
+        type: 'object',
+        properties: {
+          filePath: {
+            type: 'string',
+            description: 'Caminho do arquivo a editar (relativo ou absoluto). Exemplo: "src/app.ts"'
+          },
+          patch: {
+            type: 'string',
+            description: 'Patch no formato unified diff'
+          }
+        },
+        required: ['filePath', 'patch']
+      }
+    }
   }
 ];
 
@@ -0,0 +1,288 @@
+/**
+ * Cliente MCP (Model Context Protocol) via stdio
+ *
+ * Inicia o servidor MCP como processo filho e conversa com ele usando
+ * JSON-RPC 2.0 delimitado por linha (transporte stdio do protocolo).
+ * Implementa apenas o necessário para expor tools aos agentes:
+ * `initialize`, `tools/list` e `tools/call`.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+
+/**
+ * Versão do protocolo MCP anunciada no initialize
+ */
+const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+/**
+ * Timeout padrão das requisições ao servidor MCP (ms)
+ */
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Configuração de um servidor MCP no agents.json (`mcpServers`)
+ */
+export interface McpServerConfig {
+  /** Executável que inicia o servidor (ex: "node", "npx", "python") */
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Permite desabilitar o servidor sem removê-lo do arquivo (padrão: true) */
+  enabled?: boolean;
+  /** Prefixo aplicado aos nomes das tools (evita conflito entre servidores) */
+  toolPrefix?: string;
+  /** Timeout das requisições em ms (padrão: 30000) */
+  timeoutMs?: number;
+  /**
+   * Exige aprovação do usuário antes de chamar as tools do servidor
+   * (padrão: apenas tools sem a anotação `readOnlyHint`)
+   */
+  requireApproval?: boolean;
+}
+
+/**
+ * Tool anunciada por um servidor MCP (`tools/list`)
+ */
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+  annotations?: {
+    readOnlyHint?: boolean;
+    [key: string]: any;
+  };
+}
+
+/**
+ * Requisição aguardando resposta do servidor
+ */
+interface PendingRequest {
+  method: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Cliente de um servidor MCP stdio
+ */
+export class McpStdioClient {
+  readonly serverName: string;
+  private config: McpServerConfig;
+  private child?: ChildProcess;
+  private nextRequestId = 1;
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+  private stdoutBuffer = '';
+  private exitListener?: (reason: string) => void;
+
+  constructor(serverName: string, config: McpServerConfig) {
+    this.serverName = serverName;
+    this.config = config;
+  }
+
+  /**
+   * Registra o callback chamado quando o processo do servidor termina sem `close()`
+   */
+  onExit(listener: (reason: string) => void): void {
+    this.exitListener = listener;
+  }
+
+  /**
+   * Inicia o processo do servidor e executa o handshake do protocolo
+   */
+  async connect(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args || [], {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: process.platform === 'win32',
+    });
+    this.child = child;
+
+    child.stdout?.setEncoding('utf-8');
+    child.stdout?.on('data', (chunk: string) => this.handleStdout(chunk));
+    child.stderr?.on('data', (chunk: Buffer) => {
+      const text = chunk.toString().trim();
+      if (text) {
+        console.log(`[MCP ${this.serverName}] ${text}`);
+      }
+    });
+    child.on('error', (error) => {
+      this.rejectAll(new Error(`Erro no processo do servidor MCP "${this.serverName}": ${error.message}`));
+    });
+    child.on('exit', (code, signal) => {
+      // Após close() o processo já foi desvinculado: o encerramento era esperado
+      const unexpected = this.child === child;
+      this.child = undefined;
+      const reason = `código: ${code ?? signal}`;
+      this.rejectAll(new Error(`Servidor MCP "${this.serverName}" encerrado (${reason})`));
+      if (unexpected) {
+        this.exitListener?.(reason);
+      }
+    });
+
+    await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'delsuc-ia', version: '1.0.0' },
+    });
+    this.notify('notifications/initialized');
+  }
+
+  /**
+   * Lista as tools anunciadas pelo servidor (percorre a paginação)
+   */
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : {});
+      tools.push(...(result?.tools || []));
+      cursor = result?.nextCursor;
+    } while (cursor);
+
+    return tools;
+  }
+
+  /**
+   * Chama uma tool do servidor e converte o conteúdo retornado em texto
+   */
+  async callTool(name: string, args: Record<string, any>, signal?: AbortSignal): Promise<string> {
+    const result = await this.request('tools/call', { name, arguments: args || {} }, signal);
+
+    const text = (result?.content || [])
+      .map((part: any) => {
+        if (part.type === 'text') return part.text;
+        if (part.type === 'resource') return part.resource?.text ?? `[recurso: ${part.resource?.uri}]`;
+        return `[conteúdo ${part.type} omitido]`;
+      })
+      .join('\n');
+
+    return result?.isError ? `Erro: ${text}` : text;
+  }
+
+  /**
+   * Encerra o processo do servidor
+   */
+  close(): void {
+    this.rejectAll(new Error(`Conexão com servidor MCP "${this.serverName}" encerrada`));
+    if (this.child) {
+      this.child.kill();
+      this.child = undefined;
+    }
+  }
+
+  /**
+   * Envia uma requisição JSON-RPC e aguarda a resposta
+   */
+  private request(method: string, params: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    if (!this.child?.stdin?.writable) {
+      return Promise.reject(new Error(`Servidor MCP "${this.serverName}" não está em execução`));
+    }
+
+    const id = this.nextRequestId++;
+    const timeoutMs = this.config.timeoutMs || DEFAULT_REQUEST_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.notify('notifications/cancelled', { requestId: id, reason: 'Run cancelado pelo usuário' });
+        this.settle(id, new Error(`Chamada "${method}" cancelada`));
+      };
+
+      const timer = setTimeout(() => {
+        this.settle(id, new Error(`Timeout de ${timeoutMs}ms aguardando "${method}" do servidor MCP "${this.serverName}"`));
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, {
+        method,
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        timer,
+      });
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.write({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  /**
+   * Envia uma notificação JSON-RPC (sem resposta)
+   */
+  private notify(method: string, params?: Record<string, any>): void {
+    if (this.child?.stdin?.writable) {
+      this.write({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+    }
+  }
+
+  private write(message: Record<string, any>): void {
+    this.child?.stdin?.write(`${JSON.stringify(message)}\n`);
+  }
+
+  /**
+   * Processa as linhas recebidas do stdout do servidor
+   */
+  private handleStdout(chunk: string): void {
+    this.stdoutBuffer += chunk;
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.stdoutBuffer.indexOf('\n')) !== -1) {
+      const line = this.stdoutBuffer.slice(0, newlineIndex).trim();
+      this.stdoutBuffer = this.stdoutBuffer.slice(newlineIndex + 1);
+      if (!line) continue;
+
+      let message: any;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        console.warn(`⚠️ [MCP ${this.serverName}] Linha inválida ignorada: ${line.slice(0, 200)}`);
+        continue;
+      }
+
+      // Apenas respostas importam; requisições/notificações do servidor são ignoradas
+      if (typeof message.id !== 'number' || message.method) {
+        continue;
+      }
+
+      if (message.error) {
+        this.settle(message.id, new Error(message.error.message || `Erro MCP ${message.error.code}`));
+      } else {
+        this.settle(message.id, undefined, message.result);
+      }
+    }
+  }
+
+  /**
+   * Finaliza uma requisição pendente com erro ou resultado
+   */
+  private settle(id: number, error?: Error, result?: any): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return;
+
+    this.pendingRequests.delete(id);
+    clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(result);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const id of Array.from(this.pendingRequests.keys())) {
+      this.settle(id, error);
+    }
+  }
+}
@@ -1,103 +1,95 @@
-import { exec, spawn } from 'child_process';
+import { exec, execFile, spawn, ChildProcess } from 'child_process';
+import { existsSync } from 'fs';
 import { promisify } from 'util';
 import { Socket } from 'socket.io';
+import { evaluateCommandPolicy, explainCommandPolicy, CommandPolicyEvaluation } from './commandPolicy';
+import { getToolCaller } from '../services/runService';
+import { isToolApprovalEnabled } from '../services/toolApprovalService';
+import { saveLog } from '../storage/logStorage';
 
-const execAsync = promisify(exec);
-
-// Comandos perigosos que devem ser bloqueados
-const DANGEROUS_COMMANDS = [
-  'format',
-  'del /f /s /q',
-  'rm -rf',
-  'rmdir /s /q',
-  'shutdown',
-  'restart',
-  'reboot',
-  'chkdsk /f',
-  'sfc /scannow'
-];
-
-// Comandos permitidos (whitelist básica para segurança)
-const ALLOWED_COMMANDS_PATTERNS = [
-  /^npm\s+/,
-  /^node\s+/,
-  /^yarn\s+/,
-  /^cd\s+/,
-  /^dir\s*/,
-  /^ls\s*/,
-  /^echo\s+/,
-  /^type\s+/,
-  /^net\s+start/,
-  /^net\s+stop/,
-  /^netstat\s+/,
-  /^findstr\s+/,
-  /^taskkill\s+/,
-  /^git\s+/,
-  /^docker\s+/,
-  /^python\s+/,
-  /^pip\s+/,
-  /^dotnet\s+/,
-  /^npx\s+/,
-  /^tsc\s+/,
-  /^ts-node\s+/,
-  /^ng\s+/,
-  /^react-scripts\s+/,
-  /^vue\s+/,
-  /^next\s+/,
-  /^nest\s+/,
-  /^serve\s+/,
-  /^http-server\s+/,
-  /^jest\s+/,
-  /^karma\s+/,
-  /^mocha\s+/,
-  /^vitest\s+/,
-  /^cypress\s+/,
-  /^playwright\s+/,
-  /^jasmine\s+/,
-  /^powershell\s+-NoProfile\s+-Command\s+"?Get-ChildItem\b/i
-];
+const execFileAsync = promisify(execFile);
 
 /**
- * Verifica se um comando é seguro para executar
+ * Registra a decisão da política de comandos
  */
-function isCommandSafe(command: string): { safe: boolean; reason?: string } {
-  const lowerCommand = command.toLowerCase().trim();
+function logCommandPolicy(
+  evaluation: CommandPolicyEvaluation,
+  workingDirectory: string | undefined,
+  socket: Socket | undefined,
+  threadId: string | undefined
+): void {
+  const icon = evaluation.decision === 'allow' ? '🛡️' : '🚫';
+  console.log(`${icon} Política de comandos (${evaluation.decision}): ${evaluation.command}`);
+
+  saveLog({
+    type: 'command_policy',
+    socketId: socket?.id,
+    threadId,
+    agentName: evaluation.agentName,
+    toolName: 'execute_command',
+    toolArgs: { command: evaluation.command, workingDirectory },
+    status: evaluation.decision,
+    metadata: {
+      decisions: evaluation.decisions,
+      ...(evaluation.parsed.error ? { parseError: evaluation.parsed.error } : {}),
+    },
+  });
+}
 
-  // Bloqueia comandos perigosos
-  for (const dangerous of DANGEROUS_COMMANDS) {
-    if (lowerCommand.includes(dangerous.toLowerCase())) {
-      return { safe: false, reason: `Comando perigoso detectado: ${dangerous}` };
-    }
+/**
+ * Encerra um processo filho e seus descendentes (o comando roda dentro de um shell)
+ */
+function killProcessTree(childProcess: ChildProcess): void {
+  if (!childProcess.pid) {
+    return;
   }
 
-  // Verifica se o comando está na whitelist ou começa com um padrão permitido
-  const isAllowed = ALLOWED_COMMANDS_PATTERNS.some(pattern => pattern.test(command));
-
-  // Lista de comandos base que sempre são permitidos (mesmo se não estiverem na whitelist)
-  const alwaysAllowedPrefixes = ['npm ', 'node ', 'yarn ', 'jest ', 'karma ', 'mocha ', 'vitest '];
-  const startsWithAllowed = alwaysAllowedPrefixes.some(prefix => lowerCommand.startsWith(prefix));
-
-  if (!isAllowed && !startsWithAllowed) {
-    return { safe: false, reason: 'Comando não permitido. Apenas comandos de desenvolvimento são permitidos.' };
+  try {
+    if (process.platform === 'win32') {
+      exec(`taskkill /pid ${childProcess.pid} /T /F`);
+    } else {
+      // O processo foi criado como líder de grupo (detached): PID negativo atinge o grupo inteiro
+      process.kill(-childProcess.pid, 'SIGTERM');
+    }
+  } catch (error) {
+    childProcess.kill();
   }
-
-  return { safe: true };
 }
 
 /**
- * Executa um comando no terminal do Windows com streaming em tempo real
+ * Executa um comando no terminal (cmd no Windows, sh no Linux/macOS) com streaming em tempo real
+ *
+ * @param signal - Sinal opcional de cancelamento; quando abortado, o processo é encerrado
+ * @param approved - A chamada foi aprovada pelo usuário ou as aprovações estão desativadas (libera comandos "ask" da política)
  */
 export async function executeCommand(
   command: string, 
   workingDirectory?: string,
-  socket?: Socket
+  socket?: Socket,
+  signal?: AbortSignal,
+  approved: boolean = false
 ): Promise<string> {
   return new Promise((resolve, reject) => {
     try {
-      // Verifica segurança do comando
-      const safetyCheck = isCommandSafe(command);
-      if (!safetyCheck.safe) {
-        const errorMsg = `❌ Erro de segurança: ${safetyCheck.reason}`;
+      if (signal?.aborted) {
+        return resolve('⏹️ Comando não executado: run cancelado pelo usuário');
+      }
+
+      // Avalia cada comando da linha contra a política ("ask" só executa após a aprovação do usuário)
+      const caller = getToolCaller(socket);
+      const evaluation = evaluateCommandPolicy(command, caller.agentName);
+      const approvalsDisabled = evaluation.decision === 'ask' && approved && !isToolApprovalEnabled();
+      const explanation = explainCommandPolicy(evaluation) +
+        (evaluation.decision === 'ask' && approved
+          ? (approvalsDisabled ? '\n  ⚠️ Liberado sem aprovação: toolApproval.enabled é false' : '\n  👤 Aprovado pelo usuário')
+          : '');
+      logCommandPolicy(evaluation, workingDirectory, socket, caller.threadId);
+      if (approvalsDisabled) {
+        console.warn(`⚠️ Comando "ask" executado sem aprovação (toolApproval.enabled é false): ${command}`);
+      }
+
+      if (evaluation.decision === 'deny' || (evaluation.decision === 'ask' && !approved)) {
+        const errorMsg = `❌ Comando não executado\n${explanation}`;
         if (socket) {
           socket.emit('terminal_output', {
             type: 'error',
@@ -117,22 +109,39 @@ export async function executeCommand(
         });
       }
 
-      // Divide o comando em partes para spawn
-      const parts = command.split(/\s+/);
-      const cmd = parts[0];
-      const args = parts.slice(1);
-
       const options: any = {
         cwd: workingDirectory || process.cwd(),
-        shell: true, // Usa shell para Windows
-        env: process.env
+        shell: true, // Shell padrão da plataforma (cmd.exe ou /bin/sh)
+        env: process.env,
+        // Em sistemas POSIX cria um grupo de processos para permitir encerrar a árvore inteira
+        detached: process.platform !== 'win32'
       };
 
       // Usa spawn para streaming em tempo real
-      const childProcess = spawn(cmd, args, options);
+      // A linha aprovada vai inteira para o shell (aspas, pipes e encadeamentos preservados)
+      const childProcess = spawn(command, options);
       
       let fullOutput = '';
       let fullError = '';
+      let cancelled = false;
+
+      // Cancelamento do run: encerra o processo e devolve a saída parcial
+      const onAbort = () => {
+        cancelled = true;
+        killProcessTree(childProcess);
+        const cancelMsg = '⏹️ Comando interrompido: run cancelado pelo usuário';
+
+        if (socket) {
+          socket.emit('terminal_output', {
+            type: 'error',
+            content: `\n\n${cancelMsg}`,
+            isComplete: true
+          });
+        }
+
+        resolve(`${fullOutput}${fullError}${fullOutput || fullError ? '\n' : ''}${cancelMsg}`);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       // Stream stdout em tempo real
       childProcess.stdout?.on('data', (data: Buffer) => {
@@ -164,6 +173,12 @@ export async function executeCommand(
 
       // Quando o processo termina
       childProcess.on('close', (code: number | null) => {
+        clearTimeout(timeoutHandle);
+        signal?.removeEventListener('abort', onAbort);
+        if (cancelled) {
+          return;
+        }
+
         let result = '';
         
         if (fullOutput) {
@@ -191,11 +206,13 @@ export async function executeCommand(
           });
         }
 
-        resolve(result || `Comando executado (código: ${code})`);
+        resolve(`${explanation}\n\n${result || `Comando executado (código: ${code})`}`);
       });
 
       // Trata erros do processo
       childProcess.on('error', (error: Error) => {
+        clearTimeout(timeoutHandle);
+        signal?.removeEventListener('abort', onAbort);
         const errorMsg = `❌ Erro ao executar comando: ${error.message}`;
         
         if (socket) {
@@ -210,9 +227,10 @@ export async function executeCommand(
       });
 
       // Timeout de 5 minutos
-      setTimeout(() => {
+      const timeoutHandle = setTimeout(() => {
         if (!childProcess.killed) {
-          childProcess.kill();
+          cancelled = true;
+          killProcessTree(childProcess);
           const timeoutMsg = '⏱️ Comando interrompido: timeout de 5 minutos excedido';
           
           if (socket) {
@@ -243,63 +261,325 @@ export async function executeCommand(
   });
 }
 
+/**
+ * Plataformas com backend próprio para as tools de serviço e de porta
+ */
+type ServiceBackendName = 'windows-sc' | 'systemd' | 'sysvinit-service' | 'launchctl';
+type PortBackendName = 'netstat-taskkill' | 'ss-kill' | 'lsof-kill';
+
+/**
+ * Estado de um serviço, igual em todas as plataformas
+ */
+export type ServiceStatus = 'running' | 'stopped' | 'not_found' | 'unknown';
+
+/**
+ * Resultado das tools de serviço (check_service_status, start_service, stop_service)
+ */
+export interface ServiceToolResult {
+  tool: 'check_service_status' | 'start_service' | 'stop_service';
+  platform: NodeJS.Platform;
+  backend: ServiceBackendName;
+  serviceName: string;
+  success: boolean;
+  status: ServiceStatus;
+  message: string;
+  /** Saída do comando do sistema (stdout/stderr), quando relevante */
+  output?: string;
+}
+
+/**
+ * Resultado da tool kill_process_on_port
+ */
+export interface PortToolResult {
+  tool: 'kill_process_on_port';
+  platform: NodeJS.Platform;
+  backend: PortBackendName;
+  port: number;
+  success: boolean;
+  processes: Array<{ pid: number; killed: boolean; error?: string }>;
+  message: string;
+}
+
+interface CommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  /** O executável não existe nesta máquina */
+  missing?: boolean;
+}
+
+/**
+ * Timeout dos comandos de sistema usados pelas tools de serviço e de porta
+ */
+const SYSTEM_COMMAND_TIMEOUT_MS = 30000;
+
+/**
+ * Executa um programa sem shell (os argumentos não passam por interpretação)
+ */
+async function runSystemCommand(file: string, args: string[]): Promise<CommandResult> {
+  try {
+    const { stdout, stderr } = await execFileAsync(file, args, { timeout: SYSTEM_COMMAND_TIMEOUT_MS, windowsHide: true });
+    return { exitCode: 0, stdout, stderr };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { exitCode: 127, stdout: '', stderr: `Comando "${file}" não encontrado`, missing: true };
+    }
+    return {
+      exitCode: typeof error.code === 'number' ? error.code : 1,
+      stdout: error.stdout || '',
+      stderr: error.stderr || error.message,
+    };
+  }
+}
+
+function commandOutput(result: CommandResult): string | undefined {
+  const output = `${result.stdout}${result.stderr}`.trim();
+  return output || undefined;
+}
+
+/**
+ * Backend de gerenciamento de serviços de uma plataforma
+ */
+interface ServiceBackend {
+  name: ServiceBackendName;
+  status(serviceName: string): Promise<{ status: ServiceStatus; output?: string }>;
+  start(serviceName: string): Promise<CommandResult>;
+  stop(serviceName: string): Promise<CommandResult>;
+}
+
+const windowsServiceBackend: ServiceBackend = {
+  name: 'windows-sc',
+  async status(serviceName) {
+    const result = await runSystemCommand('sc', ['query', serviceName]);
+    const output = commandOutput(result);
+    // 1060: o serviço especificado não existe
+    if (result.exitCode === 1060 || /1060/.test(output || '')) return { status: 'not_found', output };
+    if (/RUNNING/.test(result.stdout)) return { status: 'running', output };
+    if (/STOPPED/.test(result.stdout)) return { status: 'stopped', output };
+    return { status: 'unknown', output };
+  },
+  start: (serviceName) => runSystemCommand('net', ['start', serviceName]),
+  stop: (serviceName) => runSystemCommand('net', ['stop', serviceName]),
+};
+
+const systemdServiceBackend: ServiceBackend = {
+  name: 'systemd',
+  async status(serviceName) {
+    const result = await runSystemCommand('systemctl', ['show', serviceName, '--property=LoadState,ActiveState']);
+    const output = commandOutput(result);
+    const properties = Object.fromEntries(
+      result.stdout.split('\n').filter((line) => line.includes('=')).map((line) => line.trim().split('=') as [string, string])
+    );
+    if (properties.LoadState === 'not-found') return { status: 'not_found', output };
+    if (['active', 'reloading', 'activating'].includes(properties.ActiveState)) return { status: 'running', output };
+    if (['inactive', 'failed', 'deactivating'].includes(properties.ActiveState)) return { status: 'stopped', output };
+    return { status: 'unknown', output };
+  },
+  start: (serviceName) => runSystemCommand('systemctl', ['start', serviceName]),
+  stop: (serviceName) => runSystemCommand('systemctl', ['stop', serviceName]),
+};
+
+const sysvServiceBackend: ServiceBackend = {
+  name: 'sysvinit-service',
+  async status(serviceName) {
+    const result = await runSystemCommand('service', [serviceName, 'status']);
+    const output = commandOutput(result);
+    // Códigos LSB: 0 rodando, 3 parado, 4 desconhecido
+    if (result.exitCode === 0) return { status: 'running', output };
+    if (result.exitCode === 3) return { status: 'stopped', output };
+    if (result.exitCode === 4 || /unrecognized service|not found/i.test(output || '')) return { status: 'not_found', output };
+    return { status: 'unknown', output };
+  },
+  start: (serviceName) => runSystemCommand('service', [serviceName, 'start']),
+  stop: (serviceName) => runSystemCommand('service', [serviceName, 'stop']),
+};
+
+const launchctlServiceBackend: ServiceBackend = {
+  name: 'launchctl',
+  async status(serviceName) {
+    const result = await runSystemCommand('launchctl', ['list', serviceName]);
+    const output = commandOutput(result);
+    // Jobs não carregados não aparecem no launchctl list
+    if (result.exitCode !== 0) return { status: 'not_found', output };
+    return { status: /"PID"\s*=\s*\d+/.test(result.stdout) ? 'running' : 'stopped', output };
+  },
+  start: (serviceName) => runSystemCommand('launchctl', ['start', serviceName]),
+  stop: (serviceName) => runSystemCommand('launchctl', ['stop', serviceName]),
+};
+
+let linuxServiceBackend: ServiceBackend | null = null;
+
+/**
+ * Escolhe o backend de serviços pela plataforma (no Linux, systemd quando ativo)
+ */
+function getServiceBackend(): ServiceBackend {
+  if (process.platform === 'win32') return windowsServiceBackend;
+  if (process.platform === 'darwin') return launchctlServiceBackend;
+
+  if (!linuxServiceBackend) {
+    linuxServiceBackend = existsSync('/run/systemd/system') ? systemdServiceBackend : sysvServiceBackend;
+  }
+  return linuxServiceBackend;
+}
+
+/**
+ * Nomes de serviço aceitos (labels do launchd, units do systemd e nomes do Windows)
+ */
+function isValidServiceName(serviceName: unknown): serviceName is string {
+  return typeof serviceName === 'string' && /^[\w@.:\- ]+$/.test(serviceName) && !serviceName.startsWith('-');
+}
+
+function formatToolResult(result: ServiceToolResult | PortToolResult): string {
+  return JSON.stringify(result, null, 2);
+}
+
+const STATUS_LABELS: Record<ServiceStatus, string> = {
+  running: 'está rodando',
+  stopped: 'está parado',
+  not_found: 'não foi encontrado',
+  unknown: 'tem status desconhecido',
+};
+
 /**
  * Verifica se um serviço está rodando
  */
 export async function checkServiceStatus(serviceName: string): Promise<string> {
+  const backend = getServiceBackend();
+  const base = { tool: 'check_service_status' as const, platform: process.platform, backend: backend.name, serviceName };
+
+  if (!isValidServiceName(serviceName)) {
+    return formatToolResult({ ...base, success: false, status: 'unknown', message: `❌ Nome de serviço inválido: "${serviceName}"` });
+  }
+
   try {
-    const command = `sc query "${serviceName}"`;
-    const { stdout, stderr } = await execAsync(command);
+    const { status, output } = await backend.status(serviceName);
+    const icon = status === 'running' ? '✅' : status === 'stopped' ? '⏹️' : '❓';
+    return formatToolResult({
+      ...base,
+      success: status !== 'not_found' && status !== 'unknown',
+      status,
+      message: `${icon} Serviço "${serviceName}" ${STATUS_LABELS[status]}`,
+      output,
+    });
+  } catch (error: any) {
+    return formatToolResult({ ...base, success: false, status: 'unknown', message: `❌ Erro ao verificar serviço: ${error.message}` });
+  }
+}
 
-    if (stderr) {
-      return `❌ Erro ao verificar serviço: ${stderr}`;
-    }
+/**
+ * Inicia ou para um serviço e confirma o estado final
+ */
+async function changeServiceState(
+  serviceName: string,
+  action: 'start' | 'stop'
+): Promise<string> {
+  const backend = getServiceBackend();
+  const base = {
+    tool: action === 'start' ? 'start_service' as const : 'stop_service' as const,
+    platform: process.platform,
+    backend: backend.name,
+    serviceName,
+  };
+  const verb = action === 'start' ? 'iniciar' : 'parar';
+
+  if (!isValidServiceName(serviceName)) {
+    return formatToolResult({ ...base, success: false, status: 'unknown', message: `❌ Nome de serviço inválido: "${serviceName}"` });
+  }
 
-    if (stdout.includes('RUNNING')) {
-      return `✅ Serviço "${serviceName}" está rodando`;
-    } else if (stdout.includes('STOPPED')) {
-      return `⏹️ Serviço "${serviceName}" está parado`;
-    } else {
-      return `❓ Status do serviço "${serviceName}":\n${stdout}`;
-    }
+  try {
+    const result = await backend[action](serviceName);
+    const { status } = await backend.status(serviceName);
+    const expected: ServiceStatus = action === 'start' ? 'running' : 'stopped';
+    const success = result.exitCode === 0 && (status === expected || status === 'unknown');
+
+    return formatToolResult({
+      ...base,
+      success,
+      status,
+      message: success
+        ? `✅ Serviço "${serviceName}" ${action === 'start' ? 'iniciado' : 'parado'} com sucesso`
+        : `❌ Erro ao ${verb} serviço "${serviceName}" (código: ${result.exitCode})`,
+      output: commandOutput(result),
+    });
   } catch (error: any) {
-    return `❌ Erro ao verificar serviço: ${error.message}`;
+    return formatToolResult({ ...base, success: false, status: 'unknown', message: `❌ Erro ao ${verb} serviço: ${error.message}` });
   }
 }
 
 /**
- * Inicia um serviço do Windows
+ * Inicia um serviço do sistema (Windows: net start, Linux: systemctl/service, macOS: launchctl)
  */
 export async function startService(serviceName: string): Promise<string> {
-  try {
-    const command = `net start "${serviceName}"`;
-    const { stdout, stderr } = await execAsync(command);
+  return changeServiceState(serviceName, 'start');
+}
 
-    if (stderr) {
-      return `❌ Erro ao iniciar serviço: ${stderr}`;
+/**
+ * Para um serviço do sistema (Windows: net stop, Linux: systemctl/service, macOS: launchctl)
+ */
+export async function stopService(serviceName: string): Promise<string> {
+  return changeServiceState(serviceName, 'stop');
+}
+
+/**
+ * Encontra os PIDs que escutam uma porta TCP
+ */
+async function findPidsOnPort(port: number): Promise<{ backend: PortBackendName; pids: number[] }> {
+  const toPids = (values: Iterable<string>) =>
+    Array.from(new Set(Array.from(values, Number))).filter((pid) => Number.isInteger(pid) && pid > 0);
+
+  if (process.platform === 'win32') {
+    // Formato: "TCP    0.0.0.0:3300    0.0.0.0:0    LISTENING    12345"
+    const { stdout } = await runSystemCommand('netstat', ['-aon']);
+    const pids = stdout
+      .split('\n')
+      .map((line) => line.trim().split(/\s+/))
+      .filter((columns) => columns.length >= 4 && columns[1]?.endsWith(`:${port}`))
+      .map((columns) => columns[columns.length - 1]);
+    return { backend: 'netstat-taskkill', pids: toPids(pids) };
+  }
+
+  if (process.platform === 'linux') {
+    const result = await runSystemCommand('ss', ['-ltnpH', `sport = :${port}`]);
+    const pids = toPids(Array.from(result.stdout.matchAll(/pid=(\d+)/g), (match) => match[1]));
+    // Sem permissão, o ss lista a porta mas omite o processo: tenta o lsof
+    if (pids.length > 0 || (!result.missing && !result.stdout.trim())) {
+      return { backend: 'ss-kill', pids };
     }
+  }
+
+  const result = await runSystemCommand('lsof', ['-nP', '-t', `-iTCP:${port}`, '-sTCP:LISTEN']);
+  return { backend: 'lsof-kill', pids: toPids(result.stdout.split('\n').map((line) => line.trim())) };
+}
 
-    return `✅ Serviço "${serviceName}" iniciado com sucesso\n${stdout || ''}`;
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
   } catch (error: any) {
-    return `❌ Erro ao iniciar serviço: ${error.message}\n${error.stderr || ''}`;
+    return error.code === 'EPERM';
   }
 }
 
 /**
- * Para um serviço do Windows
+ * Encerra um processo (SIGTERM e, se necessário, SIGKILL após alguns segundos)
  */
-export async function stopService(serviceName: string): Promise<string> {
-  try {
-    const command = `net stop "${serviceName}"`;
-    const { stdout, stderr } = await execAsync(command);
+async function terminateProcess(pid: number): Promise<{ killed: boolean; error?: string }> {
+  if (process.platform === 'win32') {
+    const result = await runSystemCommand('taskkill', ['/F', '/PID', String(pid)]);
+    return result.exitCode === 0 ? { killed: true } : { killed: false, error: commandOutput(result) };
+  }
 
-    if (stderr) {
-      return `❌ Erro ao parar serviço: ${stderr}`;
+  try {
+    process.kill(pid, 'SIGTERM');
+    for (let attempt = 0; attempt < 10 && isProcessAlive(pid); attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 300));
     }
-
-    return `✅ Serviço "${serviceName}" parado com sucesso\n${stdout || ''}`;
+    if (isProcessAlive(pid)) {
+      process.kill(pid, 'SIGKILL');
+    }
+    return { killed: true };
   } catch (error: any) {
-    return `❌ Erro ao parar serviço: ${error.message}\n${error.stderr || ''}`;
+    return { killed: false, error: error.code === 'EPERM' ? 'Permissão negada' : error.message };
   }
 }
 
@@ -307,67 +587,43 @@ export async function stopService(serviceName: string): Promise<string> {
  * Mata um processo que está usando uma porta específica
  */
 export async function killProcessOnPort(port: number): Promise<string> {
-  try {
-    // Primeiro, encontra o PID do processo que está usando a porta
-    const findCommand = `netstat -aon | findstr :${port}`;
-    const { stdout: netstatOutput } = await execAsync(findCommand);
+  const portNumber = Number(port);
+  const defaultBackend: PortBackendName = process.platform === 'win32' ? 'netstat-taskkill' : process.platform === 'linux' ? 'ss-kill' : 'lsof-kill';
+  const base = { tool: 'kill_process_on_port' as const, platform: process.platform, port: portNumber };
 
-    if (!netstatOutput || netstatOutput.trim().length === 0) {
-      return `ℹ️ Nenhum processo encontrado usando a porta ${port}`;
-    }
+  if (!Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+    return formatToolResult({ ...base, backend: defaultBackend, success: false, processes: [], message: `❌ Porta inválida: ${port}` });
+  }
 
-    // Extrai os PIDs do output do netstat
-    // Formato: "TCP    0.0.0.0:3300    0.0.0.0:0    LISTENING    12345"
-    // Pode ter múltiplas linhas, então extraímos todos os PIDs únicos
-    const lines = netstatOutput.trim().split('\n');
-    const pids = new Set<string>();
-    
-    for (const line of lines) {
-      // O PID é sempre o último número na linha
-      const match = line.trim().match(/\s+(\d+)\s*$/);
-      if (match) {
-        pids.add(match[1]);
-      }
-    }
+  try {
+    const { backend, pids } = await findPidsOnPort(portNumber);
 
-    if (pids.size === 0) {
-      return `❌ Não foi possível extrair o PID do processo usando a porta ${port}\nOutput: ${netstatOutput}`;
+    if (pids.length === 0) {
+      return formatToolResult({ ...base, backend, success: true, processes: [], message: `ℹ️ Nenhum processo encontrado usando a porta ${portNumber}` });
     }
 
-    // Mata todos os processos encontrados
-    const results: string[] = [];
-    let successCount = 0;
-    let failCount = 0;
-
+    const processes: PortToolResult['processes'] = [];
     for (const pid of pids) {
-      try {
-        const killCommand = `taskkill /F /PID ${pid}`;
-        const { stdout: killOutput, stderr: killError } = await execAsync(killCommand);
-
-        if (killError && !killOutput.includes('SUCCESS') && !killOutput.includes('terminado')) {
-          results.push(`⚠️ Erro ao matar processo PID ${pid}: ${killError}`);
-          failCount++;
-        } else {
-          results.push(`✅ Processo PID ${pid} encerrado`);
-          successCount++;
-        }
-      } catch (error: any) {
-        results.push(`⚠️ Erro ao matar processo PID ${pid}: ${error.message}`);
-        failCount++;
+      // Nunca encerra o próprio servidor do DelsucIA
+      if (pid === process.pid) {
+        processes.push({ pid, killed: false, error: 'Processo do próprio servidor DelsucIA' });
+        continue;
       }
+      processes.push({ pid, ...(await terminateProcess(pid)) });
     }
 
-    if (successCount > 0) {
-      return `✅ ${successCount} processo(s) na porta ${port} foi(ram) encerrado(s) com sucesso\n${results.join('\n')}`;
-    } else {
-      return `❌ Não foi possível encerrar os processos na porta ${port}\n${results.join('\n')}`;
-    }
+    const killedCount = processes.filter((processInfo) => processInfo.killed).length;
+    return formatToolResult({
+      ...base,
+      backend,
+      success: killedCount > 0,
+      processes,
+      message: killedCount > 0
+        ? `✅ ${killedCount} processo(s) na porta ${portNumber} foi(ram) encerrado(s) com sucesso`
+        : `❌ Não foi possível encerrar os processos na porta ${portNumber}`,
+    });
   } catch (error: any) {
-    // Se não encontrou processo, retorna mensagem amigável
-    if (error.message && (error.message.includes('findstr') || error.code === 1)) {
-      return `ℹ️ Nenhum processo encontrado usando a porta ${port}`;
-    }
-    return `❌ Erro ao matar processo na porta ${port}: ${error.message}`;
+    return formatToolResult({ ...base, backend: defaultBackend, success: false, processes: [], message: `❌ Erro ao matar processo na porta ${portNumber}: ${error.message}` });
   }
 }
 
@@ -377,7 +633,7 @@ export const tools = [
     type: 'function' as const,
     function: {
       name: 'execute_command',
-      description: 'Executa um comando no terminal do Windows. Use para executar comandos npm, node, yarn, git, docker, etc. IMPORTANTE: Apenas comandos de desenvolvimento são permitidos por segurança.',
+      description: 'Executa um comando no terminal do sistema (cmd no Windows, sh no Linux e macOS). Use para executar comandos npm, node, yarn, git, docker, etc. IMPORTANTE: Apenas comandos de desenvolvimento são permitidos por segurança.',
       parameters: {
         type: 'object',
         properties: {
@@ -398,13 +654,13 @@ export const tools = [
     type: 'function' as const,
     function: {
       name: 'check_service_status',
-      description: 'Verifica o status de um serviço do Windows',
+      description: 'Verifica o status de um serviço do sistema (Windows: sc, Linux: systemd/service, macOS: launchctl). Retorna JSON com status running, stopped, not_found ou unknown.',
       parameters: {
         type: 'object',
         properties: {
           serviceName: {
             type: 'string',
-            description: 'Nome do serviço do Windows a verificar'
+            description: 'Nome do serviço (Windows), unit do systemd ou label do launchd a verificar'
           }
         },
         required: ['serviceName']
@@ -415,13 +671,13 @@ export const tools = [
     type: 'function' as const,
     function: {
       name: 'start_service',
-      description: 'Inicia um serviço do Windows',
+      description: 'Inicia um serviço do sistema (Windows: net start, Linux: systemctl/service, macOS: launchctl). Retorna JSON com o resultado e o status final.',
       parameters: {
         type: 'object',
         properties: {
           serviceName: {
             type: 'string',
-            description: 'Nome do serviço do Windows a iniciar'
+            description: 'Nome do serviço (Windows), unit do systemd ou label do launchd a iniciar'
           }
         },
         required: ['serviceName']
@@ -432,13 +688,13 @@ export const tools = [
     type: 'function' as const,
     function: {
       name: 'stop_service',
-      description: 'Para um serviço do Windows',
+      description: 'Para um serviço do sistema (Windows: net stop, Linux: systemctl/service, macOS: launchctl). Retorna JSON com o resultado e o status final.',
       parameters: {
         type: 'object',
         properties: {
           serviceName: {
             type: 'string',
-            description: 'Nome do serviço do Windows a parar'
+            description: 'Nome do serviço (Windows), unit do systemd ou label do launchd a parar'
           }
         },
         required: ['serviceName']
@@ -449,7 +705,7 @@ export const tools = [
     type: 'function' as const,
     function: {
       name: 'kill_process_on_port',
-      description: 'Mata um processo que está usando uma porta específica. Útil para liberar portas ocupadas por serviços em desenvolvimento.',
+      description: 'Mata um processo que está usando uma porta específica. Útil para liberar portas ocupadas por serviços em desenvolvimento. Retorna JSON com os PIDs encontrados e encerrados.',
       parameters: {
         type: 'object',
         properties: {
@@ -0,0 +1,227 @@
+/**
+ * Registro de tools
+ *
+ * Centraliza as tools disponíveis para os agentes: schema (function calling),
+ * executor, descrição exibida ao usuário e metadados de permissão.
+ * Além das tools nativas, carrega módulos de tools externas de um diretório
+ * configurável (`toolsDirectory` no config.json) na inicialização.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Socket } from 'socket.io';
+import { builtinTools } from './builtinTools';
+
+/**
+ * Diretório padrão de módulos de tools externas (relativo ao diretório de trabalho)
+ */
+export const DEFAULT_TOOLS_DIRECTORY = 'tools';
+
+/**
+ * Schema de uma tool no formato de function calling da OpenAI
+ */
+export interface ToolSchema {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/**
+ * Contexto repassado ao executor de uma tool
+ */
+export interface ToolExecutionContext {
+  /** Socket para streaming em tempo real (ex: saída do terminal) */
+  socket?: Socket;
+  /** Sinal de cancelamento do run que disparou a tool */
+  signal?: AbortSignal;
+  /** A chamada foi aprovada pelo usuário (ou liberada para a thread, ou as aprovações estão desativadas) antes de executar */
+  approved?: boolean;
+}
+
+/**
+ * Descrição da ação exibida ao usuário enquanto a tool executa
+ */
+export interface ToolActionDescription {
+  emoji: string;
+  description: string;
+  /** Monta a mensagem com os argumentos (ex: "📄 Lendo arquivo: src/app.ts") */
+  format?: (args: any) => string;
+}
+
+/**
+ * Metadados de permissão de uma tool
+ */
+export interface ToolPermissions {
+  /** Categoria da tool (ex: 'filesystem', 'terminal', 'network') */
+  category?: string;
+  /** A tool apenas lê dados, sem efeitos colaterais */
+  readOnly?: boolean;
+  /** A tool deve ser confirmada por um humano antes de executar */
+  requiresApproval?: boolean;
+}
+
+/**
+ * Definição completa de uma tool
+ */
+export interface ToolDefinition {
+  /** Nome único da tool (igual a `schema.function.name`) */
+  name: string;
+  schema: ToolSchema;
+  execute: (args: any, context: ToolExecutionContext) => Promise<string>;
+  action?: ToolActionDescription;
+  permissions?: ToolPermissions;
+  /**
+   * Decisão de aprovação por chamada: 'ask' exige aprovação mesmo fora da lista,
+   * 'deny' dispensa a pergunta (a própria tool recusará a chamada) e 'allow'
+   * segue `requiresApproval`/config.json
+   */
+  approvalPolicy?: (args: any, context: ToolExecutionContext) => 'allow' | 'deny' | 'ask';
+  /**
+   * Escopo de uma aprovação "nesta thread" (ex: a linha de comando aprovada):
+   * só chamadas com o mesmo escopo são liberadas. Sem ele, a aprovação vale
+   * para qualquer chamada da tool na thread.
+   */
+  approvalScope?: (args: any) => string | undefined;
+}
+
+/**
+ * Resultado do carregamento de módulos de tools
+ */
+export interface ToolModulesLoadResult {
+  directory: string;
+  loaded: string[];
+  errors: Array<{ file: string; error: string }>;
+}
+
+// Armazena as tools registradas (mapeia nome -> definição)
+const toolDefinitionsMap = new Map<string, ToolDefinition>();
+
+/**
+ * Valida a estrutura de uma definição de tool
+ *
+ * @returns Mensagem de erro ou null se a definição for válida
+ */
+export function validateToolDefinition(definition: any): string | null {
+  if (!definition || typeof definition !== 'object') {
+    return 'Definição de tool deve ser um objeto';
+  }
+  if (typeof definition.name !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(definition.name)) {
+    return 'Campo "name" deve conter apenas letras, números, "_" ou "-" (até 64 caracteres)';
+  }
+  if (definition.schema?.type !== 'function' || typeof definition.schema.function !== 'object') {
+    return `Tool "${definition.name}": "schema" deve seguir o formato { type: 'function', function: {...} }`;
+  }
+  if (definition.schema.function.name !== definition.name) {
+    return `Tool "${definition.name}": "schema.function.name" deve ser igual a "name"`;
+  }
+  if (typeof definition.execute !== 'function') {
+    return `Tool "${definition.name}": "execute" deve ser uma função`;
+  }
+  return null;
+}
+
+/**
+ * Registra uma tool
+ *
+ * @throws {Error} Se a definição for inválida ou já existir uma tool com o mesmo nome
+ */
+export function registerToolDefinition(definition: ToolDefinition): void {
+  const validationError = validateToolDefinition(definition);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+  if (toolDefinitionsMap.has(definition.name)) {
+    throw new Error(`Tool "${definition.name}" já está registrada`);
+  }
+  toolDefinitionsMap.set(definition.name, definition);
+}
+
+/**
+ * Remove uma tool do registro (ex: tools de um servidor MCP encerrado)
+ */
+export function unregisterToolDefinition(name: string): boolean {
+  return toolDefinitionsMap.delete(name);
+}
+
+/**
+ * Obtém a definição de uma tool pelo nome
+ */
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return toolDefinitionsMap.get(name);
+}
+
+/**
+ * Lista todas as tools registradas
+ */
+export function listToolDefinitions(): ToolDefinition[] {
+  return Array.from(toolDefinitionsMap.values());
+}
+
+/**
+ * Resolve o diretório de módulos de tools externas
+ */
+export function resolveToolsDirectory(toolsDirectory?: string): string {
+  return path.resolve(process.cwd(), toolsDirectory || DEFAULT_TOOLS_DIRECTORY);
+}
+
+/**
+ * Extrai as definições exportadas por um módulo de tools
+ *
+ * Aceita `module.exports = tool`, `module.exports = [tools]`, `exports.tools = [...]` e `export default`.
+ */
+function extractToolDefinitions(moduleExports: any): any[] {
+  const exported = moduleExports?.default ?? moduleExports?.tools ?? moduleExports;
+  return Array.isArray(exported) ? exported : [exported];
+}
+
+/**
+ * Carrega os módulos de tools (.js/.cjs) de um diretório e registra suas tools
+ *
+ * Executado de forma síncrona na inicialização, antes do carregamento dos agentes,
+ * para que as tools possam ser referenciadas no agents.json. Tools com nome já
+ * registrado (incluindo as nativas) são ignoradas.
+ */
+export function loadToolModules(directory: string): ToolModulesLoadResult {
+  const result: ToolModulesLoadResult = { directory, loaded: [], errors: [] };
+
+  if (!fs.existsSync(directory)) {
+    return result;
+  }
+
+  const files = fs
+    .readdirSync(directory)
+    .filter((file) => /\.c?js$/.test(file))
+    .sort();
+
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    try {
+      const definitions = extractToolDefinitions(require(filePath));
+      for (const definition of definitions) {
+        try {
+          registerToolDefinition(definition);
+          result.loaded.push(definition.name);
+        } catch (error: any) {
+          result.errors.push({ file, error: error.message });
+        }
+      }
+    } catch (error: any) {
+      result.errors.push({ file, error: `Erro ao carregar módulo: ${error.message}` });
+    }
+  }
+
+  if (result.loaded.length > 0) {
+    console.log(`🧩 ${result.loaded.length} tool(s) externa(s) carregada(s) de ${directory}: ${result.loaded.join(', ')}`);
+  }
+  for (const { file, error } of result.errors) {
+    console.warn(`⚠️ Tool ignorada (${file}): ${error}`);
+  }
+
+  return result;
+}
+
+// Registra as tools nativas
+builtinTools.forEach(registerToolDefinition);
@@ -0,0 +1,85 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isWorkspacePathIgnored, resolveWorkspacePath } from './workspaceRoots';
+
+describe('resolveWorkspacePath', () => {
+  const originalCwd = process.cwd();
+  let baseDir: string;
+  let rootDir: string;
+
+  before(() => {
+    // loadConfigFromJson registra cada leitura do config.json
+    mock.method(console, 'log', () => {});
+    baseDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'delsuc-roots-')));
+    rootDir = path.join(baseDir, 'a');
+    fs.mkdirSync(path.join(rootDir, 'docs'), { recursive: true });
+    fs.mkdirSync(path.join(baseDir, 'ab'));
+    fs.writeFileSync(path.join(rootDir, 'app.ts'), '');
+    fs.writeFileSync(path.join(rootDir, 'docs', 'guia.md'), '');
+    fs.writeFileSync(path.join(baseDir, 'ab', 'segredo.txt'), '');
+    fs.symlinkSync(path.join(baseDir, 'ab', 'segredo.txt'), path.join(rootDir, 'atalho-externo.txt'));
+    fs.symlinkSync(path.join(baseDir, 'ab'), path.join(rootDir, 'pasta-externa'));
+    fs.symlinkSync(path.join(rootDir, 'app.ts'), path.join(rootDir, 'atalho-interno.ts'));
+    fs.writeFileSync(path.join(baseDir, 'config.json'), JSON.stringify({
+      workspaceRoots: [
+        { path: 'a', mode: 'read-write' },
+        { path: 'a/docs', mode: 'read-only' },
+      ],
+    }));
+    process.chdir(baseDir);
+  });
+
+  after(() => {
+    mock.restoreAll();
+    process.chdir(originalCwd);
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('permite caminhos dentro da raiz, inclusive arquivos novos', async () => {
+    const existing = await resolveWorkspacePath('a/app.ts', 'write');
+    assert.equal(existing.allowed, true);
+
+    const created = await resolveWorkspacePath(path.join(rootDir, 'src', 'novo.ts'), 'write');
+    assert.ok(created.allowed);
+    assert.equal(created.realPath, path.join(rootDir, 'src', 'novo.ts'));
+  });
+
+  it('não confunde /a com /ab', async () => {
+    const result = await resolveWorkspacePath(path.join(baseDir, 'ab', 'segredo.txt'), 'read');
+    assert.equal(result.allowed, false);
+  });
+
+  it('rejeita saídas da raiz com ".."', async () => {
+    const result = await resolveWorkspacePath('a/../ab/segredo.txt', 'read');
+    assert.equal(result.allowed, false);
+  });
+
+  it('rejeita symlinks que apontam para fora da raiz', async () => {
+    assert.equal((await resolveWorkspacePath('a/atalho-externo.txt', 'read')).allowed, false);
+    assert.equal((await resolveWorkspacePath('a/pasta-externa/novo.txt', 'write')).allowed, false);
+  });
+
+  it('permite symlinks que apontam para dentro da raiz', async () => {
+    const result = await resolveWorkspacePath('a/atalho-interno.ts', 'read');
+    assert.ok(result.allowed);
+    assert.equal(result.realPath, path.join(rootDir, 'app.ts'));
+  });
+
+  it('usa o modo da raiz mais específica', async () => {
+    assert.equal((await resolveWorkspacePath('a/docs/guia.md', 'read')).allowed, true);
+
+    const write = await resolveWorkspacePath('a/docs/guia.md', 'write');
+    assert.equal(write.allowed, false);
+    assert.ok(!write.allowed && /somente leitura/.test(write.error));
+  });
+
+  it('oculta os padrões padrão quando a raiz não tem .delsucignore', async () => {
+    const result = await resolveWorkspacePath('a/.env', 'read');
+    assert.ok(result.allowed);
+    assert.equal(isWorkspacePathIgnored(result.roots, result.realPath, false), true);
+    assert.equal(isWorkspacePathIgnored(result.roots, path.join(rootDir, 'app.ts'), false), false);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Raízes do workspace das tools de sistema de arquivos
+ *
+ * As tools só acessam caminhos dentro das raízes configuradas em
+ * `workspaceRoots` no config.json, cada uma somente leitura ou leitura e
+ * escrita. Os caminhos passam por `realpath` antes da verificação, de modo que
+ * links simbólicos e prefixos parecidos (`/home/a` e `/home/ab`) não escapam
+ * das raízes. O `.delsucignore` de cada raiz oculta segredos e artefatos de
+ * build do list_directory, find_file e read_file, e as tools de escrita não
+ * alteram esses caminhos nem o próprio .delsucignore.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync, readFileSync, realpathSync, statSync } from 'fs';
+import { loadConfigFromJson } from '../config/env';
+import { IgnoreRule, isIgnoredPath, parseIgnorePatterns } from '../utils/ignorePatterns';
+
+/**
+ * Nome do arquivo de ignore procurado na raiz de cada workspace
+ */
+export const IGNORE_FILE_NAME = '.delsucignore';
+
+/**
+ * Padrões usados quando a raiz não tem .delsucignore
+ */
+export const DEFAULT_IGNORE_PATTERNS = [
+  '.env',
+  '.env.*',
+  '*.pem',
+  '*.key',
+  'id_rsa*',
+  '.git/',
+  'node_modules/',
+  'dist/',
+  'build/',
+];
+
+export type WorkspaceRootMode = 'read-only' | 'read-write';
+
+/**
+ * Raiz do workspace no config.json (uma string equivale a uma raiz read-write)
+ */
+export interface WorkspaceRootConfig {
+  path: string;
+  /** Padrão: read-write */
+  mode?: WorkspaceRootMode;
+}
+
+/**
+ * Raiz do workspace já resolvida
+ */
+export interface WorkspaceRoot {
+  /** Caminho real da raiz (após realpath) */
+  path: string;
+  mode: WorkspaceRootMode;
+}
+
+/**
+ * Resultado da verificação de um caminho
+ */
+export type WorkspacePathResult =
+  | { allowed: true; fullPath: string; realPath: string; root: WorkspaceRoot; roots: WorkspaceRoot[] }
+  | { allowed: false; error: string };
+
+const caseInsensitive = process.platform === 'win32';
+
+// .delsucignore compilado por raiz (recarregado quando o arquivo muda)
+const ignoreRulesCache = new Map<string, { mtimeMs: number; rules: IgnoreRule[] }>();
+
+/**
+ * Raízes padrão (sem `workspaceRoots` no config.json): o diretório do servidor e as
+ * pastas Desktop, Documents, Projects e Downloads do usuário
+ */
+function getDefaultRoots(): WorkspaceRootConfig[] {
+  const userProfile = process.env.USERPROFILE || process.env.HOME || '';
+  const userFolders = userProfile
+    ? ['Desktop', 'Documents', 'Projects', 'Downloads'].map((folder) => path.join(userProfile, folder))
+    : [];
+  return [process.cwd(), ...userFolders].map((rootPath) => ({ path: rootPath, mode: 'read-write' }));
+}
+
+/**
+ * Obtém as raízes do workspace com os caminhos reais
+ *
+ * Raízes inexistentes são ignoradas.
+ */
+export function getWorkspaceRoots(): WorkspaceRoot[] {
+  const configured = loadConfigFromJson()?.workspaceRoots;
+  const entries: WorkspaceRootConfig[] = Array.isArray(configured)
+    ? configured.map((entry) => (typeof entry === 'string' ? { path: entry } : entry))
+    : getDefaultRoots();
+
+  const roots: WorkspaceRoot[] = [];
+  entries.forEach((entry) => {
+    if (!entry || typeof entry.path !== 'string' || !entry.path.trim()) return;
+    const rootPath = path.resolve(process.cwd(), entry.path);
+    if (!existsSync(rootPath)) return;
+    try {
+      roots.push({
+        path: realpathSync.native(rootPath),
+        mode: entry.mode === 'read-only' ? 'read-only' : 'read-write',
+      });
+    } catch {
+      // Raiz inacessível
+    }
+  });
+  return roots;
+}
+
+/**
+ * Resolve o caminho real, inclusive de arquivos que ainda não existem
+ * (o trecho inexistente é somado ao caminho real do ancestral mais próximo)
+ */
+async function resolveRealPath(fullPath: string): Promise<string> {
+  const missingSegments: string[] = [];
+  let current = fullPath;
+
+  while (true) {
+    try {
+      const realPath = await fs.realpath(current);
+      return missingSegments.length > 0 ? path.join(realPath, ...missingSegments.reverse()) : realPath;
+    } catch (error: any) {
+      const parent = path.dirname(current);
+      if (error.code !== 'ENOENT' || parent === current) {
+        throw error;
+      }
+      missingSegments.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Caminho relativo à raiz com separador "/", ou null se estiver fora dela
+ */
+function relativeToRoot(rootPath: string, realPath: string): string | null {
+  const relativePath = caseInsensitive
+    ? path.relative(rootPath.toLowerCase(), realPath.toLowerCase())
+    : path.relative(rootPath, realPath);
+  if (relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+    return null;
+  }
+  // Mantém a grafia original do caminho (a comparação acima pode ter usado minúsculas)
+  return path.relative(rootPath, realPath).split(path.sep).join('/');
+}
+
+/**
+ * Raiz mais específica que contém o caminho (permite raízes somente leitura dentro de raízes read-write)
+ */
+function findRoot(roots: WorkspaceRoot[], realPath: string): WorkspaceRoot | undefined {
+  return roots
+    .filter((root) => relativeToRoot(root.path, realPath) !== null)
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+/**
+ * Resolve um caminho informado pelo agente e verifica se ele está em uma raiz do workspace
+ *
+ * @param {string} inputPath - Caminho relativo (ao diretório do servidor) ou absoluto
+ * @param {'read' | 'write'} access - Tipo de acesso (escrita exige raiz read-write)
+ * @returns {Promise<WorkspacePathResult>} Caminho completo e real, ou a mensagem de erro
+ */
+export async function resolveWorkspacePath(inputPath: string, access: 'read' | 'write'): Promise<WorkspacePathResult> {
+  const fullPath = path.resolve(process.cwd(), inputPath);
+
+  let realPath: string;
+  try {
+    realPath = await resolveRealPath(fullPath);
+  } catch (error: any) {
+    return { allowed: false, error: `Erro: Não foi possível resolver o caminho ${inputPath}: ${error.message}` };
+  }
+
+  const roots = getWorkspaceRoots();
+  const root = findRoot(roots, realPath);
+  if (!root) {
+    return { allowed: false, error: `Erro: Acesso negado. Caminho fora das raízes do workspace: ${inputPath}` };
+  }
+  if (access === 'write' && root.mode !== 'read-write') {
+    return { allowed: false, error: `Erro: Acesso negado. Raiz do workspace somente leitura: ${root.path}` };
+  }
+
+  return { allowed: true, fullPath, realPath, root, roots };
+}
+
+/**
+ * Obtém os padrões do .delsucignore de uma raiz (ou os padrões padrão, se não houver arquivo)
+ */
+function getIgnoreRules(rootPath: string): IgnoreRule[] {
+  const ignoreFilePath = path.join(rootPath, IGNORE_FILE_NAME);
+
+  let mtimeMs = -1;
+  try {
+    mtimeMs = statSync(ignoreFilePath).mtimeMs;
+  } catch {
+    // Sem .delsucignore
+  }
+
+  const cached = ignoreRulesCache.get(rootPath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.rules;
+  }
+
+  let content = DEFAULT_IGNORE_PATTERNS.join('\n');
+  if (mtimeMs >= 0) {
+    try {
+      content = readFileSync(ignoreFilePath, 'utf-8');
+    } catch (error: any) {
+      console.warn(`⚠️ Não foi possível ler ${ignoreFilePath}: ${error.message}`);
+    }
+  }
+
+  const rules = parseIgnorePatterns(content, caseInsensitive);
+  ignoreRulesCache.set(rootPath, { mtimeMs, rules });
+  return rules;
+}
+
+/**
+ * Verifica se o caminho é um arquivo .delsucignore (protegido contra escrita pelas tools)
+ */
+export function isIgnoreFilePath(realPath: string): boolean {
+  const fileName = path.basename(realPath);
+  return caseInsensitive ? fileName.toLowerCase() === IGNORE_FILE_NAME : fileName === IGNORE_FILE_NAME;
+}
+
+/**
+ * Verifica se um caminho real é ocultado pelo .delsucignore da raiz que o contém
+ *
+ * @param {WorkspaceRoot[]} roots - Raízes do workspace (ver getWorkspaceRoots)
+ * @param {string} realPath - Caminho real (após realpath)
+ * @param {boolean} isDirectory - O caminho é um diretório
+ */
+export function isWorkspacePathIgnored(roots: WorkspaceRoot[], realPath: string, isDirectory: boolean): boolean {
+  const root = findRoot(roots, realPath);
+  const relativePath = root ? relativeToRoot(root.path, realPath) : null;
+  if (!root || !relativePath) {
+    return false;
+  }
+  return isIgnoredPath(getIgnoreRules(root.path), relativePath, isDirectory);
+}
@@ -2,6 +2,8 @@
  * Tipos e interfaces compartilhados
  */
 
+import { JsonFieldChange } from '../utils/jsonDiff';
+
 export type LogType = 
   | 'connection' 
   | 'disconnection' 
@@ -14,9 +16,11 @@ export type LogType =
   | 'error' 
   | 'response' 
   | 'token_usage'
-  | 'monitoring';
+  | 'monitoring'
+  | 'command_policy'
+  | 'tool_approval';
 
-export type LLMProvider = 'openai' | 'stackspot';
+export type LLMProvider = 'openai' | 'stackspot' | 'openai-compatible' | 'mock';
 
 /**
  * Informações de inicialização do serviço
@@ -169,3 +173,30 @@ export interface ConnectionInfo {
   ipAddress?: string;
 }
 
+
+/**
+ * Revisão do arquivo agents.json (histórico de edições)
+ */
+export interface AgentsRevision {
+  id: string;
+  timestamp: string;
+  /** Quem fez a alteração (header X-Author da requisição) */
+  author: string;
+  /** Operação que gerou a revisão (ex: createAgent, restore) */
+  action: string;
+  summary: string;
+  /** Conteúdo completo do agents.json após a alteração */
+  snapshot: Record<string, any>;
+  /** Alterações campo a campo em relação à revisão anterior */
+  changes: JsonFieldChange[];
+  /** ID da revisão restaurada (apenas em action = 'restore') */
+  restoredFrom?: string;
+}
+
+/**
+ * Interface para o formato completo do arquivo JSON de revisões do agents.json
+ */
+export interface AgentsRevisionsJsonFile {
+  revisions: AgentsRevision[];
+  lastUpdated: string;
+}
@@ -3,8 +3,11 @@
  * 
  * Este módulo fornece mapeamentos de nomes de funções/tools para
  * mensagens descritivas que são exibidas ao usuário durante a execução.
+ * Tools externas informam a própria descrição no toolRegistry (`action`).
  */
 
+import { getToolDefinition } from '../tools/toolRegistry';
+
 /**
  * Interface para informações de descrição de função
  */
@@ -39,6 +42,18 @@ const FUNCTION_DESCRIPTIONS: Record<string, FunctionDescription> = {
     emoji: '✍️',
     description: 'Criando/Editando arquivo'
   },
+  'replace_in_file': {
+    emoji: '✏️',
+    description: 'Editando trecho do arquivo'
+  },
+  'insert_at_line': {
+    emoji: '➕',
+    description: 'Inserindo linhas no arquivo'
+  },
+  'apply_patch': {
+    emoji: '🩹',
+    description: 'Aplicando patch no arquivo'
+  },
   'execute_command': {
     emoji: '⚡',
     description: 'Executando comando'
@@ -64,7 +79,16 @@ const FUNCTION_DESCRIPTIONS: Record<string, FunctionDescription> = {
  * @returns {FunctionDescription} Descrição da função ou descrição padrão
  */
 export function getFunctionDescription(functionName: string): FunctionDescription {
-  return FUNCTION_DESCRIPTIONS[functionName] || {
+  if (FUNCTION_DESCRIPTIONS[functionName]) {
+    return FUNCTION_DESCRIPTIONS[functionName];
+  }
+
+  const registeredAction = getToolDefinition(functionName)?.action;
+  if (registeredAction) {
+    return { emoji: registeredAction.emoji, description: registeredAction.description };
+  }
+
+  return {
     emoji: '⚙️',
     description: functionName
   };
@@ -98,6 +122,18 @@ export function formatActionMessage(functionName: string, args: any): string {
     case 'write_file':
       message = `✍️ Criando/Editando arquivo: ${args.filePath}`;
       break;
+    case 'replace_in_file':
+      message = `✏️ Editando trecho do arquivo: ${args.filePath}`;
+      if (args.replaceAll) {
+        message += ' (todas as ocorrências)';
+      }
+      break;
+    case 'insert_at_line':
+      message = `➕ Inserindo linhas no arquivo: ${args.filePath} (antes da linha ${args.line})`;
+      break;
+    case 'apply_patch':
+      message = `🩹 Aplicando patch no arquivo: ${args.filePath}`;
+      break;
     case 'execute_command':
       message = `⚡ Executando comando: ${args.command}`;
       if (args.workingDirectory) {
@@ -113,8 +149,10 @@ export function formatActionMessage(functionName: string, args: any): string {
     case 'stop_service':
       message = `⏹️ Parando serviço: ${args.serviceName}`;
       break;
-    default:
-      message += '...';
+    default: {
+      const formattedAction = getToolDefinition(functionName)?.action?.format?.(args);
+      message = formattedAction || `${message}...`;
+    }
   }
 
   return message;
@@ -0,0 +1,100 @@
+/**
+ * Padrões de ignore no formato do .gitignore
+ *
+ * Suporta comentários (#), negação (!), padrões só de diretório (barra final),
+ * padrões ancorados (com barra no início ou no meio) e os curingas `*`, `?` e `**`.
+ */
+
+/**
+ * Padrão compilado
+ */
+export interface IgnoreRule {
+  pattern: string;
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+function globToRegex(glob: string): string {
+  let regex = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      if (glob[index + 2] === '/') {
+        // "**/" corresponde a zero ou mais diretórios
+        regex += '(?:.*/)?';
+        index += 2;
+      } else {
+        regex += '.*';
+        index += 1;
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return regex;
+}
+
+/**
+ * Compila o conteúdo de um arquivo de ignore
+ *
+ * @param {string} content - Conteúdo do arquivo (um padrão por linha)
+ * @param {boolean} caseInsensitive - Compara sem diferenciar maiúsculas (Windows)
+ * @returns {IgnoreRule[]} Padrões na ordem do arquivo (o último que corresponde decide)
+ */
+export function parseIgnorePatterns(content: string, caseInsensitive: boolean = false): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  content.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const negate = line.startsWith('!');
+    const directoryOnly = line.endsWith('/');
+    const pattern = (negate ? line.slice(1) : line).replace(/\/+$/, '');
+    if (!pattern.replace(/^\//, '')) return;
+
+    // Com barra no início ou no meio, o padrão é relativo à raiz; sem barra, vale em qualquer nível
+    const anchored = pattern.includes('/');
+    const body = globToRegex(pattern.replace(/^\//, ''));
+    rules.push({
+      pattern: line,
+      regex: new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`, caseInsensitive ? 'i' : ''),
+      negate,
+      directoryOnly,
+    });
+  });
+  return rules;
+}
+
+function matchesRules(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Verifica se um caminho é ignorado (ele mesmo ou algum diretório acima dele)
+ *
+ * @param {IgnoreRule[]} rules - Padrões compilados
+ * @param {string} relativePath - Caminho relativo à raiz, com separador "/"
+ * @param {boolean} isDirectory - O caminho é um diretório
+ */
+export function isIgnoredPath(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  const segments = relativePath.split('/').filter(Boolean);
+  for (let index = 1; index <= segments.length; index++) {
+    const isLast = index === segments.length;
+    if (matchesRules(rules, segments.slice(0, index).join('/'), isLast ? isDirectory : true)) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,45 @@
+/**
+ * Templates nas instruções dos agentes
+ *
+ * As instruções do agents.json podem conter variáveis no formato `{{nome}}`,
+ * preenchidas a cada run com o contexto da thread (ver instructionTemplateService).
+ */
+
+/**
+ * Variáveis aceitas nas instruções
+ */
+export const INSTRUCTION_TEMPLATE_VARIABLES = [
+  'workingDirectory',
+  'date',
+  'llmProvider',
+  'projectFramework',
+  'user.name',
+] as const;
+
+export type InstructionTemplateVariable = typeof INSTRUCTION_TEMPLATE_VARIABLES[number];
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Lista as variáveis usadas em um texto (sem repetição)
+ */
+export function getTemplateVariables(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(TEMPLATE_PATTERN), (match) => match[1])));
+}
+
+/**
+ * Lista as variáveis usadas em um texto que não são suportadas
+ */
+export function getUnknownTemplateVariables(text: string): string[] {
+  return getTemplateVariables(text)
+    .filter((variable) => !(INSTRUCTION_TEMPLATE_VARIABLES as readonly string[]).includes(variable));
+}
+
+/**
+ * Substitui as variáveis do texto pelos valores informados
+ *
+ * Variáveis sem valor são mantidas como estão.
+ */
+export function renderTemplate(text: string, values: Partial<Record<string, string>>): string {
+  return text.replace(TEMPLATE_PATTERN, (placeholder, variable: string) => values[variable] ?? placeholder);
+}
@@ -0,0 +1,108 @@
+/**
+ * Diff de objetos JSON campo a campo
+ */
+
+/**
+ * Alteração em um campo do JSON
+ */
+export interface JsonFieldChange {
+  /** Caminho do campo (ex: groups[filesystem-terminal].agents[Code Analyzer].instructions) */
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Chave de um item de array: `id` ou `name` quando todos os itens possuem um deles
+ */
+function getItemKeys(items: unknown[]): string[] | null {
+  const keys = items.map((item) => {
+    if (!isPlainObject(item)) return null;
+    if (typeof item.id === 'string') return item.id;
+    if (typeof item.name === 'string') return item.name;
+    return null;
+  });
+
+  if (keys.some((key) => key === null) || new Set(keys).size !== keys.length) {
+    return null;
+  }
+  return keys as string[];
+}
+
+function diffArrays(before: unknown[], after: unknown[], path: string, changes: JsonFieldChange[]): void {
+  const beforeKeys = getItemKeys(before);
+  const afterKeys = getItemKeys(after);
+
+  // Arrays de objetos identificados (grupos, agentes) são comparados por id/nome
+  if (beforeKeys && afterKeys && (before.length > 0 || after.length > 0)) {
+    const afterByKey = new Map(afterKeys.map((key, index) => [key, after[index]]));
+    const beforeByKey = new Map(beforeKeys.map((key, index) => [key, before[index]]));
+
+    beforeKeys.forEach((key, index) => {
+      if (!afterByKey.has(key)) {
+        changes.push({ path: `${path}[${key}]`, type: 'removed', before: before[index] });
+      } else {
+        diffValues(before[index], afterByKey.get(key), `${path}[${key}]`, changes);
+      }
+    });
+    afterKeys.forEach((key, index) => {
+      if (!beforeByKey.has(key)) {
+        changes.push({ path: `${path}[${key}]`, type: 'added', after: after[index] });
+      }
+    });
+    return;
+  }
+
+  // Demais arrays (tools, keywords) são tratados como valor único
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, type: 'changed', before, after });
+  }
+}
+
+function diffValues(before: unknown, after: unknown, path: string, changes: JsonFieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    // Campos undefined não são gravados no JSON e contam como ausentes
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach((key) => {
+      const childPath = path ? `${path}.${key}` : key;
+      if (after[key] === undefined && before[key] === undefined) {
+        return;
+      }
+      if (after[key] === undefined) {
+        changes.push({ path: childPath, type: 'removed', before: before[key] });
+      } else if (before[key] === undefined) {
+        changes.push({ path: childPath, type: 'added', after: after[key] });
+      } else {
+        diffValues(before[key], after[key], childPath, changes);
+      }
+    });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, changes);
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, type: 'changed', before, after });
+  }
+}
+
+/**
+ * Calcula as alterações campo a campo entre dois valores JSON
+ *
+ * @param {unknown} before - Valor anterior
+ * @param {unknown} after - Valor novo
+ * @returns {JsonFieldChange[]} Lista de campos adicionados, removidos ou alterados
+ */
+export function diffJson(before: unknown, after: unknown): JsonFieldChange[] {
+  const changes: JsonFieldChange[] = [];
+  diffValues(before, after, '', changes);
+  return changes;
+}
@@ -0,0 +1,61 @@
+/**
+ * Utilitários para respostas JSON de agentes
+ */
+
+/**
+ * Extrai o objeto JSON de uma resposta do modelo
+ *
+ * Tolera blocos de código markdown (```json) e texto antes/depois do objeto.
+ *
+ * @param {string} rawResponse - Resposta bruta do agente
+ * @returns {Record<string, any> | null} Objeto JSON ou null se não houver um objeto válido
+ */
+export function parseJsonObjectFromResponse(rawResponse: string): Record<string, any> | null {
+  if (!rawResponse) {
+    return null;
+  }
+
+  let cleaned = rawResponse.trim();
+
+  if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```[\w-]*\s*/i, '').replace(/\s*```$/i, '').trim();
+  }
+
+  const firstBraceIndex = cleaned.indexOf('{');
+  const lastBraceIndex = cleaned.lastIndexOf('}');
+
+  if (firstBraceIndex !== -1 && lastBraceIndex !== -1) {
+    cleaned = cleaned.slice(firstBraceIndex, lastBraceIndex + 1);
+  }
+
+  let parsed: any;
+
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return null;
+  }
+
+  return parsed;
+}
+
+/**
+ * Lê uma resposta que deve ser exatamente um objeto JSON (agentes com `responseFormat` JSON)
+ *
+ * Diferente de parseJsonObjectFromResponse, não tolera texto ou markdown ao redor do objeto.
+ *
+ * @param {string} rawResponse - Resposta bruta do agente
+ * @returns {Record<string, any> | null} Objeto JSON ou null se a resposta não for um objeto JSON válido
+ */
+export function parseStrictJsonObject(rawResponse: string): Record<string, any> | null {
+  try {
+    const parsed = JSON.parse(rawResponse.trim());
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyUnifiedPatch, createUnifiedDiff } from './textDiff';
+
+describe('applyUnifiedPatch', () => {
+  it('aplica um bloco com contexto', () => {
+    const patch = [
+      '--- a/app.ts',
+      '+++ b/app.ts',
+      '@@ -1,3 +1,3 @@',
+      ' const a = 1;',
+      '-const b = 2;',
+      '+const b = 3;',
+      ' const c = 4;',
+    ].join('\n');
+
+    assert.equal(
+      applyUnifiedPatch('const a = 1;\nconst b = 2;\nconst c = 4;\n', patch),
+      'const a = 1;\nconst b = 3;\nconst c = 4;\n'
+    );
+  });
+
+  it('localiza o bloco quando as linhas do cabeçalho estão deslocadas', () => {
+    const patch = '@@ -1,2 +1,2 @@\n b\n-c\n+C\n';
+    assert.equal(applyUnifiedPatch('a\nb\nc\nd\n', patch), 'a\nb\nC\nd\n');
+  });
+
+  it('trata linhas "---" e "+++" dentro do bloco como conteúdo', () => {
+    const patch = '@@ -1,3 +1,3 @@\n x\n--- old\n+++ new\n y\n';
+    assert.equal(applyUnifiedPatch('x\n-- old\ny\n', patch), 'x\n++ new\ny\n');
+  });
+
+  it('respeita o marcador "\\ No newline at end of file"', () => {
+    const addNewline = '@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n';
+    assert.equal(applyUnifiedPatch('a\nb', addNewline), 'a\nb\n');
+
+    const removeNewline = '@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file\n';
+    assert.equal(applyUnifiedPatch('a\nb\n', removeNewline), 'a\nb');
+  });
+
+  it('preserva quebras de linha CRLF', () => {
+    const patch = '@@ -1,2 +1,2 @@\n a\n-b\n+B\n';
+    assert.equal(applyUnifiedPatch('a\r\nb\r\n', patch), 'a\r\nB\r\n');
+  });
+
+  it('aplica o diff gerado por createUnifiedDiff', () => {
+    const cases: Array<[string, string]> = [
+      ['um\ndois\ntrês\n', 'um\n2\ntrês\nquatro\n'],
+      ['sem quebra final', 'sem quebra final\n'],
+      ['linha\n', 'linha'],
+      ['', 'novo arquivo\n'],
+      ['a\n-- b\n++ c\n', 'a\n--- b\n+++ c\n'],
+    ];
+
+    for (const [before, after] of cases) {
+      const { unified } = createUnifiedDiff('arquivo.txt', before, after);
+      assert.equal(applyUnifiedPatch(before, unified), after);
+    }
+  });
+
+  it('rejeita blocos que não correspondem ao arquivo', () => {
+    const patch = '@@ -1,2 +1,2 @@\n a\n-x\n+y\n';
+    assert.throws(() => applyUnifiedPatch('a\nb\n', patch), /não corresponde ao conteúdo atual/);
+  });
+
+  it('rejeita blocos com mais linhas do que o cabeçalho declara', () => {
+    const patch = '@@ -1,1 +1,1 @@\n-a\n+b\n+c\n';
+    assert.throws(() => applyUnifiedPatch('a\n', patch));
+  });
+
+  it('rejeita patches com mais de um arquivo', () => {
+    const patch = [
+      '--- a/um.txt',
+      '+++ b/um.txt',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      '--- a/dois.txt',
+      '+++ b/dois.txt',
+      '@@ -1 +1 @@',
+      '-c',
+      '+d',
+    ].join('\n');
+    assert.throws(() => applyUnifiedPatch('a\n', patch));
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * Diff de texto linha a linha no formato unified (diff -u)
+ *
+ * Gera o diff entre duas versões de um arquivo e aplica patches unified
+ * gerados pelos agentes. As quebras de linha do arquivo (LF ou CRLF) e a
+ * presença de quebra no final são preservadas.
+ */
+
+/**
+ * Linha de um diff
+ */
+interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+  /** Última linha de um arquivo sem quebra de linha no final */
+  noNewline?: boolean;
+}
+
+/**
+ * Diff unified entre duas versões de um arquivo
+ */
+export interface TextDiff {
+  /** Diff no formato unified (vazio quando não há alterações) */
+  unified: string;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Bloco (@@) de um patch unified
+ */
+interface PatchHunk {
+  header: string;
+  oldStart: number;
+  oldLength: number;
+  newLength: number;
+  lines: Array<{ type: ' ' | '+' | '-'; text: string }>;
+  /** O conteúdo antigo termina sem quebra de linha ("\ No newline at end of file" após "-" ou " ") */
+  oldNoNewline: boolean;
+  /** O conteúdo novo termina sem quebra de linha ("\ No newline at end of file" após "+" ou " ") */
+  newNoNewline: boolean;
+}
+
+/**
+ * Marcador do diff -u para a última linha sem quebra de linha
+ */
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Texto dividido em linhas, com o formato de quebra de linha original
+ */
+export interface SplitText {
+  lines: string[];
+  eol: string;
+  finalNewline: boolean;
+}
+
+/**
+ * Número máximo de edições calculadas pelo algoritmo de Myers antes de
+ * recorrer a um diff de substituição completa do trecho alterado
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Divide o texto em linhas, guardando o tipo de quebra de linha
+ */
+export function splitLines(content: string): SplitText {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const finalNewline = /\r?\n$/.test(content);
+  const body = content.replace(/\r?\n$/, '');
+  return { lines: body === '' && !finalNewline ? [] : body.split(/\r?\n/), eol, finalNewline };
+}
+
+/**
+ * Junta as linhas com a quebra de linha original
+ */
+export function joinLines(text: SplitText): string {
+  if (text.lines.length === 0) {
+    return '';
+  }
+  return text.lines.join(text.eol) + (text.finalNewline ? text.eol : '');
+}
+
+/**
+ * Diff de Myers entre dois trechos (sem prefixo/sufixo em comum)
+ */
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, offset);
+      }
+    }
+  }
+
+  // Muitas diferenças: o trecho inteiro é tratado como removido e adicionado
+  return [
+    ...a.map((text): DiffLine => ({ type: 'remove', text })),
+    ...b.map((text): DiffLine => ({ type: 'add', text })),
+  ];
+}
+
+function backtrack(a: string[], b: string[], trace: number[][], offset: number): DiffLine[] {
+  const result: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = v[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      result.push({ type: 'context', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        result.push({ type: 'add', text: b[y - 1] });
+      } else {
+        result.push({ type: 'remove', text: a[x - 1] });
+      }
+    }
+    x = previousX;
+    y = previousY;
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Chaves de comparação das linhas: a última linha de um arquivo sem quebra no
+ * final recebe um "\n" (que nenhuma linha contém), para que a ausência da
+ * quebra também apareça no diff
+ */
+function lineKeys(text: SplitText): string[] {
+  return text.lines.map((line, index) =>
+    index === text.lines.length - 1 && !text.finalNewline ? `${line}\n` : line
+  );
+}
+
+function fromKey(line: DiffLine): DiffLine {
+  return line.text.endsWith('\n') ? { ...line, text: line.text.slice(0, -1), noNewline: true } : line;
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const context = (text: string): DiffLine => ({ type: 'context', text });
+  return [
+    ...a.slice(0, start).map(context),
+    ...myersDiff(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(context),
+  ];
+}
+
+/**
+ * Gera o diff unified entre duas versões de um arquivo
+ *
+ * @param {string} filePath - Caminho exibido nos cabeçalhos (--- a/..., +++ b/...)
+ * @param {string} before - Conteúdo anterior
+ * @param {string} after - Conteúdo novo
+ * @param {number} contextLines - Linhas de contexto ao redor de cada alteração
+ * @returns {TextDiff} Diff unified e contagem de linhas adicionadas/removidas
+ */
+export function createUnifiedDiff(filePath: string, before: string, after: string, contextLines: number = 3): TextDiff {
+  const lines = diffLines(lineKeys(splitLines(before)), lineKeys(splitLines(after))).map(fromKey);
+  const additions = lines.filter((line) => line.type === 'add').length;
+  const deletions = lines.filter((line) => line.type === 'remove').length;
+
+  const changedIndexes = lines
+    .map((line, index) => (line.type === 'context' ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changedIndexes.length === 0) {
+    return { unified: '', additions: 0, deletions: 0 };
+  }
+
+  // Agrupa as alterações próximas em blocos com contexto
+  const ranges: Array<[number, number]> = [];
+  changedIndexes.forEach((index) => {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  // Número da linha (antiga e nova) antes de cada posição do diff
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  lines.forEach((line) => {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (line.type !== 'add') oldLine++;
+    if (line.type !== 'remove') newLine++;
+  });
+
+  const output = [`--- a/${filePath}`, `+++ b/${filePath}`];
+  ranges.forEach(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const oldLength = hunkLines.filter((line) => line.type !== 'add').length;
+    const newLength = hunkLines.filter((line) => line.type !== 'remove').length;
+    // Blocos vazios de um lado usam a linha anterior (convenção do diff -u)
+    const oldStart = oldLength === 0 ? oldLineAt[start] - 1 : oldLineAt[start];
+    const newStart = newLength === 0 ? newLineAt[start] - 1 : newLineAt[start];
+
+    output.push(`@@ -${oldStart},${oldLength} +${newStart},${newLength} @@`);
+    hunkLines.forEach((line) => {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+      if (line.noNewline) {
+        output.push(NO_NEWLINE_MARKER);
+      }
+    });
+  });
+
+  return { unified: output.join('\n'), additions, deletions };
+}
+
+/**
+ * Faz o parse de um patch unified de um único arquivo
+ *
+ * Cada bloco termina quando as contagens do cabeçalho (-a,b +c,d) são
+ * atingidas; cabeçalhos de arquivo (---/+++) só são reconhecidos fora dos
+ * blocos, já que linhas removidas como "-- comentário" começam com "--- ".
+ */
+function parseUnifiedPatch(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: PatchHunk | null = null;
+  let oldSeen = 0;
+  let newSeen = 0;
+
+  const patchLines = patch.replace(/(\r?\n)+$/, '').split(/\r?\n/);
+  for (let index = 0; index < patchLines.length; index++) {
+    const line = patchLines[index];
+    const insideHunk = current !== null && (oldSeen < current.oldLength || newSeen < current.newLength);
+
+    if (insideHunk && current) {
+      const prefix = line[0];
+      if (prefix === ' ' || prefix === '+' || prefix === '-' || line === '') {
+        // Linhas de contexto vazias costumam perder o espaço inicial
+        const type = line === '' ? ' ' : (prefix as ' ' | '+' | '-');
+        current.lines.push({ type, text: line.slice(1) });
+        if (type !== '+') oldSeen++;
+        if (type !== '-') newSeen++;
+        continue;
+      }
+      if (line.startsWith('\\')) {
+        applyNoNewlineMarker(current);
+        continue;
+      }
+      if (!line.startsWith('@@')) {
+        throw new Error(`Linha inválida no bloco "${current.header}": ${line}`);
+      }
+      // Cabeçalho com contagens maiores que o conteúdo: o próximo bloco começa aqui
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      current = {
+        header: line,
+        oldStart: parseInt(header[1], 10),
+        oldLength: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newLength: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        lines: [],
+        oldNoNewline: false,
+        newNoNewline: false,
+      };
+      oldSeen = 0;
+      newSeen = 0;
+      hunks.push(current);
+      continue;
+    }
+
+    if (line.startsWith('\\') && current) {
+      // "\ No newline at end of file" logo após a última linha do bloco
+      applyNoNewlineMarker(current);
+      continue;
+    }
+
+    if (hunks.length === 0 || line === '') {
+      // Cabeçalhos (diff --git, index, ---/+++) antes do primeiro bloco
+      continue;
+    }
+
+    if (line.startsWith('--- ') || line.startsWith('diff ')) {
+      throw new Error('O patch altera mais de um arquivo; envie um patch por arquivo');
+    }
+    throw new Error(
+      `O bloco "${current?.header}" tem mais linhas do que o cabeçalho declara ` +
+      `(-${current?.oldLength} +${current?.newLength}): ${line}`
+    );
+  }
+
+  if (hunks.length === 0) {
+    throw new Error('Nenhum bloco "@@ -a,b +c,d @@" encontrado no patch');
+  }
+  return hunks;
+}
+
+/**
+ * Registra "\ No newline at end of file" para a última linha lida do bloco
+ */
+function applyNoNewlineMarker(hunk: PatchHunk): void {
+  const last = hunk.lines[hunk.lines.length - 1];
+  if (!last) {
+    throw new Error(`Marcador "${NO_NEWLINE_MARKER}" sem linha anterior no bloco "${hunk.header}"`);
+  }
+  if (last.type !== '+') hunk.oldNoNewline = true;
+  if (last.type !== '-') hunk.newNoNewline = true;
+}
+
+function blockMatchesAt(lines: string[], block: string[], position: number, ignoreTrailingSpace: boolean): boolean {
+  if (position < 0 || position + block.length > lines.length) {
+    return false;
+  }
+  return block.every((text, index) =>
+    ignoreTrailingSpace ? lines[position + index].trimEnd() === text.trimEnd() : lines[position + index] === text
+  );
+}
+
+/**
+ * Localiza o trecho de um bloco no arquivo, começando pela posição esperada
+ * e se afastando dela (os números de linha do patch podem estar deslocados)
+ */
+function findBlock(lines: string[], block: string[], expected: number, minimum: number): number {
+  const maxDistance = Math.max(expected, lines.length - expected);
+  for (const ignoreTrailingSpace of [false, true]) {
+    for (let distance = 0; distance <= maxDistance; distance++) {
+      for (const position of [expected - distance, expected + distance]) {
+        if (position >= minimum && blockMatchesAt(lines, block, position, ignoreTrailingSpace)) {
+          return position;
+        }
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Aplica um patch unified ao conteúdo de um arquivo
+ *
+ * @param {string} content - Conteúdo atual do arquivo
+ * @param {string} patch - Patch unified (cabeçalhos ---/+++ opcionais)
+ * @returns {string} Conteúdo com o patch aplicado
+ * @throws {Error} Se o patch for inválido ou algum bloco não corresponder ao arquivo
+ */
+export function applyUnifiedPatch(content: string, patch: string): string {
+  const hunks = parseUnifiedPatch(patch);
+  const text = splitLines(content);
+  const result: string[] = [];
+  let cursor = 0;
+  let finalNewline = text.finalNewline || text.lines.length === 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldBlock = hunk.lines.filter((line) => line.type !== '+').map((line) => line.text);
+    const newBlock = hunk.lines.filter((line) => line.type !== '-').map((line) => line.text);
+    // Em blocos só de inserção, oldStart é a linha após a qual o conteúdo entra
+    const expected = oldBlock.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+
+    const position = oldBlock.length === 0
+      ? Math.max(cursor, Math.min(expected, text.lines.length))
+      : findBlock(text.lines, oldBlock, expected, cursor);
+    if (position === -1) {
+      throw new Error(
+        `O bloco ${index + 1} ("${hunk.header}") não corresponde ao conteúdo atual do arquivo. ` +
+        'Leia o arquivo novamente e gere o patch a partir do conteúdo atual.'
+      );
+    }
+
+    result.push(...text.lines.slice(cursor, position), ...newBlock);
+    cursor = position + oldBlock.length;
+
+    // Bloco que chega ao fim do arquivo decide a quebra de linha final
+    if (cursor === text.lines.length && (hunk.oldNoNewline || hunk.newNoNewline)) {
+      finalNewline = !hunk.newNoNewline;
+    }
+  });
+
+  result.push(...text.lines.slice(cursor));
+  return joinLines({ ...text, lines: result, finalNewline });
+}
@@ -0,0 +1,553 @@
+/**
+ * Validação e lint do agents.json
+ *
+ * Verifica a estrutura do arquivo (hierárquica ou legacy) e faz checagens
+ * semânticas: tools e toolSets desconhecidos, regex inválidas, nomes
+ * duplicados, múltiplas regras `default` e agentes inalcançáveis por estarem
+ * encobertos por agentes de maior prioridade.
+ */
+
+import { getUnknownTemplateVariables, INSTRUCTION_TEMPLATE_VARIABLES } from '../utils/instructionTemplate';
+
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * Problema encontrado no agents.json
+ */
+export interface LintIssue {
+  severity: LintSeverity;
+  /** Código estável do problema (ex: unknown_tool, invalid_regex) */
+  code: string;
+  /** Caminho no JSON (ex: groups[0].agents[1].shouldUse.pattern) */
+  path: string;
+  message: string;
+  agentName?: string;
+}
+
+/**
+ * Relatório de lint do agents.json
+ */
+export interface AgentsLintReport {
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  issues: LintIssue[];
+}
+
+/**
+ * Tools e conjuntos conhecidos no momento do lint
+ */
+export interface AgentsLintOptions {
+  /** Tools registradas no toolRegistry (nativas, plugins e MCP) */
+  knownTools: string[];
+  /** Conjuntos de tools pré-definidos e dos servidores MCP */
+  knownToolSets: string[];
+  /**
+   * Servidores MCP em execução; tools de servidores declarados e fora do ar
+   * (com `toolPrefix`) geram avisos em vez de erros. Sem a lista, todos os
+   * servidores declarados são considerados fora do ar.
+   */
+  availableMcpServers?: string[];
+}
+
+/**
+ * Localiza o servidor MCP declarado e fora do ar a que uma tool pertence (pelo `toolPrefix`)
+ */
+type UnavailableMcpLookup = (toolName: string) => string | undefined;
+
+/**
+ * Monta o problema de uma tool desconhecida: aviso se ela pertencer a um servidor MCP fora do ar, erro caso contrário
+ */
+function unknownToolIssue(
+  toolName: string,
+  path: string,
+  message: string,
+  findUnavailableMcpServer: UnavailableMcpLookup,
+  agentName?: string
+): LintIssue {
+  const serverName = findUnavailableMcpServer(toolName);
+  return {
+    severity: serverName ? 'warning' : 'error',
+    code: 'unknown_tool',
+    path,
+    message: serverName ? `${message} (servidor MCP "${serverName}" indisponível)` : message,
+    ...(agentName ? { agentName } : {}),
+  };
+}
+
+/**
+ * Agente encontrado no arquivo, com seu caminho e papel
+ */
+interface AgentEntry {
+  agent: Record<string, any>;
+  path: string;
+  role: 'mainSelector' | 'orchestrator' | 'agent' | 'fallback';
+}
+
+const RULE_TYPES = ['keywords', 'regex', 'complex', 'default', 'semantic'];
+const REQUIRED_AGENT_FIELDS = ['name', 'description', 'instructions', 'model'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Problema encontrado nos parâmetros de geração de um agente
+ */
+export interface GenerationSettingIssue {
+  field: 'temperature' | 'top_p' | 'maxOutputTokens' | 'responseFormat' | 'toolChoice';
+  message: string;
+}
+
+/**
+ * Valida os parâmetros de geração de um agente (temperature, top_p, maxOutputTokens, responseFormat, toolChoice)
+ *
+ * @param {Record<string, any>} agent - Agente no formato do agents.json
+ * @returns {GenerationSettingIssue[]} Problemas encontrados (vazio se válido)
+ */
+export function validateGenerationSettings(agent: Record<string, any>): GenerationSettingIssue[] {
+  const issues: GenerationSettingIssue[] = [];
+  const isNumberInRange = (value: unknown, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+  if (agent.temperature !== undefined && !isNumberInRange(agent.temperature, 0, 2)) {
+    issues.push({ field: 'temperature', message: 'Campo "temperature" deve ser um número entre 0 e 2' });
+  }
+  if (agent.top_p !== undefined && !isNumberInRange(agent.top_p, 0, 1)) {
+    issues.push({ field: 'top_p', message: 'Campo "top_p" deve ser um número entre 0 e 1' });
+  }
+  if (agent.maxOutputTokens !== undefined && (!Number.isInteger(agent.maxOutputTokens) || agent.maxOutputTokens <= 0)) {
+    issues.push({ field: 'maxOutputTokens', message: 'Campo "maxOutputTokens" deve ser um inteiro maior que zero' });
+  }
+
+  const format = agent.responseFormat;
+  if (format !== undefined) {
+    const type = isPlainObject(format) ? format.type : format;
+    if (!['text', 'json_object', 'json_schema'].includes(type) || (type === 'json_schema' && !isPlainObject(format))) {
+      issues.push({ field: 'responseFormat', message: 'Campo "responseFormat" deve ser "text", "json_object" ou { "type": "json_schema", "name", "schema" }' });
+    } else if (type === 'json_schema') {
+      if (typeof format.name !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(format.name)) {
+        issues.push({ field: 'responseFormat', message: 'responseFormat json_schema exige "name" (letras, números, _ ou -, até 64 caracteres)' });
+      }
+      if (!isPlainObject(format.schema)) {
+        issues.push({ field: 'responseFormat', message: 'responseFormat json_schema exige "schema" (objeto JSON Schema)' });
+      }
+      if (format.strict !== undefined && typeof format.strict !== 'boolean') {
+        issues.push({ field: 'responseFormat', message: 'Campo "responseFormat.strict" deve ser um boolean' });
+      }
+    }
+  }
+
+  const toolChoice = agent.toolChoice;
+  if (toolChoice !== undefined) {
+    const validString = typeof toolChoice === 'string' && ['auto', 'none', 'required'].includes(toolChoice);
+    const validObject = isPlainObject(toolChoice) && typeof toolChoice.name === 'string' && toolChoice.name.trim() !== '';
+    if (!validString && !validObject) {
+      issues.push({ field: 'toolChoice', message: 'Campo "toolChoice" deve ser "auto", "none", "required" ou { "name": "nome_da_tool" }' });
+    } else if (toolChoice !== 'auto' && toolChoice !== 'none' && (!Array.isArray(agent.tools) || agent.tools.length === 0)) {
+      issues.push({ field: 'toolChoice', message: 'Campo "toolChoice" exige que o agente tenha tools' });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Valida uma regra shouldUse (recursivo para complex/exclude)
+ */
+function validateRule(rule: unknown, path: string, agentName: string | undefined, issues: LintIssue[]): void {
+  const push = (code: string, rulePath: string, message: string) =>
+    issues.push({ severity: 'error', code, path: rulePath, message, agentName });
+
+  if (!isPlainObject(rule)) {
+    push('invalid_rule', path, 'Regra shouldUse deve ser um objeto');
+    return;
+  }
+
+  if (!RULE_TYPES.includes(rule.type)) {
+    push('invalid_rule_type', `${path}.type`, `Tipo de regra inválido: "${rule.type}" (esperado: ${RULE_TYPES.join(', ')})`);
+    return;
+  }
+
+  switch (rule.type) {
+    case 'keywords':
+      if (!isStringArray(rule.keywords) || rule.keywords.length === 0) {
+        push('invalid_keywords', `${path}.keywords`, 'Regra keywords exige uma lista não vazia de strings');
+      } else if (rule.keywords.some((keyword: string) => !keyword.trim())) {
+        push('invalid_keywords', `${path}.keywords`, 'Keywords vazias correspondem a qualquer mensagem');
+      }
+      break;
+
+    case 'regex':
+      if (typeof rule.pattern !== 'string' || !rule.pattern) {
+        push('invalid_regex', `${path}.pattern`, 'Regra regex exige o campo "pattern"');
+        break;
+      }
+      try {
+        new RegExp(rule.pattern, 'i');
+      } catch (error: any) {
+        push('invalid_regex', `${path}.pattern`, `Regex inválida "${rule.pattern}": ${error.message}`);
+      }
+      break;
+
+    case 'complex':
+      if (rule.operator !== undefined && rule.operator !== 'AND' && rule.operator !== 'OR') {
+        push('invalid_operator', `${path}.operator`, `Operador inválido: "${rule.operator}" (esperado: AND ou OR)`);
+      }
+      if (!Array.isArray(rule.rules) || rule.rules.length === 0) {
+        push('invalid_rule', `${path}.rules`, 'Regra complex exige uma lista não vazia de sub-regras');
+        break;
+      }
+      rule.rules.forEach((subRule: unknown, index: number) => validateRule(subRule, `${path}.rules[${index}]`, agentName, issues));
+      break;
+
+    case 'default':
+      if (rule.exclude !== undefined) {
+        validateRule(rule.exclude, `${path}.exclude`, agentName, issues);
+      }
+      break;
+
+    case 'semantic':
+      if (rule.examples !== undefined && !isStringArray(rule.examples)) {
+        push('invalid_examples', `${path}.examples`, 'Campo "examples" deve ser uma lista de strings');
+      } else if (!rule.examples?.length && rule.includeDescription === false) {
+        push('invalid_examples', `${path}.examples`, 'Regra semantic sem exemplos e com "includeDescription": false nunca corresponde');
+      }
+      if (rule.threshold !== undefined && (typeof rule.threshold !== 'number' || rule.threshold <= 0 || rule.threshold > 1)) {
+        push('invalid_threshold', `${path}.threshold`, 'Campo "threshold" deve ser um número maior que 0 e até 1');
+      }
+      if (rule.includeDescription !== undefined && typeof rule.includeDescription !== 'boolean') {
+        push('invalid_rule', `${path}.includeDescription`, 'Campo "includeDescription" deve ser um boolean');
+      }
+      break;
+  }
+}
+
+/**
+ * Valida os campos de um agente
+ */
+function validateAgent(
+  entry: AgentEntry,
+  options: AgentsLintOptions,
+  toolSets: Record<string, any>,
+  findUnavailableMcpServer: UnavailableMcpLookup,
+  issues: LintIssue[]
+): void {
+  const { agent, path } = entry;
+
+  if (!isPlainObject(agent)) {
+    issues.push({ severity: 'error', code: 'invalid_agent', path, message: 'Agente deve ser um objeto' });
+    return;
+  }
+
+  const agentName = typeof agent.name === 'string' ? agent.name : undefined;
+
+  for (const field of REQUIRED_AGENT_FIELDS) {
+    if (typeof agent[field] !== 'string' || !agent[field].trim()) {
+      issues.push({ severity: 'error', code: 'missing_field', path: `${path}.${field}`, message: `Campo "${field}" é obrigatório (string)`, agentName });
+    }
+  }
+
+  if (agent.priority !== undefined && typeof agent.priority !== 'number') {
+    issues.push({ severity: 'error', code: 'invalid_priority', path: `${path}.priority`, message: 'Campo "priority" deve ser um número', agentName });
+  } else if (agent.priority === undefined && entry.role !== 'mainSelector') {
+    issues.push({ severity: 'warning', code: 'missing_priority', path: `${path}.priority`, message: 'Campo "priority" ausente (será tratado como 999)', agentName });
+  }
+
+  if (agent.enabled !== undefined && typeof agent.enabled !== 'boolean') {
+    issues.push({ severity: 'error', code: 'invalid_enabled', path: `${path}.enabled`, message: 'Campo "enabled" deve ser um boolean', agentName });
+  }
+
+  if (agent.shouldUse === undefined) {
+    issues.push({ severity: 'error', code: 'missing_field', path: `${path}.shouldUse`, message: 'Campo "shouldUse" é obrigatório', agentName });
+  } else {
+    validateRule(agent.shouldUse, `${path}.shouldUse`, agentName, issues);
+  }
+
+  if (typeof agent.instructions === 'string') {
+    getUnknownTemplateVariables(agent.instructions).forEach((variable) => {
+      issues.push({
+        severity: 'error',
+        code: 'unknown_template_variable',
+        path: `${path}.instructions`,
+        message: `Variável de template desconhecida: "{{${variable}}}" (disponíveis: ${INSTRUCTION_TEMPLATE_VARIABLES.join(', ')})`,
+        agentName,
+      });
+    });
+  }
+
+  validateGenerationSettings(agent).forEach((issue) => {
+    issues.push({ severity: 'error', code: 'invalid_generation_setting', path: `${path}.${issue.field}`, message: issue.message, agentName });
+  });
+
+  if (agent.tools !== undefined) {
+    if (!isStringArray(agent.tools)) {
+      issues.push({ severity: 'error', code: 'invalid_tools', path: `${path}.tools`, message: 'Campo "tools" deve ser uma lista de strings', agentName });
+    } else {
+      agent.tools.forEach((toolName: string, index: number) => {
+        const known = toolSets[toolName] !== undefined || options.knownToolSets.includes(toolName) || options.knownTools.includes(toolName);
+        if (!known) {
+          issues.push(unknownToolIssue(
+            toolName,
+            `${path}.tools[${index}]`,
+            `Tool ou toolSet desconhecido: "${toolName}"`,
+            findUnavailableMcpServer,
+            agentName
+          ));
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Coleta os agentes do arquivo com seus caminhos e papéis
+ */
+function collectAgents(data: Record<string, any>, issues: LintIssue[]): AgentEntry[] {
+  const entries: AgentEntry[] = [];
+
+  if ('agents' in data && !('groups' in data) && !('mainSelector' in data)) {
+    if (!Array.isArray(data.agents)) {
+      issues.push({ severity: 'error', code: 'invalid_structure', path: 'agents', message: 'Campo "agents" deve ser uma lista' });
+      return entries;
+    }
+    data.agents.forEach((agent: any, index: number) => entries.push({ agent, path: `agents[${index}]`, role: 'agent' }));
+    return entries;
+  }
+
+  if (!('groups' in data) && !('mainSelector' in data)) {
+    issues.push({ severity: 'error', code: 'invalid_structure', path: '', message: 'Estrutura inválida: deve conter "groups" ou "agents"' });
+    return entries;
+  }
+
+  if (data.mainSelector !== undefined) {
+    entries.push({ agent: data.mainSelector, path: 'mainSelector', role: 'mainSelector' });
+  }
+
+  if (data.groups !== undefined && !Array.isArray(data.groups)) {
+    issues.push({ severity: 'error', code: 'invalid_structure', path: 'groups', message: 'Campo "groups" deve ser uma lista' });
+  } else if (Array.isArray(data.groups)) {
+    const groupIds = new Set<string>();
+
+    data.groups.forEach((group: any, groupIndex: number) => {
+      const groupPath = `groups[${groupIndex}]`;
+      if (!isPlainObject(group)) {
+        issues.push({ severity: 'error', code: 'invalid_group', path: groupPath, message: 'Grupo deve ser um objeto' });
+        return;
+      }
+
+      if (typeof group.id !== 'string' || !group.id.trim()) {
+        issues.push({ severity: 'error', code: 'missing_field', path: `${groupPath}.id`, message: 'Campo "id" do grupo é obrigatório' });
+      } else if (groupIds.has(group.id)) {
+        issues.push({ severity: 'error', code: 'duplicate_group', path: `${groupPath}.id`, message: `ID de grupo duplicado: "${group.id}"` });
+      } else {
+        groupIds.add(group.id);
+      }
+
+      if (typeof group.name !== 'string' || !group.name.trim()) {
+        issues.push({ severity: 'error', code: 'missing_field', path: `${groupPath}.name`, message: 'Campo "name" do grupo é obrigatório' });
+      }
+
+      if (group.affinity !== undefined) {
+        if (!isPlainObject(group.affinity) || typeof group.affinity.enabled !== 'boolean') {
+          issues.push({ severity: 'error', code: 'invalid_affinity', path: `${groupPath}.affinity`, message: 'Campo "affinity" deve ser um objeto com "enabled" (boolean)' });
+        } else if (group.affinity.maxTurns !== undefined && (typeof group.affinity.maxTurns !== 'number' || group.affinity.maxTurns < 1)) {
+          issues.push({ severity: 'error', code: 'invalid_affinity', path: `${groupPath}.affinity.maxTurns`, message: 'Campo "affinity.maxTurns" deve ser um número maior que zero' });
+        }
+      }
+
+      if (group.orchestrator !== undefined) {
+        entries.push({ agent: group.orchestrator, path: `${groupPath}.orchestrator`, role: 'orchestrator' });
+      }
+
+      if (!Array.isArray(group.agents)) {
+        issues.push({ severity: 'error', code: 'invalid_group', path: `${groupPath}.agents`, message: 'Campo "agents" do grupo deve ser uma lista' });
+        return;
+      }
+      group.agents.forEach((agent: any, agentIndex: number) =>
+        entries.push({ agent, path: `${groupPath}.agents[${agentIndex}]`, role: 'agent' })
+      );
+    });
+  }
+
+  if (data.fallbackAgent !== undefined) {
+    entries.push({ agent: data.fallbackAgent, path: 'fallbackAgent', role: 'fallback' });
+  }
+
+  return entries;
+}
+
+/**
+ * Indica se todas as keywords do agente encoberto contêm alguma keyword do agente anterior
+ * (toda mensagem que casa com o segundo casa também com o primeiro)
+ */
+function keywordsCovered(shadowed: string[], shadowing: string[]): boolean {
+  const shadowingLower = shadowing.map((keyword) => keyword.toLowerCase()).filter(Boolean);
+  return shadowed.length > 0 && shadowed.every((keyword) =>
+    shadowingLower.some((candidate) => keyword.toLowerCase().includes(candidate))
+  );
+}
+
+/**
+ * Checagens de roteamento: múltiplas regras default e agentes inalcançáveis
+ */
+function checkRouting(entries: AgentEntry[], issues: LintIssue[]): void {
+  // Mesma ordem de avaliação do selectAgentSync: por prioridade, sem o Main Selector
+  const routable = entries
+    .filter((entry) => entry.role !== 'mainSelector' && isPlainObject(entry.agent) && isPlainObject(entry.agent.shouldUse))
+    .filter((entry) => entry.agent.routable !== false && entry.agent.enabled !== false)
+    .sort((a, b) => (a.agent.priority ?? 999) - (b.agent.priority ?? 999));
+
+  const defaults = routable.filter((entry) => entry.agent.shouldUse.type === 'default');
+  if (defaults.length > 1) {
+    defaults.slice(1).forEach((entry) => {
+      issues.push({
+        severity: 'error',
+        code: 'multiple_default',
+        path: `${entry.path}.shouldUse`,
+        message: `Mais de um agente com regra "default" (${defaults.map((d) => d.agent.name).join(', ')})`,
+        agentName: entry.agent.name,
+      });
+    });
+  }
+
+  routable.forEach((entry, index) => {
+    // O Code Analyzer também é alcançado pelo atalho de palavras de criação
+    if (entry.agent.name === 'Code Analyzer') {
+      return;
+    }
+
+    const shadowingEntry = routable.slice(0, index).find((previous) => {
+      const previousRule = previous.agent.shouldUse;
+      if (previousRule.type === 'default' && !previousRule.exclude) {
+        return true;
+      }
+      return (
+        previousRule.type === 'keywords' &&
+        entry.agent.shouldUse.type === 'keywords' &&
+        isStringArray(previousRule.keywords) &&
+        isStringArray(entry.agent.shouldUse.keywords) &&
+        keywordsCovered(entry.agent.shouldUse.keywords, previousRule.keywords)
+      );
+    });
+
+    if (shadowingEntry) {
+      issues.push({
+        severity: 'warning',
+        code: 'unreachable_agent',
+        path: `${entry.path}.shouldUse`,
+        message: `Agente "${entry.agent.name}" é inalcançável: "${shadowingEntry.agent.name}" (prioridade ${shadowingEntry.agent.priority ?? 999}) corresponde antes a todas as suas mensagens`,
+        agentName: entry.agent.name,
+      });
+    }
+  });
+}
+
+/**
+ * Valida a estrutura e a semântica do conteúdo do agents.json
+ *
+ * @param {unknown} data - Conteúdo do arquivo (já parseado)
+ * @param {AgentsLintOptions} options - Tools e conjuntos conhecidos
+ * @returns {AgentsLintReport} Relatório com erros e avisos
+ */
+export function lintAgentsJson(data: unknown, options: AgentsLintOptions): AgentsLintReport {
+  const issues: LintIssue[] = [];
+
+  if (!isPlainObject(data)) {
+    issues.push({ severity: 'error', code: 'invalid_structure', path: '', message: 'O agents.json deve conter um objeto JSON' });
+    return buildReport(issues);
+  }
+
+  // mcpServers
+  const mcpServers: Record<string, any> = isPlainObject(data.mcpServers) ? data.mcpServers : {};
+  if (data.mcpServers !== undefined && !isPlainObject(data.mcpServers)) {
+    issues.push({ severity: 'error', code: 'invalid_structure', path: 'mcpServers', message: 'Campo "mcpServers" deve ser um objeto' });
+  }
+  for (const [serverName, server] of Object.entries(mcpServers)) {
+    if (!isPlainObject(server) || typeof server.command !== 'string' || !server.command) {
+      issues.push({ severity: 'error', code: 'invalid_mcp_server', path: `mcpServers.${serverName}.command`, message: `Servidor MCP "${serverName}" exige o campo "command"` });
+    }
+  }
+
+  // Tools de servidores MCP fora do ar (desabilitados ou que falharam) não estão registradas;
+  // só são aceitas (com aviso) se o nome usar o toolPrefix do servidor
+  const mcpServerNames = Object.keys(mcpServers);
+  const unavailableMcpPrefixes = mcpServerNames
+    .filter((serverName) => !options.availableMcpServers?.includes(serverName))
+    .map((serverName) => ({ serverName, prefix: mcpServers[serverName]?.toolPrefix }))
+    .filter((entry): entry is { serverName: string; prefix: string } => typeof entry.prefix === 'string' && entry.prefix.length > 0);
+  const findUnavailableMcpServer: UnavailableMcpLookup = (toolName) =>
+    unavailableMcpPrefixes.find((entry) => toolName.startsWith(entry.prefix) && toolName.length > entry.prefix.length)?.serverName;
+
+  // toolSets
+  const toolSets: Record<string, any> = isPlainObject(data.toolSets) ? data.toolSets : {};
+  if (data.toolSets !== undefined && !isPlainObject(data.toolSets)) {
+    issues.push({ severity: 'error', code: 'invalid_structure', path: 'toolSets', message: 'Campo "toolSets" deve ser um objeto' });
+  }
+  for (const [setName, tools] of Object.entries(toolSets)) {
+    if (!isStringArray(tools)) {
+      issues.push({ severity: 'error', code: 'invalid_tools', path: `toolSets.${setName}`, message: `toolSet "${setName}" deve ser uma lista de strings` });
+      continue;
+    }
+    tools.forEach((toolName, index) => {
+      if (!options.knownTools.includes(toolName)) {
+        issues.push(unknownToolIssue(
+          toolName,
+          `toolSets.${setName}[${index}]`,
+          `Tool desconhecida no toolSet "${setName}": "${toolName}"`,
+          findUnavailableMcpServer
+        ));
+      }
+    });
+  }
+
+  // Cada servidor MCP declarado também é um conjunto de tools com o próprio nome
+  const lintOptions: AgentsLintOptions = {
+    ...options,
+    knownToolSets: [...options.knownToolSets, ...mcpServerNames],
+  };
+
+  const entries = collectAgents(data, issues);
+  entries.forEach((entry) => validateAgent(entry, lintOptions, toolSets, findUnavailableMcpServer, issues));
+
+  // Nomes duplicados em todo o arquivo (entre grupos, seletor e fallback)
+  const seenNames = new Set<string>();
+  for (const entry of entries) {
+    const name = isPlainObject(entry.agent) ? entry.agent.name : undefined;
+    if (typeof name !== 'string') continue;
+    if (seenNames.has(name.toLowerCase())) {
+      issues.push({ severity: 'error', code: 'duplicate_name', path: `${entry.path}.name`, message: `Nome de agente duplicado: "${name}"`, agentName: name });
+    } else {
+      seenNames.add(name.toLowerCase());
+    }
+  }
+
+  checkRouting(entries, issues);
+
+  return buildReport(issues);
+}
+
+function buildReport(issues: LintIssue[]): AgentsLintReport {
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+  return {
+    valid: errors === 0,
+    errors,
+    warnings: issues.length - errors,
+    issues,
+  };
+}
+
+/**
+ * Retorna os erros presentes em `after` que não existiam em `before`
+ *
+ * Usado para rejeitar escritas que introduzem erros sem bloquear arquivos já com problemas.
+ */
+export function getIntroducedErrors(before: AgentsLintReport, after: AgentsLintReport): LintIssue[] {
+  const key = (issue: LintIssue) => `${issue.code}|${issue.agentName || ''}|${issue.message}`;
+  const existing = new Set(before.issues.filter((issue) => issue.severity === 'error').map(key));
+  return after.issues.filter((issue) => issue.severity === 'error' && !existing.has(key(issue)));
+}
@@ -32,8 +32,31 @@ export function validateLLMCredentials(
       return { valid: false, error: 'StackSpot Client Secret não configurado' };
     }
     return { valid: true };
+  } else if (provider === 'openai-compatible') {
+    if (!config.openaiCompatibleBaseUrl || config.openaiCompatibleBaseUrl.trim() === '') {
+      return { valid: false, error: 'Base URL do servidor compatível com OpenAI não configurada' };
+    }
+    if (!isHttpUrl(config.openaiCompatibleBaseUrl)) {
+      return { valid: false, error: 'Base URL inválida (deve começar com "http://" ou "https://")' };
+    }
+    // API key é opcional: servidores locais normalmente não exigem autenticação
+    return { valid: true };
+  } else if (provider === 'mock') {
+    // O provider mock roda em memória e não exige credenciais
+    return { valid: true };
   }
 
   return { valid: false, error: `Provider "${provider}" não suportado` };
 }
 
+/**
+ * Verifica se o valor é uma URL http(s) válida
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+}